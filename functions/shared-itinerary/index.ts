@@ -0,0 +1,78 @@
+// Resolves a public share token on the server, so signed-out visitors never
+// read shareLinks, trips or tripEntries themselves. Only the scrubbed
+// itinerary of the one trip the token points at is sent back.
+//
+// Runs as a Blink edge function with the project's secret key; set
+// VITE_SHARE_ENDPOINT in the app to the URL it's deployed at.
+import { createClient } from 'npm:@blinkdotnew/sdk'
+import { isShareLinkExpired, toPublicItinerary } from '../../src/lib/share-links.ts'
+import type { ShareLink, Trip, TripEntry } from '../../src/lib/database.ts'
+
+const blink = createClient({
+  projectId: Deno.env.get('BLINK_PROJECT_ID')!,
+  secretKey: Deno.env.get('BLINK_SECRET_KEY')!
+})
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS'
+}
+
+// Same JSON columns the app's Blink repository decodes
+const TRIP_JSON_FIELDS = ['legs', 'travellers', 'budget']
+const ENTRY_JSON_FIELDS = ['flight', 'stay', 'transport', 'travellerIds']
+
+function decode<T>(record: T, fields: string[]): T {
+  const decoded: Record<string, unknown> = { ...record }
+  for (const field of fields) {
+    const value = decoded[field]
+    if (typeof value === 'string') {
+      try {
+        decoded[field] = value ? JSON.parse(value) : undefined
+      } catch {
+        decoded[field] = undefined
+      }
+    }
+  }
+  return decoded as T
+}
+
+function respond(status: number, body?: unknown) {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+  })
+}
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: CORS_HEADERS })
+  if (request.method !== 'GET') return respond(405)
+
+  const token = new URL(request.url).searchParams.get('token')
+  // Unknown, revoked and expired tokens all answer the same, so a stale link
+  // can't be told from a made-up one
+  if (!token) return respond(404)
+
+  try {
+    const [link] = await blink.db.table<ShareLink>('shareLinks').list({ where: { token }, limit: 1 })
+    if (!link || isShareLinkExpired(link)) return respond(404)
+
+    const [trip, entries] = await Promise.all([
+      blink.db.table<Trip>('trips').get(link.tripId),
+      blink.db.table<TripEntry>('tripEntries').list({
+        where: { tripId: link.tripId },
+        orderBy: { date: 'asc', startTime: 'asc' }
+      })
+    ])
+    if (!trip) return respond(404)
+
+    return respond(200, toPublicItinerary(
+      decode(trip, TRIP_JSON_FIELDS),
+      entries.map(entry => decode(entry, ENTRY_JSON_FIELDS)),
+      link
+    ))
+  } catch (error) {
+    console.error('Failed to resolve share link:', error)
+    return respond(500)
+  }
+})
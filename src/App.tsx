@@ -8,7 +8,11 @@ import { TripDetails } from './pages/TripDetails'
 import { CalendarView } from './pages/CalendarView'
 import { PackingList } from './pages/PackingList'
 import { Profile } from './pages/Profile'
+import { SharedItinerary } from './pages/SharedItinerary'
 import { LoadingScreen } from './components/ui/LoadingScreen'
+import { PendingConflicts } from './components/sync/PendingConflicts'
+import { RejectedWrites } from './components/sync/RejectedWrites'
+import { DatabaseService } from './lib/database'
 
 interface User {
   id: string
@@ -16,7 +20,7 @@ interface User {
   displayName?: string
 }
 
-function App() {
+function AuthenticatedApp() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
 
@@ -28,6 +32,22 @@ function App() {
     return unsubscribe
   }, [])
 
+  // The client no longer redirects on its own so public share pages can load
+  // signed out; everything else still sends visitors to sign in
+  useEffect(() => {
+    if (!loading && !user) blink.auth.login(window.location.href)
+  }, [loading, user])
+
+  useEffect(() => {
+    if (!user) return
+    // Pick the storage backend once, before any page asks for data
+    DatabaseService.initialize()
+      .then(() => DatabaseService.getCustomCategories(user.id))
+      .catch(error => {
+        console.error('Failed to initialize storage:', error)
+      })
+  }, [user])
+
   if (loading) {
     return <LoadingScreen />
   }
@@ -44,23 +64,34 @@ function App() {
   }
 
   return (
-    <Router>
-      <div className="min-h-screen bg-background">
-        <div className="flex">
-          <Sidebar user={user} />
-          <main className="flex-1 ml-64">
-            <Routes>
-              <Route path="/" element={<Navigate to="/dashboard" replace />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/trip/:id" element={<TripDetails />} />
-              <Route path="/calendar" element={<CalendarView />} />
-              <Route path="/packing/:tripId" element={<PackingList />} />
-              <Route path="/profile" element={<Profile />} />
-            </Routes>
-          </main>
-        </div>
-        <Toaster />
+    <div className="min-h-screen bg-background">
+      <div className="flex">
+        <Sidebar user={user} />
+        <main className="flex-1 ml-64">
+          <Routes>
+            <Route path="/" element={<Navigate to="/dashboard" replace />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/trip/:id" element={<TripDetails />} />
+            <Route path="/calendar" element={<CalendarView />} />
+            <Route path="/packing/:tripId" element={<PackingList />} />
+            <Route path="/profile" element={<Profile />} />
+          </Routes>
+        </main>
       </div>
+      <PendingConflicts />
+      <RejectedWrites />
+      <Toaster />
+    </div>
+  )
+}
+
+function App() {
+  return (
+    <Router>
+      <Routes>
+        <Route path="/share/:token" element={<SharedItinerary />} />
+        <Route path="*" element={<AuthenticatedApp />} />
+      </Routes>
     </Router>
   )
 }
@@ -2,5 +2,7 @@ import { createClient } from '@blinkdotnew/sdk'
 
 export const blink = createClient({
   projectId: 'travelplan-itinerary-manager-hupdfnr9',
-  authRequired: true
+  // App.tsx gates every route except the public /share/:token pages, which
+  // read no tables; the Blink project's tables can all require a session
+  authRequired: false
 })
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from 'react'
+import { ArrowRight, CheckCircle2, Download, Scale } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { DatabaseService, type Expense, type Trip } from '../../lib/database'
+import { balancesToCsv, computeBalances } from '../../lib/splits'
+import { formatMoney } from '../../lib/currency'
+
+interface BalancesTabProps {
+  trip: Trip
+}
+
+function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function BalancesTab({ trip }: BalancesTabProps) {
+  const [expenses, setExpenses] = useState<Expense[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadExpenses = useCallback(async () => {
+    try {
+      setExpenses(await DatabaseService.getExpenses(trip.id))
+    } catch (error) {
+      console.error('Failed to load expenses:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [trip.id])
+
+  useEffect(() => {
+    loadExpenses()
+  }, [loadExpenses])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const balances = computeBalances(expenses)
+  const settled = balances.every(balance => balance.transfers.length === 0)
+
+  const exportCsv = () => {
+    const slug = trip.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'trip'
+    downloadCsv(`${slug}-balances.csv`, balancesToCsv(balances))
+  }
+
+  if (expenses.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center">
+          <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Scale className="h-8 w-8 text-primary" />
+          </div>
+          <h3 className="text-lg font-semibold mb-2">Nothing to settle yet</h3>
+          <p className="text-muted-foreground">
+            Split expenses from the Budget tab and who owes whom will show up here.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {settled
+            ? 'Everyone is settled up.'
+            : 'Balances are kept per currency, so each is settled in the money it was spent in.'}
+        </p>
+        <Button variant="outline" onClick={exportCsv}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {balances.map(({ currency, people, transfers }) => (
+        <Card key={currency}>
+          <CardHeader>
+            <CardTitle className="text-base">{currency}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Person</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {people.map(person => (
+                  <TableRow key={person.person}>
+                    <TableCell className="font-medium">{person.person}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatMoney(person.paid, currency)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatMoney(person.share, currency)}</TableCell>
+                    <TableCell
+                      className={`text-right tabular-nums font-medium ${
+                        person.net > 0 ? 'text-green-600' : person.net < 0 ? 'text-destructive' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {person.net > 0 && '+'}{formatMoney(person.net, currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {transfers.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                All square in {currency}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">To settle up</p>
+                {transfers.map(transfer => (
+                  <div
+                    key={`${transfer.from}-${transfer.to}`}
+                    className="flex items-center gap-3 rounded-lg border bg-muted/40 px-4 py-2 text-sm"
+                  >
+                    <span className="font-medium">{transfer.from}</span>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{transfer.to}</span>
+                    <span className="ml-auto font-semibold tabular-nums">
+                      {formatMoney(transfer.amount, currency)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState } from 'react'
+import { Plus, Upload, Wallet, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { ConflictMergeDialog } from '../sync/ConflictMergeDialog'
+import { useToast } from '../../hooks/use-toast'
+import { useCategories } from '../../hooks/use-categories'
+import { DatabaseService, type Trip, type TripBudget } from '../../lib/database'
+import { ConflictError, type EditConflict } from '../../lib/repositories'
+import { COMMON_CURRENCIES, isCurrencyCode, normalizeCurrency, parseRates } from '../../lib/currency'
+
+interface BudgetSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  trip: Trip
+  // Currencies expenses already use, listed first in the rates section
+  usedCurrencies: string[]
+  onBudgetSaved?: (trip: Trip) => void
+}
+
+// Inputs are kept as text so half-typed numbers aren't mangled
+type AmountFields = Record<string, string>
+
+function toFields(values: Record<string, number>): AmountFields {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)]))
+}
+
+function toAmounts(fields: AmountFields): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(fields)
+      .map(([key, value]) => [key, Number(value)] as const)
+      .filter(([, value]) => value > 0)
+  )
+}
+
+export function BudgetSettingsDialog({
+  open,
+  onOpenChange,
+  trip,
+  usedCurrencies,
+  onBudgetSaved
+}: BudgetSettingsDialogProps) {
+  const categories = useCategories()
+  const [currency, setCurrency] = useState('USD')
+  const [total, setTotal] = useState('')
+  const [planned, setPlanned] = useState<AmountFields>({})
+  const [rates, setRates] = useState<AmountFields>({})
+  const [newCurrency, setNewCurrency] = useState('')
+  const [importText, setImportText] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [conflict, setConflict] = useState<EditConflict | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+    setCurrency(trip.budget?.currency ?? 'USD')
+    setTotal(trip.budget?.total ? String(trip.budget.total) : '')
+    setPlanned(toFields(trip.budget?.categories ?? {}))
+    setRates(toFields(trip.budget?.rates ?? {}))
+    setNewCurrency('')
+    setImportText('')
+  }, [open, trip])
+
+  const rateCurrencies = [...new Set([...usedCurrencies, ...Object.keys(rates)])]
+    .filter(code => code !== currency)
+    .sort()
+
+  const addCurrency = () => {
+    const code = normalizeCurrency(newCurrency)
+    if (!isCurrencyCode(code) || code === currency) return
+    setRates(prev => ({ ...prev, [code]: prev[code] ?? '' }))
+    setNewCurrency('')
+  }
+
+  const removeCurrency = (code: string) => {
+    setRates(prev => {
+      const next = { ...prev }
+      delete next[code]
+      return next
+    })
+  }
+
+  const handleImport = () => {
+    const { rates: imported, rejected } = parseRates(importText)
+    const count = Object.keys(imported).length
+    setRates(prev => ({ ...prev, ...toFields(imported) }))
+    setImportText('')
+    toast({
+      title: count > 0 ? `Imported ${count} ${count === 1 ? 'rate' : 'rates'}` : 'No rates found',
+      description: rejected.length > 0
+        ? `Skipped ${rejected.length} unreadable ${rejected.length === 1 ? 'line' : 'lines'}: ${rejected.slice(0, 3).join('; ')}`
+        : `Rates are in ${currency} per unit of each currency.`,
+      variant: count > 0 ? 'default' : 'destructive',
+    })
+  }
+
+  const handleSave = async () => {
+    const budget: TripBudget = {
+      currency,
+      categories: toAmounts(planned),
+      rates: toAmounts(rates),
+    }
+    const totalAmount = Number(total)
+    if (totalAmount > 0) budget.total = totalAmount
+
+    try {
+      setSaving(true)
+      const updated = await DatabaseService.updateTrip(trip.id, { budget }, { ifUpdatedAt: trip.updatedAt ?? null })
+      toast({
+        title: 'Budget saved',
+        description: `Budget for ${trip.title} has been updated.`,
+      })
+      onOpenChange(false)
+      onBudgetSaved?.(updated)
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        onOpenChange(false)
+        setConflict(error.conflict)
+        return
+      }
+      console.error('Failed to save budget:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to save budget. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const currencies = COMMON_CURRENCIES.includes(currency) ? COMMON_CURRENCIES : [currency, ...COMMON_CURRENCIES]
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5 text-primary" />
+              Trip Budget
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="budget-currency">Budget Currency</Label>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger id="budget-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    {currencies.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budget-total">Total (Optional)</Label>
+                <Input
+                  id="budget-total"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Sum of categories"
+                  value={total}
+                  onChange={(e) => setTotal(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Planned by Category</Label>
+              <div className="grid grid-cols-2 gap-3">
+                {categories.map(category => (
+                  <div key={category.value} className="flex items-center gap-2">
+                    <span className="w-28 shrink-0 truncate text-sm text-muted-foreground">{category.label}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0"
+                      aria-label={`${category.label} budget`}
+                      value={planned[category.value] ?? ''}
+                      onChange={(e) => setPlanned(prev => ({ ...prev, [category.value]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Exchange Rates</Label>
+              <p className="text-xs text-muted-foreground">
+                What one unit of each currency is worth in {currency}. Expenses without a rate are left out of the totals.
+              </p>
+              {rateCurrencies.map(code => (
+                <div key={code} className="flex items-center gap-2">
+                  <span className="w-16 shrink-0 text-sm font-medium">1 {code} =</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    placeholder="Rate"
+                    aria-label={`${code} rate`}
+                    value={rates[code] ?? ''}
+                    onChange={(e) => setRates(prev => ({ ...prev, [code]: e.target.value }))}
+                    className={usedCurrencies.includes(code) && !(Number(rates[code]) > 0) ? 'border-destructive' : ''}
+                  />
+                  <span className="w-12 shrink-0 text-sm text-muted-foreground">{currency}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeCurrency(code)}
+                    aria-label={`Remove ${code}`}
+                    disabled={usedCurrencies.includes(code)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Add currency, e.g. EUR"
+                  maxLength={3}
+                  value={newCurrency}
+                  onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => e.key === 'Enter' && addCurrency()}
+                  className="uppercase"
+                />
+                <Button type="button" variant="outline" onClick={addCurrency}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <Textarea
+                  placeholder={'Paste rates to import, one per line (EUR, 1.08) or as JSON ({"EUR": 1.08})'}
+                  rows={3}
+                  value={importText}
+                  onChange={(e) => setImportText(e.target.value)}
+                />
+                <Button type="button" variant="outline" size="sm" onClick={handleImport} disabled={!importText.trim()}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  Import Rates
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="flex-1 bg-primary hover:bg-primary/90">
+                {saving ? 'Saving...' : 'Save Budget'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConflictMergeDialog
+        conflict={conflict}
+        onOpenChange={(isOpen) => !isOpen && setConflict(null)}
+      />
+    </>
+  )
+}
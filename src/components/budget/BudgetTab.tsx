@@ -0,0 +1,353 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { AlertTriangle, MoreVertical, Plus, Receipt, Settings2, Wallet } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Progress } from '../ui/progress'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '../ui/alert-dialog'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '../ui/chart'
+import { CategoryBadge } from '../trips/CategoryBadge'
+import { ExpenseDialog } from './ExpenseDialog'
+import { BudgetSettingsDialog } from './BudgetSettingsDialog'
+import { useToast } from '../../hooks/use-toast'
+import { useCategories } from '../../hooks/use-categories'
+import { DatabaseService, type Expense, type Trip, type TripEntry } from '../../lib/database'
+import { summarizeBudget, listForeignCurrencies } from '../../lib/budget'
+import { formatMoney } from '../../lib/currency'
+import { listCompanions } from '../../lib/splits'
+import { getCategory } from '../../lib/categories'
+import { formatDate } from '../../lib/dates'
+
+interface BudgetTabProps {
+  trip: Trip
+  entries: TripEntry[]
+  onTripUpdated: (trip: Trip) => void
+  // Viewers see the numbers but can't change them
+  readOnly?: boolean
+}
+
+const categoryChartConfig = {
+  planned: { label: 'Planned', color: 'hsl(var(--chart-2))' },
+  spent: { label: 'Spent', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig
+
+const dailyChartConfig = {
+  cumulative: { label: 'Spent so far', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig
+
+export function BudgetTab({ trip, entries, onTripUpdated, readOnly = false }: BudgetTabProps) {
+  const [expenses, setExpenses] = useState<Expense[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showExpenseDialog, setShowExpenseDialog] = useState(false)
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null)
+  const [expenseToDelete, setExpenseToDelete] = useState<Expense | null>(null)
+  const [showSettings, setShowSettings] = useState(false)
+  const { toast } = useToast()
+  // Subscribing keeps custom category labels current in the charts
+  useCategories()
+
+  const loadExpenses = useCallback(async () => {
+    try {
+      setExpenses(await DatabaseService.getExpenses(trip.id))
+    } catch (error) {
+      console.error('Failed to load expenses:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [trip.id])
+
+  useEffect(() => {
+    loadExpenses()
+  }, [loadExpenses])
+
+  // Stable between renders so an open expense form isn't reset
+  const companions = useMemo(
+    () => [...new Set([...(trip.travellers ?? []).map(traveller => traveller.name), ...listCompanions(expenses)])],
+    [trip.travellers, expenses]
+  )
+
+  const openExpenseEditor = (expense: Expense | null) => {
+    setEditingExpense(expense)
+    setShowExpenseDialog(true)
+  }
+
+  const deleteExpense = async (expense: Expense) => {
+    try {
+      await DatabaseService.deleteExpense(expense.id)
+      setExpenses(prev => prev.filter(e => e.id !== expense.id))
+      toast({
+        title: 'Expense deleted',
+        description: `${expense.description} has been removed from the budget.`,
+      })
+    } catch (error) {
+      console.error('Failed to delete expense:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to delete expense. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setExpenseToDelete(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const budget = trip.budget ?? { currency: 'USD', categories: {}, rates: {} }
+  const summary = summarizeBudget(budget, expenses)
+  const remaining = summary.planned - summary.spent
+  const usedPercent = summary.planned > 0 ? Math.min(100, (summary.spent / summary.planned) * 100) : 0
+  const entryTitles = new Map(entries.map(entry => [entry.id, entry.title]))
+
+  const categoryData = summary.byCategory.map(row => ({
+    ...row,
+    label: getCategory(row.category).label
+  }))
+  const dailyData = summary.byDay.map(day => ({
+    ...day,
+    label: formatDate(day.date, 'short')
+  }))
+  const formatAxis = (value: number) => formatMoney(value, summary.currency).replace(/\.00$/, '')
+  const formatTooltip = (value: unknown) => formatMoney(Number(value), summary.currency)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {trip.budget
+            ? `Amounts in ${summary.currency}`
+            : 'No budget set yet. Expenses are still tracked.'}
+        </p>
+        {!readOnly && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowSettings(true)}>
+              <Settings2 className="h-4 w-4 mr-2" />
+              {trip.budget ? 'Edit Budget' : 'Set Budget'}
+            </Button>
+            <Button onClick={() => openExpenseEditor(null)} className="bg-primary hover:bg-primary/90">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Expense
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-5">
+            <p className="text-sm text-muted-foreground">Planned</p>
+            <p className="text-2xl font-semibold">
+              {summary.planned > 0 ? formatMoney(summary.planned, summary.currency) : '—'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-5">
+            <p className="text-sm text-muted-foreground">Spent</p>
+            <p className="text-2xl font-semibold">{formatMoney(summary.spent, summary.currency)}</p>
+            {summary.planned > 0 && <Progress value={usedPercent} className="mt-3 h-2" />}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-5">
+            <p className="text-sm text-muted-foreground">{remaining < 0 ? 'Over budget' : 'Remaining'}</p>
+            <p className={`text-2xl font-semibold ${remaining < 0 ? 'text-destructive' : ''}`}>
+              {summary.planned > 0 ? formatMoney(Math.abs(remaining), summary.currency) : '—'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {summary.unconverted.length > 0 && (
+        <div className="flex items-start gap-3 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <div className="flex-1">
+            <p className="font-medium">
+              {summary.unconverted.length} {summary.unconverted.length === 1 ? 'expense is' : 'expenses are'} left out of the totals
+            </p>
+            <p>
+              Add a rate for {listForeignCurrencies(budget, summary.unconverted).join(', ')} to include them.
+            </p>
+          </div>
+          {!readOnly && (
+            <Button variant="outline" size="sm" onClick={() => setShowSettings(true)}>
+              Add Rates
+            </Button>
+          )}
+        </div>
+      )}
+
+      {expenses.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By Category</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={categoryChartConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={categoryData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={formatAxis} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={formatTooltip} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="planned" fill="var(--color-planned)" radius={4} />
+                  <Bar dataKey="spent" fill="var(--color-spent)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Spending Over Time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={dailyChartConfig} className="aspect-auto h-64 w-full">
+                <AreaChart data={dailyData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={formatAxis} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={formatTooltip} />} />
+                  <Area
+                    dataKey="cumulative"
+                    type="monotone"
+                    fill="var(--color-cumulative)"
+                    fillOpacity={0.3}
+                    stroke="var(--color-cumulative)"
+                  />
+                </AreaChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {expenses.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Wallet className="h-8 w-8 text-primary" />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">No expenses yet</h3>
+            <p className="text-muted-foreground mb-6">
+              Log what you spend, in any currency, to see it against your budget.
+            </p>
+            {!readOnly && (
+              <Button onClick={() => openExpenseEditor(null)} className="bg-primary hover:bg-primary/90">
+                <Plus className="h-4 w-4 mr-2" />
+                Add First Expense
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Expenses</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y p-0">
+            {[...expenses].reverse().map(expense => (
+              <div key={expense.id} className="flex items-center gap-4 px-6 py-3">
+                <Receipt className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <p className="truncate font-medium">{expense.description}</p>
+                    <CategoryBadge category={expense.category} className="text-xs" />
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {formatDate(expense.date, 'short')} · Paid by {expense.paidBy}
+                    {expense.split && ` · Split with ${Object.keys(expense.split.parts).join(', ')}`}
+                    {expense.entryId && entryTitles.has(expense.entryId) && ` · ${entryTitles.get(expense.entryId)}`}
+                  </p>
+                </div>
+                <p className="font-medium tabular-nums">{formatMoney(expense.amount, expense.currency)}</p>
+                {!readOnly && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm">
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => openExpenseEditor(expense)}>
+                        Edit Expense
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-destructive"
+                        onSelect={() => setExpenseToDelete(expense)}
+                      >
+                        Delete Expense
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <ExpenseDialog
+        open={showExpenseDialog}
+        onOpenChange={setShowExpenseDialog}
+        trip={trip}
+        entries={entries}
+        companions={companions}
+        expense={editingExpense}
+        onExpenseSaved={loadExpenses}
+      />
+
+      <BudgetSettingsDialog
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        trip={trip}
+        usedCurrencies={[...new Set(expenses.map(expense => expense.currency))]}
+        onBudgetSaved={onTripUpdated}
+      />
+
+      <AlertDialog open={!!expenseToDelete} onOpenChange={(open) => !open && setExpenseToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {expenseToDelete?.description}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This expense will be removed from the trip budget.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => expenseToDelete && deleteExpense(expenseToDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Expense
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
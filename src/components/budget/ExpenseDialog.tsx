@@ -0,0 +1,311 @@
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Receipt } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { DateField } from '../trips/DateField'
+import { SplitEditor } from './SplitEditor'
+import { ConflictMergeDialog } from '../sync/ConflictMergeDialog'
+import { useToast } from '../../hooks/use-toast'
+import { useCategories } from '../../hooks/use-categories'
+import { blink } from '../../blink/client'
+import { DatabaseService, type Expense, type Trip, type TripEntry } from '../../lib/database'
+import { ConflictError, type EditConflict } from '../../lib/repositories'
+import { COMMON_CURRENCIES, isCurrencyCode, normalizeCurrency } from '../../lib/currency'
+import { fromSplitDraft, toSplitDraft, validateSplit, type SplitDraft } from '../../lib/splits'
+import { formatDate, parseDateKey, toDateKey, todayKey } from '../../lib/dates'
+
+const expenseSchema = z.object({
+  description: z.string().min(1, 'Description is required'),
+  amount: z.string()
+    .refine(value => Number(value) > 0, 'Enter an amount above zero'),
+  currency: z.string()
+    .transform(normalizeCurrency)
+    .refine(isCurrencyCode, 'Use a 3-letter currency code'),
+  paidBy: z.string().min(1, 'Who paid?'),
+  date: z.date({
+    error: 'Date is required',
+  }),
+  category: z.string().min(1, 'Category is required'),
+  entryId: z.string().optional(),
+})
+
+type ExpenseFormInput = z.input<typeof expenseSchema>
+type ExpenseFormData = z.output<typeof expenseSchema>
+
+interface ExpenseDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  trip: Trip
+  entries: TripEntry[]
+  // Everyone already named on this trip's expenses, offered as payers and
+  // for splitting
+  companions: string[]
+  // When set, the dialog edits this expense instead of adding one
+  expense?: Expense | null
+  onExpenseSaved?: () => void
+}
+
+const NO_ENTRY = 'none'
+
+export function ExpenseDialog({
+  open,
+  onOpenChange,
+  trip,
+  entries,
+  companions,
+  expense,
+  onExpenseSaved
+}: ExpenseDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [conflict, setConflict] = useState<EditConflict | null>(null)
+  const [split, setSplit] = useState<SplitDraft>(toSplitDraft())
+  const [splitError, setSplitError] = useState<string>()
+  const categories = useCategories()
+  const { toast } = useToast()
+
+  const form = useForm<ExpenseFormInput, unknown, ExpenseFormData>({
+    resolver: zodResolver(expenseSchema),
+  })
+  const errors = form.formState.errors
+
+  useEffect(() => {
+    if (!open) return
+    form.reset({
+      description: expense?.description ?? '',
+      amount: expense ? String(expense.amount) : '',
+      currency: expense?.currency ?? trip.budget?.currency ?? 'USD',
+      paidBy: expense?.paidBy ?? companions[0] ?? '',
+      // New expenses default to today while the trip is on, else its first day
+      date: parseDateKey(expense?.date ?? (
+        todayKey() >= trip.startDate && todayKey() <= trip.endDate ? todayKey() : trip.startDate
+      )),
+      category: expense?.category ?? '',
+      entryId: expense?.entryId ?? '',
+    })
+    setSplit(toSplitDraft(expense?.split))
+    setSplitError(undefined)
+  }, [open, expense, trip, companions, form])
+
+  // Picking an entry fills in the blanks from it
+  const handleEntryChange = (entryId: string) => {
+    form.setValue('entryId', entryId === NO_ENTRY ? '' : entryId)
+    const entry = entries.find(candidate => candidate.id === entryId)
+    if (!entry) return
+    if (!form.getValues('category')) form.setValue('category', entry.category)
+    if (!form.getValues('description')) form.setValue('description', entry.title)
+    form.setValue('date', parseDateKey(entry.date))
+  }
+
+  const onSubmit = async (data: ExpenseFormData) => {
+    const expenseData = {
+      description: data.description.trim(),
+      amount: Math.round(Number(data.amount) * 100) / 100,
+      currency: data.currency,
+      paidBy: data.paidBy.trim(),
+      split: fromSplitDraft(split),
+      date: toDateKey(data.date),
+      category: data.category,
+      entryId: data.entryId || '',
+    }
+
+    const problem = expenseData.split && validateSplit(expenseData.split, expenseData.amount, expenseData.currency)
+    setSplitError(problem || undefined)
+    if (problem) return
+
+    try {
+      setLoading(true)
+      if (expense) {
+        const changes = Object.fromEntries(
+          Object.entries(expenseData).filter(([key, value]) =>
+            JSON.stringify(value) !== JSON.stringify(expense[key as keyof typeof expenseData] ?? (key === 'split' ? null : ''))
+          )
+        )
+        await DatabaseService.updateExpense(expense.id, changes, { ifUpdatedAt: expense.updatedAt ?? null })
+        toast({
+          title: 'Expense updated',
+          description: `${expenseData.description} has been updated.`,
+        })
+      } else {
+        const user = await blink.auth.me()
+        await DatabaseService.createExpense({ ...expenseData, tripId: trip.id, userId: user.id })
+        toast({
+          title: 'Expense added',
+          description: `${expenseData.description} has been added to the budget.`,
+        })
+      }
+
+      onOpenChange(false)
+      onExpenseSaved?.()
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        onOpenChange(false)
+        setConflict(error.conflict)
+        return
+      }
+      console.error('Failed to save expense:', error)
+      toast({
+        title: 'Error',
+        description: `Failed to ${expense ? 'update' : 'add'} expense. Please try again.`,
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const currencies = [...new Set([trip.budget?.currency ?? 'USD', ...COMMON_CURRENCIES])]
+  const currency = form.watch('currency')
+  const paidBy = form.watch('paidBy') ?? ''
+  if (currency && !currencies.includes(currency)) currencies.unshift(currency)
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5 text-primary" />
+              {expense ? 'Edit Expense' : 'Add Expense'}
+            </DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="expense-description">Description</Label>
+              <Input
+                id="expense-description"
+                placeholder="e.g., Dinner at Gonpachi"
+                {...form.register('description')}
+                className={errors.description ? 'border-destructive' : ''}
+              />
+              {errors.description && <p className="text-sm text-destructive">{errors.description.message}</p>}
+            </div>
+
+            <div className="grid grid-cols-[2fr_1fr] gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="expense-amount">Amount</Label>
+                <Input
+                  id="expense-amount"
+                  type="number"
+                  inputMode="decimal"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  {...form.register('amount')}
+                  className={errors.amount ? 'border-destructive' : ''}
+                />
+                {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-currency">Currency</Label>
+                <Select value={currency || ''} onValueChange={(value) => form.setValue('currency', value)}>
+                  <SelectTrigger id="expense-currency" className={errors.currency ? 'border-destructive' : ''}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    {currencies.map(code => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="expense-paidBy">Paid By</Label>
+                <Input
+                  id="expense-paidBy"
+                  placeholder="e.g., Alex"
+                  list="expense-payers"
+                  {...form.register('paidBy')}
+                  className={errors.paidBy ? 'border-destructive' : ''}
+                />
+                <datalist id="expense-payers">
+                  {companions.map(companion => <option key={companion} value={companion} />)}
+                </datalist>
+                {errors.paidBy && <p className="text-sm text-destructive">{errors.paidBy.message}</p>}
+              </div>
+              <DateField
+                label="Date"
+                value={form.watch('date')}
+                placeholder="Pick a date"
+                error={errors.date?.message}
+                onChange={(date) => form.setValue('date', date!)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="expense-category">Category</Label>
+                <Select
+                  value={form.watch('category') || ''}
+                  onValueChange={(value) => form.setValue('category', value)}
+                >
+                  <SelectTrigger id="expense-category" className={errors.category ? 'border-destructive' : ''}>
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {errors.category && <p className="text-sm text-destructive">{errors.category.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense-entry">Itinerary Entry (Optional)</Label>
+                <Select value={form.watch('entryId') || NO_ENTRY} onValueChange={handleEntryChange}>
+                  <SelectTrigger id="expense-entry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    <SelectItem value={NO_ENTRY}>None</SelectItem>
+                    {entries.map(entry => (
+                      <SelectItem key={entry.id} value={entry.id}>
+                        {formatDate(entry.date, 'short')} · {entry.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <SplitEditor
+              value={split}
+              companions={[...new Set([paidBy.trim(), ...companions].filter(Boolean))]}
+              amount={Number(form.watch('amount')) || 0}
+              currency={currency || 'USD'}
+              paidBy={paidBy.trim()}
+              error={splitError}
+              onChange={setSplit}
+            />
+
+            <div className="flex gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading} className="flex-1 bg-primary hover:bg-primary/90">
+                {loading ? 'Saving...' : expense ? 'Save Changes' : 'Add Expense'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConflictMergeDialog
+        conflict={conflict}
+        onOpenChange={(isOpen) => !isOpen && setConflict(null)}
+        onResolved={onExpenseSaved}
+      />
+    </>
+  )
+}
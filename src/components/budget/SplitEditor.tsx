@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { UserPlus } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Checkbox } from '../ui/checkbox'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
+import { SPLIT_METHODS, fromSplitDraft, getSplitAmounts, type SplitDraft } from '../../lib/splits'
+import { formatMoney } from '../../lib/currency'
+
+interface SplitEditorProps {
+  value: SplitDraft
+  // Everyone who could share the cost, payer included
+  companions: string[]
+  amount: number
+  currency: string
+  paidBy: string
+  error?: string
+  onChange: (value: SplitDraft) => void
+}
+
+const defaultPart = (method: SplitDraft['method']) => (method === 'exact' ? '' : '1')
+
+export function SplitEditor({ value, companions, amount, currency, paidBy, error, onChange }: SplitEditorProps) {
+  const [newPerson, setNewPerson] = useState('')
+  const people = [...new Set([...companions, ...Object.keys(value.parts)])]
+
+  const setMethod = (method: SplitDraft['method']) => {
+    // Starting a split includes everyone; switching keeps who was picked
+    const included = value.method === 'none' ? people : Object.keys(value.parts)
+    onChange({
+      method,
+      parts: method === 'none' ? {} : Object.fromEntries(included.map(person => [person, defaultPart(method)]))
+    })
+  }
+
+  const togglePerson = (person: string, included: boolean) => {
+    const parts = { ...value.parts }
+    if (included) {
+      parts[person] = defaultPart(value.method)
+    } else {
+      delete parts[person]
+    }
+    onChange({ ...value, parts })
+  }
+
+  const addPerson = () => {
+    const person = newPerson.trim()
+    if (!person) return
+    onChange({ ...value, parts: { ...value.parts, [person]: value.parts[person] ?? defaultPart(value.method) } })
+    setNewPerson('')
+  }
+
+  const split = fromSplitDraft(value)
+  const preview = split && amount > 0 && value.method !== 'exact'
+    ? getSplitAmounts({ amount, currency, paidBy, split })
+    : {}
+
+  return (
+    <div className="space-y-3">
+      <Label>Split</Label>
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={value.method}
+        onValueChange={(method: string) => method && setMethod(method as SplitDraft['method'])}
+        className="flex-wrap justify-start"
+      >
+        <ToggleGroupItem value="none">Not split</ToggleGroupItem>
+        {SPLIT_METHODS.map(method => (
+          <ToggleGroupItem key={method.value} value={method.value}>{method.label}</ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {value.method !== 'none' && (
+        <div className="space-y-2 rounded-lg border p-3">
+          {people.map(person => {
+            const included = person in value.parts
+            return (
+              <div key={person} className="flex items-center gap-3">
+                <Checkbox
+                  id={`split-${person}`}
+                  checked={included}
+                  onCheckedChange={(checked) => togglePerson(person, checked === true)}
+                />
+                <Label htmlFor={`split-${person}`} className="flex-1 font-normal">
+                  {person}
+                  {person === paidBy && <span className="ml-1 text-xs text-muted-foreground">(paid)</span>}
+                </Label>
+                {included && value.method !== 'equal' && (
+                  <Input
+                    type="number"
+                    min="0"
+                    step={value.method === 'shares' ? '1' : '0.01'}
+                    placeholder={value.method === 'shares' ? 'Shares' : '0.00'}
+                    aria-label={`${person} ${value.method === 'shares' ? 'shares' : 'amount'}`}
+                    value={value.parts[person]}
+                    onChange={(e) => onChange({ ...value, parts: { ...value.parts, [person]: e.target.value } })}
+                    className="h-8 w-24"
+                  />
+                )}
+                {included && person in preview && (
+                  <span className="w-24 text-right text-sm tabular-nums text-muted-foreground">
+                    {formatMoney(preview[person], currency)}
+                  </span>
+                )}
+              </div>
+            )
+          })}
+          <div className="flex items-center gap-2 pt-1">
+            <Input
+              placeholder="Add someone"
+              value={newPerson}
+              onChange={(e) => setNewPerson(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key !== 'Enter') return
+                e.preventDefault()
+                addPerson()
+              }}
+              className="h-8"
+            />
+            <Button type="button" variant="outline" size="sm" onClick={addPerson}>
+              <UserPlus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
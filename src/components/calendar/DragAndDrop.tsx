@@ -0,0 +1,104 @@
+import type { ComponentProps, ReactNode } from 'react'
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  pointerWithin,
+  rectIntersection,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type CollisionDetection,
+  type DragEndEvent,
+  type Translate
+} from '@dnd-kit/core'
+import type { TripEntry } from '../../lib/database'
+import type { EntryDropTarget } from '../../lib/reschedule'
+
+interface EntryDndContextProps {
+  children: ReactNode
+  // `delta` is how far the entry travelled, in pixels
+  onDrop: (entry: TripEntry, target: EntryDropTarget, delta: Translate) => void
+  onDraggingChange?: (dragging: boolean) => void
+}
+
+// The day under the pointer wins; keyboard drags have no pointer, so they
+// fall back to whichever day the entry overlaps
+const detectCollisions: CollisionDetection = (args) => {
+  const hits = pointerWithin(args)
+  return hits.length > 0 ? hits : rectIntersection(args)
+}
+
+export function EntryDndContext({ children, onDrop, onDraggingChange }: EntryDndContextProps) {
+  const sensors = useSensors(
+    // A few pixels of slack, so clicks on buttons and links inside still work
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const handleDragEnd = ({ active, over, delta }: DragEndEvent) => {
+    onDraggingChange?.(false)
+    const entry = active.data.current?.entry as TripEntry | undefined
+    const target = over?.data.current as EntryDropTarget | undefined
+    if (entry && target) onDrop(entry, target, delta)
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={detectCollisions}
+      onDragStart={() => onDraggingChange?.(true)}
+      onDragCancel={() => onDraggingChange?.(false)}
+      onDragEnd={handleDragEnd}
+    >
+      {children}
+    </DndContext>
+  )
+}
+
+interface DraggableEntryProps extends ComponentProps<'div'> {
+  entry: TripEntry
+  disabled?: boolean
+}
+
+export function DraggableEntry({ entry, disabled, className = '', style, children, ...props }: DraggableEntryProps) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: entry.id,
+    data: { entry },
+    disabled
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...props}
+      {...(disabled ? {} : { ...attributes, ...listeners })}
+      className={`${disabled ? '' : 'cursor-grab touch-none'} ${isDragging ? 'relative z-20 cursor-grabbing opacity-80 shadow-lg' : ''} ${className}`}
+      style={{
+        ...style,
+        ...(transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : {})
+      }}
+    >
+      {children}
+    </div>
+  )
+}
+
+interface DroppableDayProps extends ComponentProps<'div'> {
+  date: string
+  allDay?: boolean
+}
+
+export function DroppableDay({ date, allDay, className = '', children, ...props }: DroppableDayProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `${allDay ? 'all-day' : 'day'}:${date}`,
+    data: { date, allDay } satisfies EntryDropTarget
+  })
+
+  return (
+    <div ref={setNodeRef} {...props} className={`${className} ${isOver ? 'rounded-lg ring-2 ring-primary/40' : ''}`}>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '../ui/alert-dialog'
+import type { RescheduleRequest } from '../../hooks/use-reschedule'
+import { formatDateRange } from '../../lib/dates'
+import { describeMove } from '../../lib/reschedule'
+
+interface OutOfRangeMoveDialogProps {
+  request: RescheduleRequest | null
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+// Asks before an entry is dropped on a day outside its trip
+export function OutOfRangeMoveDialog({ request, onConfirm, onCancel }: OutOfRangeMoveDialogProps) {
+  const trip = request?.trip
+
+  return (
+    <AlertDialog open={!!request} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Move outside the trip?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {request && trip && (
+              <>
+                {trip.title} runs {formatDateRange(trip.startDate, trip.endDate)}. Moving {request.entry.title} to{' '}
+                {describeMove({ ...request.entry, ...request.move })} puts it outside those dates.
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep where it was</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Move anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
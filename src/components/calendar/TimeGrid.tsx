@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react'
+import { format, isSameDay } from 'date-fns'
+import { BedDouble } from 'lucide-react'
+import { DraggableEntry, DroppableDay, EntryDndContext } from './DragAndDrop'
+import { formatTime, toDateKey } from '../../lib/dates'
+import type { TripEntry } from '../../lib/database'
+import { isStay } from '../../lib/stays'
+import {
+  MINUTES_PER_DAY,
+  TRIP_COLORS,
+  getAllDayEntries,
+  getTimedEntries,
+  layoutTimeSlots,
+  toMinutes,
+  type CalendarEntry
+} from '../../lib/calendar'
+import {
+  fromMinutes,
+  moveToDate,
+  moveToTime,
+  resizeTo,
+  snapMinutes,
+  type EntryDropTarget,
+  type EntryMove
+} from '../../lib/reschedule'
+
+interface TimeGridProps {
+  days: Date[]
+  entries: CalendarEntry[]
+  selectedDate?: Date | null
+  onSelectDate?: (date: Date) => void
+  // Entries that can be dragged and resized; none when left out
+  canMove?: (entry: TripEntry) => boolean
+  onReschedule?: (entry: TripEntry, move: EntryMove) => void
+}
+
+interface Resize {
+  entry: CalendarEntry
+  pointerY: number
+  // Minutes since midnight, as the slot was when the drag began / is now
+  startEnd: number
+  end: number
+}
+
+// Height of one hour, in rem
+const HOUR_HEIGHT = 3
+// Hour the grid opens scrolled to
+const FIRST_VISIBLE_HOUR = 7
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+function minutesToRem(minutes: number) {
+  return (minutes / 60) * HOUR_HEIGHT
+}
+
+// Pixels per minute of the grid, for turning drags into times
+function pixelsPerMinute() {
+  const rem = parseFloat(getComputedStyle(document.documentElement).fontSize) || 16
+  return (HOUR_HEIGHT * rem) / 60
+}
+
+function currentMinutes() {
+  const now = new Date()
+  return now.getHours() * 60 + now.getMinutes()
+}
+
+// Week and day views: one column per day, entries placed by their times
+export function TimeGrid({ days, entries, selectedDate, onSelectDate, canMove, onReschedule }: TimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const [now, setNow] = useState(currentMinutes)
+  const [resize, setResize] = useState<Resize | null>(null)
+  const movable = (entry: TripEntry) => !!onReschedule && (canMove?.(entry) ?? true)
+  const columns = { gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(currentMinutes()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    const scroller = scrollRef.current
+    if (scroller) scroller.scrollTop = (scroller.scrollHeight / 24) * FIRST_VISIBLE_HOUR
+  }, [])
+
+  // Timed entries dropped on the grid keep their length at the new time;
+  // anything dropped on the all-day lane only changes day
+  const handleDrop = (entry: TripEntry, target: EntryDropTarget, delta: { y: number }) => {
+    if (!onReschedule) return
+    if (target.allDay || !entry.startTime) {
+      onReschedule(entry, moveToDate(entry, target.date))
+      return
+    }
+    const start = snapMinutes(toMinutes(entry.startTime) + delta.y / pixelsPerMinute())
+    onReschedule(entry, moveToTime(entry, target.date, start))
+  }
+
+  const startResize = (event: PointerEvent<HTMLDivElement>, entry: CalendarEntry, end: number) => {
+    // Keep the drag sensor on the slot from picking this up
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setResize({ entry, pointerY: event.clientY, startEnd: end, end })
+  }
+
+  const moveResize = (event: PointerEvent<HTMLDivElement>) => {
+    if (!resize) return
+    const end = snapMinutes(resize.startEnd + (event.clientY - resize.pointerY) / pixelsPerMinute())
+    if (end !== resize.end) setResize({ ...resize, end })
+  }
+
+  const endResize = () => {
+    if (!resize) return
+    setResize(null)
+    if (resize.end !== resize.startEnd) onReschedule?.(resize.entry, resizeTo(resize.entry, resize.end))
+  }
+
+  return (
+    <EntryDndContext onDrop={handleDrop}>
+      <div className="rounded-lg border">
+        {/* Day headings */}
+        <div className="grid border-b" style={columns}>
+          <div />
+          {days.map(day => {
+            const isToday = isSameDay(day, new Date())
+            const isSelected = !!selectedDate && isSameDay(day, selectedDate)
+            return (
+              <button
+                key={day.toISOString()}
+                onClick={() => onSelectDate?.(day)}
+                className={`border-l p-2 text-center transition-colors hover:bg-muted ${isSelected ? 'bg-muted' : ''}`}
+              >
+                <div className="text-xs text-muted-foreground">{format(day, 'EEE')}</div>
+                <div className={`text-lg font-semibold ${isToday ? 'text-primary' : ''}`}>{format(day, 'd')}</div>
+              </button>
+            )
+          })}
+        </div>
+
+        {/* All-day lane: stays and entries without a time */}
+        <div className="grid border-b" style={columns}>
+          <div className="p-2 text-right text-xs text-muted-foreground">All day</div>
+          {days.map(day => (
+            <DroppableDay key={day.toISOString()} date={toDateKey(day)} allDay className="min-h-[2.5rem] space-y-1 border-l p-1">
+              {getAllDayEntries(entries, toDateKey(day)).map(entry => (
+                <DraggableEntry
+                  key={entry.id}
+                  entry={entry}
+                  // Stays span several days, so they're moved from the trip instead
+                  disabled={isStay(entry) || !movable(entry)}
+                  title={`${entry.title} · ${entry.tripTitle}`}
+                  className={`flex items-center gap-1 truncate rounded px-1.5 py-0.5 text-xs ${TRIP_COLORS[entry.tripColor].chip}`}
+                >
+                  {isStay(entry) && <BedDouble className="h-3 w-3 shrink-0" />}
+                  <span className="truncate">{entry.title}</span>
+                </DraggableEntry>
+              ))}
+            </DroppableDay>
+          ))}
+        </div>
+
+        <div ref={scrollRef} className="max-h-[36rem] overflow-y-auto">
+          <div className="relative grid" style={{ ...columns, height: `${minutesToRem(MINUTES_PER_DAY)}rem` }}>
+            {/* Hour labels and lines */}
+            <div className="relative">
+              {HOURS.slice(1).map(hour => (
+                <span
+                  key={hour}
+                  className="absolute right-2 -translate-y-1/2 text-xs text-muted-foreground"
+                  style={{ top: `${hour * HOUR_HEIGHT}rem` }}
+                >
+                  {formatTime(`${hour}:00`)}
+                </span>
+              ))}
+            </div>
+            <div className="pointer-events-none absolute inset-y-0 left-16 right-0">
+              {HOURS.slice(1).map(hour => (
+                <div key={hour} className="absolute inset-x-0 border-t" style={{ top: `${hour * HOUR_HEIGHT}rem` }} />
+              ))}
+            </div>
+
+            {days.map(day => {
+              const slots = layoutTimeSlots(getTimedEntries(entries, toDateKey(day)))
+              return (
+                <DroppableDay key={day.toISOString()} date={toDateKey(day)} className="relative border-l">
+                  {slots.map(({ entry, start, end, column, columns: count }) => {
+                    const resizing = resize?.entry.id === entry.id
+                    const shownEnd = resizing ? resize.end : end
+                    return (
+                      <DraggableEntry
+                        key={entry.id}
+                        entry={entry}
+                        disabled={!movable(entry)}
+                        onClick={() => onSelectDate?.(day)}
+                        title={`${entry.title} · ${entry.tripTitle}`}
+                        className={`group absolute overflow-hidden rounded-md border border-card px-1.5 py-1 text-left text-xs ${TRIP_COLORS[entry.tripColor].chip}`}
+                        style={{
+                          top: `${minutesToRem(start)}rem`,
+                          height: `${minutesToRem(shownEnd - start)}rem`,
+                          left: `${(column / count) * 100}%`,
+                          width: `${100 / count}%`
+                        }}
+                      >
+                        <div className="truncate font-medium">{entry.title}</div>
+                        <div className="truncate opacity-80">
+                          {formatTime(entry.startTime!)}
+                          {resizing
+                            ? ` - ${formatTime(fromMinutes(shownEnd))}`
+                            : entry.endTime && ` - ${formatTime(entry.endTime)}`}
+                        </div>
+                        {movable(entry) && (
+                          <div
+                            className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize opacity-0 group-hover:opacity-100 group-hover:bg-black/10"
+                            onPointerDown={(event) => startResize(event, entry, end)}
+                            onPointerMove={moveResize}
+                            onPointerUp={endResize}
+                            onPointerCancel={() => setResize(null)}
+                            onClick={(event) => event.stopPropagation()}
+                            aria-label={`Change when ${entry.title} ends`}
+                          />
+                        )}
+                      </DraggableEntry>
+                    )
+                  })}
+
+                  {isSameDay(day, new Date()) && (
+                    <div
+                      className="pointer-events-none absolute inset-x-0 z-10 flex items-center"
+                      style={{ top: `${minutesToRem(now)}rem` }}
+                      aria-label="Current time"
+                    >
+                      <span className="-ml-1 h-2 w-2 rounded-full bg-red-500" />
+                      <span className="h-px flex-1 bg-red-500" />
+                    </div>
+                  )}
+                </DroppableDay>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </EntryDndContext>
+  )
+}
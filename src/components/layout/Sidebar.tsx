@@ -1,19 +1,26 @@
-import { useState } from 'react'
-import { Link, useLocation } from 'react-router-dom'
+import { useState, useEffect } from 'react'
+import { Link, matchPath, useLocation } from 'react-router-dom'
 import { 
   Plane, 
   LayoutDashboard, 
   Calendar, 
-  Package, 
   User, 
   Plus,
   LogOut,
-  MapPin
+  Cloud,
+  CloudOff,
+  HardDrive,
+  FlaskConical,
+  RefreshCw
 } from 'lucide-react'
 import { Button } from '../ui/button'
 import { Avatar, AvatarFallback } from '../ui/avatar'
 import { blink } from '../../blink/client'
 import { CreateTripDialog } from '../trips/CreateTripDialog'
+import { CollaboratorAvatars } from '../sharing/CollaboratorAvatars'
+import { DatabaseService, type TripMember } from '../../lib/database'
+import { subscribeMembersChanged } from '../../lib/sharing'
+import type { StorageBackendInfo, SyncStatus } from '../../lib/repositories'
 
 interface User {
   id: string
@@ -28,6 +35,40 @@ interface SidebarProps {
 export function Sidebar({ user }: SidebarProps) {
   const location = useLocation()
   const [showCreateTrip, setShowCreateTrip] = useState(false)
+  const [backend, setBackend] = useState<StorageBackendInfo | null>(null)
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null)
+  const [collaborators, setCollaborators] = useState<TripMember[]>([])
+  // The trip being looked at, if any, whose collaborators are shown
+  const tripId = (matchPath('/trip/:tripId', location.pathname) ??
+    matchPath('/packing/:tripId', location.pathname))?.params.tripId
+
+  useEffect(() => {
+    DatabaseService.getBackendInfo()
+      .then(setBackend)
+      .catch(error => console.error('Failed to load storage backend:', error))
+    return DatabaseService.subscribeSyncStatus(setSyncStatus)
+  }, [])
+
+  useEffect(() => {
+    if (!tripId) {
+      setCollaborators([])
+      return
+    }
+    let cancelled = false
+    const loadCollaborators = () => {
+      DatabaseService.getTripMembers(tripId)
+        .then(members => !cancelled && setCollaborators(members))
+        .catch(() => !cancelled && setCollaborators([]))
+    }
+    loadCollaborators()
+    const unsubscribe = subscribeMembersChanged(changedTripId => {
+      if (changedTripId === tripId) loadCollaborators()
+    })
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [tripId])
 
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
@@ -46,6 +87,13 @@ export function Sidebar({ user }: SidebarProps) {
     return email.charAt(0).toUpperCase()
   }
 
+  const backendIcons = {
+    blink: Cloud,
+    local: HardDrive,
+    memory: FlaskConical
+  }
+  const BackendIcon = backend ? backendIcons[backend.kind] : Cloud
+
   return (
     <>
       <div className="fixed inset-y-0 left-0 z-50 w-64 bg-card border-r border-border">
@@ -93,6 +141,55 @@ export function Sidebar({ user }: SidebarProps) {
             })}
           </nav>
 
+          {/* Trip Collaborators */}
+          {collaborators.length > 0 && (
+            <div className="mx-4 mb-3 flex items-center gap-3 px-3 py-2 rounded-lg bg-muted/50">
+              <CollaboratorAvatars members={collaborators} max={4} />
+              <span className="text-xs text-muted-foreground truncate">
+                Shared with {collaborators.length}
+              </span>
+            </div>
+          )}
+
+          {/* Storage Backend */}
+          {backend && (
+            <div
+              className={`mx-4 mb-3 flex items-center gap-2 px-3 py-2 rounded-lg text-xs ${
+                backend.kind === 'blink'
+                  ? 'text-muted-foreground bg-muted/50'
+                  : 'text-amber-800 bg-amber-100'
+              }`}
+              title={backend.reason}
+            >
+              <BackendIcon className="h-4 w-4 shrink-0" />
+              <span className="truncate">Storage: {backend.label}</span>
+            </div>
+          )}
+
+          {/* Pending Sync */}
+          {syncStatus && (syncStatus.pending > 0 || !syncStatus.online) && (
+            <button
+              type="button"
+              onClick={() => DatabaseService.syncNow()}
+              disabled={syncStatus.syncing || !syncStatus.online}
+              className="mx-4 mb-3 flex items-center gap-2 px-3 py-2 rounded-lg text-xs text-blue-800 bg-blue-100 hover:bg-blue-200 disabled:hover:bg-blue-100 transition-colors text-left"
+              title={syncStatus.lastError}
+            >
+              {syncStatus.online ? (
+                <RefreshCw className={`h-4 w-4 shrink-0 ${syncStatus.syncing ? 'animate-spin' : ''}`} />
+              ) : (
+                <CloudOff className="h-4 w-4 shrink-0" />
+              )}
+              <span className="truncate">
+                {!syncStatus.online
+                  ? `Offline${syncStatus.pending > 0 ? ` · ${syncStatus.pending} pending` : ''}`
+                  : syncStatus.syncing
+                    ? `Syncing ${syncStatus.pending} change${syncStatus.pending === 1 ? '' : 's'}...`
+                    : `${syncStatus.pending} change${syncStatus.pending === 1 ? '' : 's'} waiting to sync`}
+              </span>
+            </button>
+          )}
+
           {/* User Profile */}
           <div className="p-4 border-t border-border">
             <div className="flex items-center gap-3 mb-3">
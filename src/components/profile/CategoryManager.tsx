@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { Palette, Plus, Trash2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { CategoryBadge } from '../trips/CategoryBadge'
+import { useToast } from '../../hooks/use-toast'
+import { useCategories } from '../../hooks/use-categories'
+import { DatabaseService } from '../../lib/database'
+import {
+  CATEGORY_COLORS,
+  getCategory,
+  toCategoryValue,
+  type CategoryColor
+} from '../../lib/categories'
+
+interface CategoryManagerProps {
+  userId: string
+}
+
+export function CategoryManager({ userId }: CategoryManagerProps) {
+  const categories = useCategories()
+  const [label, setLabel] = useState('')
+  const [color, setColor] = useState<CategoryColor>('teal')
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const builtIn = categories.filter(category => !category.custom)
+  const custom = categories.filter(category => category.custom)
+
+  const handleAdd = async () => {
+    const value = toCategoryValue(label)
+    if (!value) return
+
+    // Aliases count too, so "Food" can't shadow Dining
+    if (getCategory(value).value !== value || categories.some(category => category.value === value)) {
+      toast({
+        title: 'Category exists',
+        description: `"${label.trim()}" is already a category.`,
+        variant: 'destructive',
+      })
+      return
+    }
+
+    try {
+      setSaving(true)
+      await DatabaseService.createCustomCategory({ userId, value, label: label.trim(), color })
+      setLabel('')
+    } catch (error) {
+      console.error('Failed to create category:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to create category. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await DatabaseService.deleteCustomCategory(id, userId)
+    } catch (error) {
+      console.error('Failed to delete category:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to delete category. Please try again.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Palette className="h-5 w-5" />
+          Entry Categories
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {builtIn.map(category => (
+            <CategoryBadge key={category.value} category={category.value} />
+          ))}
+        </div>
+
+        {custom.length > 0 && (
+          <div className="space-y-2">
+            <Label>Your categories</Label>
+            <div className="space-y-2">
+              {custom.map(category => (
+                <div key={category.value} className="flex items-center justify-between">
+                  <CategoryBadge category={category.value} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(category.id!)}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={`Delete ${category.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Entries using a deleted category keep its name but show up in grey.
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-end gap-3">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="category-label">New category</Label>
+            <Input
+              id="category-label"
+              placeholder="e.g. Wellness"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            />
+          </div>
+          <Select value={color} onValueChange={(value) => setColor(value as CategoryColor)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CATEGORY_COLORS) as CategoryColor[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  <span className="flex items-center gap-2 capitalize">
+                    <span className={`h-3 w-3 rounded-full border ${CATEGORY_COLORS[key]}`} />
+                    {key}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={saving || !toCategoryValue(label)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,41 @@
+import { useSyncExternalStore } from 'react'
+import { Route } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Label } from '../ui/label'
+import { Checkbox } from '../ui/checkbox'
+import { isGeocodingEnabled, setGeocodingEnabled, subscribeGeocodingSetting } from '../../lib/geocoding'
+
+// Opt-in for travel time checks, which need entries' places looked up on
+// OpenStreetMap
+export function PlaceLookupSetting() {
+  const enabled = useSyncExternalStore(subscribeGeocodingSetting, isGeocodingEnabled)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Travel Time Checks
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="place-lookup"
+            checked={enabled}
+            onCheckedChange={(checked) => setGeocodingEnabled(checked === true)}
+            className="mt-1"
+          />
+          <div className="space-y-1">
+            <Label htmlFor="place-lookup">Look up where entries are</Label>
+            <p className="text-sm text-muted-foreground">
+              Warns when there isn't enough time to get from one entry to the next. This sends the
+              addresses and locations of your entries to OpenStreetMap's Nominatim service, one at a
+              time. Places already looked up are remembered on this device.
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
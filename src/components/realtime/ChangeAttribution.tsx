@@ -0,0 +1,19 @@
+import { describeChange, type TripChange } from '../../lib/realtime'
+
+interface ChangeAttributionProps {
+  change: TripChange
+  className?: string
+}
+
+// "Sam changed this" pill shown on a record a collaborator just touched
+export function ChangeAttribution({ change, className = '' }: ChangeAttributionProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 whitespace-nowrap rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary animate-in fade-in ${className}`}
+      title={new Date(change.at).toLocaleTimeString()}
+    >
+      <span className="h-1.5 w-1.5 rounded-full bg-primary" />
+      {describeChange(change)} this
+    </span>
+  )
+}
@@ -0,0 +1,39 @@
+import { Avatar, AvatarFallback } from '../ui/avatar'
+import type { TripMember } from '../../lib/database'
+import { getMemberName, getRoleLabel } from '../../lib/sharing'
+import { getTravellerInitials } from '../../lib/travellers'
+
+interface CollaboratorAvatarsProps {
+  members: TripMember[]
+  // Avatars shown before the rest collapse into "+N"
+  max?: number
+  className?: string
+}
+
+export function CollaboratorAvatars({ members, max = 5, className = '' }: CollaboratorAvatarsProps) {
+  const shown = members.slice(0, max)
+  const hidden = members.length - shown.length
+
+  return (
+    <div
+      className={`flex -space-x-2 ${className}`}
+      title={members.map(member => `${getMemberName(member)} (${getRoleLabel(member.role)})`).join(', ')}
+    >
+      {shown.map(member => (
+        <Avatar key={member.id} className="h-7 w-7 text-[10px] border-2 border-card">
+          {/* Invites that haven't been picked up yet are drawn muted */}
+          <AvatarFallback
+            className={member.accountId ? 'bg-primary/10 text-primary font-medium' : 'bg-muted text-muted-foreground'}
+          >
+            {getTravellerInitials(getMemberName(member))}
+          </AvatarFallback>
+        </Avatar>
+      ))}
+      {hidden > 0 && (
+        <Avatar className="h-7 w-7 text-[10px] border-2 border-card">
+          <AvatarFallback className="bg-muted text-muted-foreground font-medium">+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  )
+}
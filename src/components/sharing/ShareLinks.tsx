@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react'
+import { endOfDay } from 'date-fns'
+import { Copy, Link2, Trash2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Checkbox } from '../ui/checkbox'
+import { Label } from '../ui/label'
+import { DateField } from '../trips/DateField'
+import { useToast } from '../../hooks/use-toast'
+import { DatabaseService, type ShareLink, type Trip } from '../../lib/database'
+import { formatTimestamp } from '../../lib/dates'
+import { getShareUrl, isShareLinkExpired } from '../../lib/share-links'
+
+interface ShareLinksProps {
+  trip: Trip
+}
+
+// Public read-only links, for people without an account. Owners only.
+export function ShareLinks({ trip }: ShareLinksProps) {
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [hidePrivate, setHidePrivate] = useState(true)
+  const [expiresOn, setExpiresOn] = useState<Date>()
+  const [creating, setCreating] = useState(false)
+  const { toast } = useToast()
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLinks(await DatabaseService.getShareLinks(trip.id))
+    } catch (error) {
+      console.error('Failed to load share links:', error)
+    }
+  }, [trip.id])
+
+  useEffect(() => {
+    loadLinks()
+  }, [loadLinks])
+
+  const expiryError = expiresOn && endOfDay(expiresOn) < new Date()
+    ? 'Pick a day that hasn\'t passed'
+    : undefined
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token))
+      toast({ title: 'Link copied', description: 'Anyone with this link can view the itinerary.' })
+    } catch {
+      toast({ title: 'Copy failed', description: getShareUrl(link.token), variant: 'destructive' })
+    }
+  }
+
+  const createLink = async () => {
+    if (expiryError) return
+    try {
+      setCreating(true)
+      const link = await DatabaseService.createShareLink(trip.id, {
+        hidePrivate,
+        expiresAt: expiresOn ? endOfDay(expiresOn).toISOString() : undefined
+      })
+      setLinks(prev => [link, ...prev])
+      setExpiresOn(undefined)
+      await copyLink(link)
+    } catch (error) {
+      console.error('Failed to create share link:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to create link. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const revokeLink = async (link: ShareLink) => {
+    try {
+      await DatabaseService.revokeShareLink(link.id)
+      setLinks(prev => prev.filter(l => l.id !== link.id))
+      toast({ title: 'Link turned off', description: 'It no longer opens the itinerary.' })
+    } catch (error) {
+      console.error('Failed to revoke share link:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to turn off link. Please try again.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <p className="text-sm font-medium">Public links</p>
+        <p className="text-xs text-muted-foreground">
+          Read-only itinerary for people without an account. No budget, packing or traveller details.
+        </p>
+      </div>
+
+      <DateField
+        label="Expires"
+        value={expiresOn}
+        placeholder="Never"
+        error={expiryError}
+        onChange={setExpiresOn}
+      />
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="share-hide-private"
+          checked={hidePrivate}
+          onCheckedChange={(checked) => setHidePrivate(checked === true)}
+        />
+        <Label htmlFor="share-hide-private" className="font-normal">
+          Hide notes and confirmation numbers
+        </Label>
+      </div>
+      <Button type="button" variant="outline" onClick={createLink} disabled={creating || !!expiryError} className="w-full">
+        <Link2 className="h-4 w-4 mr-2" />
+        {creating ? 'Creating...' : 'Create Link'}
+      </Button>
+
+      {links.map(link => {
+        const expired = isShareLinkExpired(link)
+        return (
+          <div key={link.id} className="flex items-center gap-2 rounded-lg border px-3 py-2">
+            <div className="min-w-0 flex-1">
+              <p className={`truncate font-mono text-xs ${expired ? 'text-muted-foreground line-through' : ''}`}>
+                {getShareUrl(link.token)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {link.expiresAt
+                  ? `${expired ? 'Expired' : 'Expires'} ${formatTimestamp(link.expiresAt, 'short')}`
+                  : 'No expiry'}
+                {Number(link.hidePrivate) > 0 && ' · Notes hidden'}
+              </p>
+            </div>
+            {!expired && (
+              <Button variant="ghost" size="sm" onClick={() => copyLink(link)} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => revokeLink(link)}
+              className="text-destructive hover:text-destructive"
+              aria-label="Turn off link"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useState } from 'react'
+import { LogOut, Share2, UserPlus, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { CollaboratorAvatars } from './CollaboratorAvatars'
+import { ShareLinks } from './ShareLinks'
+import { useToast } from '../../hooks/use-toast'
+import { blink } from '../../blink/client'
+import { DatabaseService, type Trip, type TripMember, type TripRole } from '../../lib/database'
+import { ConflictError } from '../../lib/repositories'
+import { PermissionError, TRIP_ROLES, getMemberName, getRoleLabel, isEmail, normalizeEmail } from '../../lib/sharing'
+
+interface ShareTripDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  trip: Trip
+  // The signed-in account's role; only owners can invite or change roles
+  role: TripRole
+  onLeft?: () => void
+}
+
+// Owners are the account that created the trip, so they can't be invited
+const INVITE_ROLES = TRIP_ROLES.filter(option => option.value !== 'owner')
+
+export function ShareTripDialog({ open, onOpenChange, trip, role, onLeft }: ShareTripDialogProps) {
+  const [members, setMembers] = useState<TripMember[]>([])
+  const [accountId, setAccountId] = useState('')
+  const [email, setEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<TripRole>('editor')
+  const [inviteError, setInviteError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+  const isOwner = role === 'owner'
+
+  const loadMembers = useCallback(async () => {
+    try {
+      const [user, tripMembers] = await Promise.all([
+        blink.auth.me(),
+        DatabaseService.getTripMembers(trip.id)
+      ])
+      setAccountId(user.id)
+      setMembers(tripMembers)
+    } catch (error) {
+      console.error('Failed to load trip members:', error)
+    }
+  }, [trip.id])
+
+  useEffect(() => {
+    if (!open) return
+    setEmail('')
+    setInviteError('')
+    loadMembers()
+  }, [open, loadMembers])
+
+  const showError = (error: unknown, action: string) => {
+    console.error(`Failed to ${action}:`, error)
+    toast({
+      title: 'Error',
+      description: error instanceof PermissionError
+        ? 'You no longer have permission to do that.'
+        : `Failed to ${action}. Please try again.`,
+      variant: 'destructive',
+    })
+  }
+
+  const invite = async () => {
+    const address = normalizeEmail(email)
+    if (!isEmail(address)) {
+      setInviteError('Enter a valid email address')
+      return
+    }
+    if (members.some(member => member.email === address)) {
+      setInviteError(`${address} already has access`)
+      return
+    }
+
+    try {
+      setSaving(true)
+      const member = await DatabaseService.inviteTripMember(trip.id, address, inviteRole)
+      setMembers(prev => [...prev, member])
+      setEmail('')
+      setInviteError('')
+      toast({
+        title: 'Invite sent',
+        description: `${address} can now open ${trip.title} as ${getRoleLabel(inviteRole).toLowerCase()}.`,
+      })
+    } catch (error) {
+      showError(error, 'invite')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const changeRole = async (member: TripMember, nextRole: TripRole) => {
+    try {
+      const updated = await DatabaseService.updateTripMemberRole(member.id, nextRole, {
+        ifUpdatedAt: member.updatedAt ?? null
+      })
+      setMembers(prev => prev.map(m => (m.id === updated.id ? updated : m)))
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        // Someone else changed this member meanwhile; show what they chose
+        loadMembers()
+        return
+      }
+      showError(error, 'change role')
+    }
+  }
+
+  const remove = async (member: TripMember) => {
+    const leaving = member.accountId === accountId
+    try {
+      await DatabaseService.removeTripMember(member.id)
+      setMembers(prev => prev.filter(m => m.id !== member.id))
+      if (leaving) {
+        onOpenChange(false)
+        onLeft?.()
+      }
+    } catch (error) {
+      showError(error, leaving ? 'leave trip' : 'remove member')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-primary" />
+            Share {trip.title}
+          </DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? 'Invite people by email. Editors can change the trip, viewers can only look.'
+              : `You have ${getRoleLabel(role).toLowerCase()} access to this trip.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <Label htmlFor="share-email">Invite</Label>
+            <div className="flex gap-2">
+              <Input
+                id="share-email"
+                type="email"
+                placeholder="friend@example.com"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value)
+                  setInviteError('')
+                }}
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter') return
+                  e.preventDefault()
+                  invite()
+                }}
+              />
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as TripRole)}>
+                <SelectTrigger className="w-32" aria-label="Invite as">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITE_ROLES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" onClick={invite} disabled={saving || !email.trim()}>
+                <UserPlus className="h-4 w-4" />
+              </Button>
+            </div>
+            {inviteError && <p className="text-sm text-destructive">{inviteError}</p>}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium">
+            {members.length === 0 ? 'Not shared with anyone yet' : `Shared with ${members.length}`}
+          </p>
+          {members.map(member => {
+            const isMe = member.accountId === accountId
+            return (
+              <div key={member.id} className="flex items-center gap-3">
+                <CollaboratorAvatars members={[member]} />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">
+                    {getMemberName(member)}
+                    {isMe && <span className="ml-1 text-muted-foreground">(you)</span>}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {member.accountId ? member.email : 'Invited, not opened yet'}
+                  </p>
+                </div>
+                {isOwner ? (
+                  <>
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => changeRole(member, value as TripRole)}
+                    >
+                      <SelectTrigger className="h-8 w-28" aria-label={`Role for ${getMemberName(member)}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITE_ROLES.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => remove(member)}
+                      aria-label={`Remove ${getMemberName(member)}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">{getRoleLabel(member.role)}</span>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {!isOwner && members.some(member => member.accountId === accountId) && (
+          <Button
+            variant="outline"
+            onClick={() => remove(members.find(member => member.accountId === accountId)!)}
+            className="text-destructive"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave Trip
+          </Button>
+        )}
+
+        {isOwner && open && <ShareLinks trip={trip} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react'
+import { GitMerge } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { useToast } from '../../hooks/use-toast'
+import { DatabaseService } from '../../lib/database'
+import { ConflictError, getConflictingFields, type EditConflict } from '../../lib/repositories'
+
+type Side = 'local' | 'remote'
+
+interface ConflictMergeDialogProps {
+  conflict: EditConflict | null
+  onOpenChange: (open: boolean) => void
+  onResolved?: () => void
+}
+
+const formatFieldName = (field: string) => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'object') {
+    return Object.entries(value)
+      .filter(([, nested]) => nested !== undefined && nested !== '')
+      .map(([key, nested]) => `${formatFieldName(key)}: ${nested}`)
+      .join(', ')
+  }
+  return String(value)
+}
+
+export function ConflictMergeDialog({ conflict, onOpenChange, onResolved }: ConflictMergeDialogProps) {
+  const [choices, setChoices] = useState<Record<string, Side>>({})
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fields = conflict ? getConflictingFields(conflict) : []
+
+  useEffect(() => {
+    if (!conflict) return
+    // Default to keeping this device's edits, which is what the user just typed
+    setChoices(Object.fromEntries(getConflictingFields(conflict).map(field => [field, 'local' as Side])))
+  }, [conflict])
+
+  if (!conflict) return null
+
+  const local = conflict.local as unknown as Record<string, unknown>
+  const remote = conflict.remote as unknown as Record<string, unknown>
+  const title = (local.title || local.itemName || 'This item') as string
+
+  const chooseAll = (side: Side) => {
+    setChoices(Object.fromEntries(fields.map(field => [field, side])))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const keepLocal = fields.filter(field => choices[field] !== 'remote')
+      await DatabaseService.resolveConflict(conflict, keepLocal)
+      toast({
+        title: 'Conflict resolved',
+        description: `${title} has been saved with your choices.`,
+      })
+      onOpenChange(false)
+      onResolved?.()
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error)
+      toast({
+        title: error instanceof ConflictError ? 'Changed again' : 'Error',
+        description: error instanceof ConflictError
+          ? 'This item was edited again in the meantime. Reload and try once more.'
+          : 'Failed to save the merged version. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderOption = (field: string, side: Side, value: unknown) => {
+    const selected = choices[field] === side
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+        className={`text-left text-sm p-3 rounded-lg border transition-colors break-words ${
+          selected
+            ? 'border-primary bg-primary/5 text-foreground'
+            : 'border-border text-muted-foreground hover:bg-muted'
+        }`}
+      >
+        {formatValue(value)}
+      </button>
+    )
+  }
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-primary" />
+            Resolve editing conflict
+          </DialogTitle>
+          <DialogDescription>
+            "{title}" was changed somewhere else while you were editing it. Pick the value to keep for each field.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Both versions ended up identical, so there is nothing to merge.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-[120px_1fr_1fr] gap-3 text-xs font-medium text-muted-foreground">
+              <span>Field</span>
+              <span>This device</span>
+              <span>Other version</span>
+            </div>
+            {fields.map(field => (
+              <div key={field} className="grid grid-cols-[120px_1fr_1fr] gap-3 items-start">
+                <span className="text-sm font-medium text-foreground pt-3">{formatFieldName(field)}</span>
+                {renderOption(field, 'local', local[field])}
+                {renderOption(field, 'remote', remote[field])}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={() => chooseAll('local')} disabled={fields.length === 0}>
+            Keep all mine
+          </Button>
+          <Button variant="outline" onClick={() => chooseAll('remote')} disabled={fields.length === 0}>
+            Keep all theirs
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex-1 bg-primary hover:bg-primary/90"
+          >
+            {saving ? 'Saving...' : 'Save merged version'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react'
+import { subscribeConflicts, type EditConflict } from '../../lib/repositories'
+import { ConflictMergeDialog } from './ConflictMergeDialog'
+
+// Surfaces conflicts found while replaying offline edits, one at a time
+export function PendingConflicts() {
+  const [conflicts, setConflicts] = useState<EditConflict[]>([])
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set())
+
+  useEffect(() => subscribeConflicts(setConflicts), [])
+
+  const current = conflicts.find(conflict => !dismissed.has(conflict.id)) ?? null
+
+  return (
+    <ConflictMergeDialog
+      conflict={current}
+      onOpenChange={(open) => {
+        // Closing without saving hides it until the next page load
+        if (!open && current) {
+          setDismissed(prev => new Set(prev).add(current.id))
+        }
+      }}
+    />
+  )
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '../ui/alert-dialog'
+import {
+  describeRejectedWrite,
+  dismissRejectedWrite,
+  subscribeRejectedWrites,
+  type RejectedWrite
+} from '../../lib/repositories'
+
+// Tells the user about offline edits the backend refused when they were
+// synced, so they don't just quietly disappear
+export function RejectedWrites() {
+  const [rejected, setRejected] = useState<RejectedWrite[]>([])
+
+  useEffect(() => subscribeRejectedWrites(setRejected), [])
+
+  const dismissAll = () => rejected.forEach(write => dismissRejectedWrite(write.id))
+
+  return (
+    <AlertDialog open={rejected.length > 0} onOpenChange={(open) => !open && dismissAll()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {rejected.length === 1 ? 'An offline change wasn\'t saved' : `${rejected.length} offline changes weren't saved`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            The server refused {rejected.length === 1 ? 'this change' : 'these changes'} when syncing,
+            so {rejected.length === 1 ? 'it has' : 'they have'} been undone on this device. Reload to see the
+            current version, and make {rejected.length === 1 ? 'it' : 'them'} again if you still need {rejected.length === 1 ? 'it' : 'them'}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="space-y-2 text-sm">
+          {rejected.map(write => (
+            <li key={write.id} className="rounded-lg border px-3 py-2">
+              <p className="font-medium text-foreground">{describeRejectedWrite(write)}</p>
+              <p className="text-muted-foreground">{write.reason}</p>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogAction>Got it</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,34 @@
+import { Avatar, AvatarFallback } from '../ui/avatar'
+import type { Traveller } from '../../lib/database'
+import { getTravellerInitials } from '../../lib/travellers'
+
+interface TravellerAvatarsProps {
+  travellers: Traveller[]
+  // Avatars shown before the rest collapse into "+N"
+  max?: number
+  size?: 'sm' | 'md'
+  className?: string
+}
+
+export function TravellerAvatars({ travellers, max = 4, size = 'sm', className = '' }: TravellerAvatarsProps) {
+  const shown = travellers.slice(0, max)
+  const hidden = travellers.length - shown.length
+  const avatarSize = size === 'sm' ? 'h-6 w-6 text-[10px]' : 'h-8 w-8 text-xs'
+
+  return (
+    <div className={`flex -space-x-2 ${className}`} title={travellers.map(traveller => traveller.name).join(', ')}>
+      {shown.map(traveller => (
+        <Avatar key={traveller.id} className={`${avatarSize} border-2 border-background`}>
+          <AvatarFallback className="bg-primary/10 text-primary font-medium">
+            {getTravellerInitials(traveller.name)}
+          </AvatarFallback>
+        </Avatar>
+      ))}
+      {hidden > 0 && (
+        <Avatar className={`${avatarSize} border-2 border-background`}>
+          <AvatarFallback className="bg-muted text-muted-foreground font-medium">+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import { Users } from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '../ui/dropdown-menu'
+import { TravellerAvatars } from './TravellerAvatars'
+import type { Traveller } from '../../lib/database'
+import { getAssignedTravellers } from '../../lib/travellers'
+
+interface TravellerPickerProps {
+  travellers: Traveller[]
+  // Assigned traveller ids; empty means everyone
+  value: string[]
+  onChange: (travellerIds: string[]) => void
+  // Shown when nobody in particular is picked
+  everyoneLabel?: string
+  size?: 'sm' | 'default'
+  disabled?: boolean
+}
+
+export function TravellerPicker({
+  travellers,
+  value,
+  onChange,
+  everyoneLabel = 'Everyone',
+  size = 'default',
+  disabled = false
+}: TravellerPickerProps) {
+  const assigned = getAssignedTravellers(travellers, { travellerIds: value })
+
+  const toggle = (travellerId: string, checked: boolean) => {
+    const ids = assigned.map(traveller => traveller.id)
+    const next = checked ? [...ids, travellerId] : ids.filter(id => id !== travellerId)
+    // Picking every traveller is the same as not picking anyone
+    onChange(next.length === travellers.length ? [] : next)
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" size={size} disabled={disabled} className="gap-2">
+          {assigned.length > 0 ? (
+            <TravellerAvatars travellers={assigned} max={3} />
+          ) : (
+            <>
+              <Users className="h-4 w-4" />
+              {everyoneLabel}
+            </>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Who is this for?</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={assigned.length === 0}
+          onCheckedChange={() => onChange([])}
+          onSelect={(event) => event.preventDefault()}
+        >
+          {everyoneLabel}
+        </DropdownMenuCheckboxItem>
+        {travellers.map(traveller => (
+          <DropdownMenuCheckboxItem
+            key={traveller.id}
+            checked={assigned.some(candidate => candidate.id === traveller.id)}
+            onCheckedChange={(checked) => toggle(traveller.id, checked)}
+            onSelect={(event) => event.preventDefault()}
+          >
+            {traveller.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
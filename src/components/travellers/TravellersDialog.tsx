@@ -0,0 +1,300 @@
+import { useEffect, useState } from 'react'
+import { useFieldArray, useForm, type Control, type UseFormRegister } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Plus, Users, X } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Checkbox } from '../ui/checkbox'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { DateField } from '../trips/DateField'
+import { ConflictMergeDialog } from '../sync/ConflictMergeDialog'
+import { useToast } from '../../hooks/use-toast'
+import { blink } from '../../blink/client'
+import { DatabaseService, type Traveller, type Trip } from '../../lib/database'
+import { ConflictError, type EditConflict } from '../../lib/repositories'
+import { parseDateKey, toDateKey } from '../../lib/dates'
+import { createTravellerId, validateTravellers } from '../../lib/travellers'
+
+const loyaltySchema = z.object({
+  program: z.string().trim().min(1, 'Program is required'),
+  number: z.string().trim().min(1, 'Number is required'),
+})
+
+const travellerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  accountId: z.string(),
+  nationality: z.string(),
+  dateOfBirth: z.date().optional(),
+  loyaltyNumbers: z.array(loyaltySchema),
+})
+
+const travellersSchema = z.object({
+  travellers: z.array(travellerSchema),
+}).superRefine((data, ctx) => {
+  const issues = validateTravellers(
+    data.travellers.map(traveller => ({
+      name: traveller.name,
+      accountId: traveller.accountId,
+      dateOfBirth: traveller.dateOfBirth ? toDateKey(traveller.dateOfBirth) : undefined,
+    }))
+  )
+  for (const [index, message] of Object.entries(issues)) {
+    ctx.addIssue({ code: 'custom', message, path: ['travellers', Number(index)] })
+  }
+})
+
+type TravellersFormData = z.infer<typeof travellersSchema>
+
+function toFormTraveller(traveller: Traveller): TravellersFormData['travellers'][number] {
+  return {
+    id: traveller.id,
+    name: traveller.name,
+    accountId: traveller.accountId ?? '',
+    nationality: traveller.nationality ?? '',
+    dateOfBirth: traveller.dateOfBirth ? parseDateKey(traveller.dateOfBirth) : undefined,
+    loyaltyNumbers: traveller.loyaltyNumbers ?? [],
+  }
+}
+
+interface LoyaltyFieldsProps {
+  control: Control<TravellersFormData>
+  register: UseFormRegister<TravellersFormData>
+  index: number
+}
+
+function LoyaltyFields({ control, register, index }: LoyaltyFieldsProps) {
+  const loyalty = useFieldArray({ control, name: `travellers.${index}.loyaltyNumbers` })
+
+  return (
+    <div className="space-y-2">
+      {loyalty.fields.map((field, loyaltyIndex) => (
+        <div key={field.id} className="flex items-center gap-2">
+          <Input
+            placeholder="Program, e.g. ANA Mileage Club"
+            {...register(`travellers.${index}.loyaltyNumbers.${loyaltyIndex}.program`)}
+          />
+          <Input
+            placeholder="Number"
+            {...register(`travellers.${index}.loyaltyNumbers.${loyaltyIndex}.number`)}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => loyalty.remove(loyaltyIndex)}
+            aria-label="Remove loyalty number"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => loyalty.append({ program: '', number: '' })}
+        className="text-muted-foreground"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Loyalty Number
+      </Button>
+    </div>
+  )
+}
+
+interface TravellersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  trip: Trip
+  onTravellersSaved?: (trip: Trip) => void
+}
+
+export function TravellersDialog({ open, onOpenChange, trip, onTravellersSaved }: TravellersDialogProps) {
+  const [saving, setSaving] = useState(false)
+  const [conflict, setConflict] = useState<EditConflict | null>(null)
+  const [myAccountId, setMyAccountId] = useState('')
+  const { toast } = useToast()
+
+  const form = useForm<TravellersFormData>({
+    resolver: zodResolver(travellersSchema),
+    defaultValues: { travellers: [] },
+  })
+  const travellers = useFieldArray({ control: form.control, name: 'travellers' })
+  const errors = form.formState.errors
+
+  useEffect(() => {
+    if (!open) return
+    form.reset({ travellers: (trip.travellers ?? []).map(toFormTraveller) })
+    blink.auth.me().then(user => setMyAccountId(user.id)).catch(() => setMyAccountId(''))
+  }, [open, trip, form])
+
+  const addTraveller = () => {
+    travellers.append({
+      id: createTravellerId(),
+      name: '',
+      accountId: '',
+      nationality: '',
+      dateOfBirth: undefined,
+      loyaltyNumbers: [],
+    })
+  }
+
+  // Only one traveller can be you, so claiming one releases any other
+  const setIsMe = (index: number, isMe: boolean) => {
+    form.getValues('travellers').forEach((traveller, otherIndex) => {
+      if (otherIndex !== index && isMe && traveller.accountId === myAccountId) {
+        form.setValue(`travellers.${otherIndex}.accountId`, '')
+      }
+    })
+    form.setValue(`travellers.${index}.accountId`, isMe ? myAccountId : '')
+  }
+
+  const onSubmit = async (data: TravellersFormData) => {
+    const tripTravellers: Traveller[] = data.travellers.map(traveller => ({
+      id: traveller.id,
+      name: traveller.name.trim(),
+      ...(traveller.accountId ? { accountId: traveller.accountId } : {}),
+      ...(traveller.nationality.trim() ? { nationality: traveller.nationality.trim() } : {}),
+      ...(traveller.dateOfBirth ? { dateOfBirth: toDateKey(traveller.dateOfBirth) } : {}),
+      ...(traveller.loyaltyNumbers.length > 0
+        ? { loyaltyNumbers: traveller.loyaltyNumbers.map(({ program, number }) => ({ program: program.trim(), number: number.trim() })) }
+        : {}),
+    }))
+
+    try {
+      setSaving(true)
+      const updated = await DatabaseService.updateTrip(
+        trip.id,
+        { travellers: tripTravellers },
+        { ifUpdatedAt: trip.updatedAt ?? null }
+      )
+      toast({
+        title: 'Travellers saved',
+        description: `${tripTravellers.length} ${tripTravellers.length === 1 ? 'traveller' : 'travellers'} on ${trip.title}.`,
+      })
+      onOpenChange(false)
+      onTravellersSaved?.(updated)
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        onOpenChange(false)
+        setConflict(error.conflict)
+        return
+      }
+      console.error('Failed to save travellers:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to save travellers. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              Travellers
+            </DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {travellers.fields.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Add everyone who's coming so entries and packing can be assigned to them.
+              </p>
+            )}
+
+            {travellers.fields.map((field, index) => {
+              const travellerError = errors.travellers?.[index]?.message
+              const loyaltyErrors = errors.travellers?.[index]?.loyaltyNumbers
+              const accountId = form.watch(`travellers.${index}.accountId`)
+              const isMe = !!accountId && accountId === myAccountId
+              return (
+                <div
+                  key={field.id}
+                  className={`rounded-lg border p-4 space-y-3 ${travellerError ? 'border-destructive' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Input placeholder="Name" {...form.register(`travellers.${index}.name`)} />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => travellers.remove(index)}
+                      aria-label={`Remove traveller ${index + 1}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`traveller-${field.id}-me`}
+                      checked={isMe}
+                      disabled={!myAccountId || (!!accountId && !isMe)}
+                      onCheckedChange={(checked) => setIsMe(index, checked === true)}
+                    />
+                    <Label htmlFor={`traveller-${field.id}-me`} className="font-normal">
+                      {accountId && !isMe ? 'Linked to another account' : 'This is me'}
+                    </Label>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor={`traveller-${field.id}-nationality`}>Passport Nationality</Label>
+                      <Input
+                        id={`traveller-${field.id}-nationality`}
+                        placeholder="e.g., Canadian"
+                        {...form.register(`travellers.${index}.nationality`)}
+                      />
+                    </div>
+                    <DateField
+                      label="Date of Birth"
+                      value={form.watch(`travellers.${index}.dateOfBirth`)}
+                      placeholder="Optional"
+                      onChange={(date) => form.setValue(`travellers.${index}.dateOfBirth`, date)}
+                    />
+                  </div>
+
+                  <LoyaltyFields control={form.control} register={form.register} index={index} />
+
+                  {travellerError && <p className="text-sm text-destructive">{travellerError}</p>}
+                  {loyaltyErrors && (
+                    <p className="text-sm text-destructive">Every loyalty number needs a program and a number</p>
+                  )}
+                </div>
+              )
+            })}
+
+            <Button type="button" variant="outline" onClick={addTraveller} className="w-full">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Traveller
+            </Button>
+
+            <div className="flex gap-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="flex-1 bg-primary hover:bg-primary/90">
+                {saving ? 'Saving...' : 'Save Travellers'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ConflictMergeDialog
+        conflict={conflict}
+        onOpenChange={(isOpen) => !isOpen && setConflict(null)}
+      />
+    </>
+  )
+}
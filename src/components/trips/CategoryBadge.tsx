@@ -0,0 +1,22 @@
+import { Badge } from '../ui/badge'
+import { useCategories } from '../../hooks/use-categories'
+import { CATEGORY_COLORS, getCategory } from '../../lib/categories'
+
+interface CategoryBadgeProps {
+  category: string
+  className?: string
+}
+
+export function CategoryBadge({ category, className = '' }: CategoryBadgeProps) {
+  // Subscribing keeps custom category labels and colours current
+  useCategories()
+  const definition = getCategory(category)
+  const Icon = definition.icon
+
+  return (
+    <Badge variant="outline" className={`gap-1 ${CATEGORY_COLORS[definition.color]} ${className}`}>
+      <Icon className="h-3 w-3" />
+      {definition.label}
+    </Badge>
+  )
+}
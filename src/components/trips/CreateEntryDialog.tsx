@@ -1,8 +1,8 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
-import { CalendarIcon, Clock, MapPin } from 'lucide-react'
+import { BedDouble, CalendarIcon, Clock, ListTodo, Plane, TrainFront } from 'lucide-react'
 import { format } from 'date-fns'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog'
 import { Button } from '../ui/button'
@@ -12,8 +12,20 @@ import { Label } from '../ui/label'
 import { Calendar } from '../ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
 import { useToast } from '../../hooks/use-toast'
+import { useCategories } from '../../hooks/use-categories'
 import { blink } from '../../blink/client'
+import { DatabaseService, type NewTripEntry, type Traveller, type TripEntry, type TripLeg } from '../../lib/database'
+import { ConflictError, type EditConflict } from '../../lib/repositories'
+import { ConflictMergeDialog } from '../sync/ConflictMergeDialog'
+import { TimeZoneSelect } from './TimeZoneSelect'
+import { FlightForm } from './FlightForm'
+import { StayForm } from './StayForm'
+import { TransportForm } from './TransportForm'
+import { TravellerPicker } from '../travellers/TravellerPicker'
+import { parseDateKey, toDateKey } from '../../lib/dates'
+import { formatLegPlace, sortLegs } from '../../lib/legs'
 
 const entrySchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -21,95 +33,145 @@ const entrySchema = z.object({
   location: z.string().optional(),
   address: z.string().optional(),
   date: z.date({
-    required_error: 'Date is required',
+    error: 'Date is required',
   }),
   startTime: z.string().optional(),
   endTime: z.string().optional(),
+  timeZone: z.string().min(1, 'Time zone is required'),
+  endTimeZone: z.string().optional(),
   category: z.string().min(1, 'Category is required'),
+  // Empty files the entry under whichever leg its date falls in
+  legId: z.string().optional(),
 })
 
 type EntryFormData = z.infer<typeof entrySchema>
 
+type EntryKind = 'general' | 'flight' | 'stay' | 'transport'
+
+const KIND_TITLES: Record<EntryKind, string> = {
+  general: 'Itinerary Entry',
+  flight: 'Flight',
+  stay: 'Stay',
+  transport: 'Transport',
+}
+
 interface CreateEntryDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   tripId: string
-  onEntryCreated?: () => void
+  // Zone new entries start in, normally the trip destination's
+  defaultTimeZone: string
+  // Stops of a multi-destination trip; entries are filed under one
+  legs?: TripLeg[]
+  // People on the trip, who entries can be assigned to
+  travellers?: Traveller[]
+  // When set, the dialog edits this entry instead of creating a new one
+  entry?: TripEntry | null
+  onEntrySaved?: () => void
 }
 
-const categories = [
-  { value: 'accommodation', label: 'Accommodation' },
-  { value: 'transportation', label: 'Transportation' },
-  { value: 'activity', label: 'Activity' },
-  { value: 'dining', label: 'Dining' },
-  { value: 'shopping', label: 'Shopping' },
-  { value: 'entertainment', label: 'Entertainment' },
-  { value: 'other', label: 'Other' },
-]
-
-export function CreateEntryDialog({ open, onOpenChange, tripId, onEntryCreated }: CreateEntryDialogProps) {
+const emptyValues = {
+  title: '',
+  description: '',
+  location: '',
+  address: '',
+  startTime: '',
+  endTime: '',
+  endTimeZone: '',
+  category: '',
+  legId: '',
+}
+
+export function CreateEntryDialog({
+  open,
+  onOpenChange,
+  tripId,
+  defaultTimeZone,
+  legs,
+  travellers,
+  entry,
+  onEntrySaved
+}: CreateEntryDialogProps) {
   const [loading, setLoading] = useState(false)
+  const [conflict, setConflict] = useState<EditConflict | null>(null)
+  const [kind, setKind] = useState<EntryKind>('general')
+  const [travellerIds, setTravellerIds] = useState<string[]>([])
+  const categories = useCategories()
   const { toast } = useToast()
 
   const form = useForm<EntryFormData>({
     resolver: zodResolver(entrySchema),
-    defaultValues: {
-      title: '',
-      description: '',
-      location: '',
-      address: '',
-      startTime: '',
-      endTime: '',
-      category: '',
-    },
+    defaultValues: emptyValues,
   })
 
-  const onSubmit = async (data: EntryFormData) => {
+  useEffect(() => {
+    if (!open) return
+    if (entry) {
+      form.reset({
+        title: entry.title,
+        description: entry.description || '',
+        location: entry.location || '',
+        address: entry.address || '',
+        date: parseDateKey(entry.date),
+        startTime: entry.startTime || '',
+        endTime: entry.endTime || '',
+        timeZone: entry.timeZone || defaultTimeZone,
+        endTimeZone: entry.endTimeZone || '',
+        category: entry.category,
+        legId: entry.legId || '',
+      })
+    } else {
+      form.reset({ ...emptyValues, timeZone: defaultTimeZone })
+    }
+    setKind(entry?.entryType ?? 'general')
+    setTravellerIds(entry?.travellerIds ?? [])
+  }, [open, entry, defaultTimeZone, form])
+
+  // Transport can end in a different zone than it starts in
+  const crossesZones = form.watch('category') === 'transportation'
+
+  // Shared by the general and flight forms
+  const saveEntry = async (formData: Omit<NewTripEntry, 'tripId' | 'userId'>) => {
+    const entryData = { ...formData, travellerIds }
     try {
       setLoading(true)
       const user = await blink.auth.me()
-      
-      const entryData = {
-        id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        tripId,
-        userId: user.id,
-        title: data.title,
-        description: data.description || '',
-        location: data.location || '',
-        address: data.address || '',
-        date: data.date.toISOString().split('T')[0], // Format as YYYY-MM-DD
-        startTime: data.startTime || '',
-        endTime: data.endTime || '',
-        category: data.category,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }
 
-      try {
-        // Try to save to database
-        await blink.db.tripEntries.create(entryData)
-        
+      if (entry) {
+        // Send only what the user touched, so a conflict shows just those fields
+        const changes = Object.fromEntries(
+          Object.entries(entryData).filter(([key, value]) =>
+            JSON.stringify(value) !== JSON.stringify(entry[key as keyof typeof entryData] ?? (key === 'travellerIds' ? [] : ''))
+          )
+        )
+        await DatabaseService.updateTripEntry(entry.id, changes, { ifUpdatedAt: entry.updatedAt ?? null })
+
         toast({
-          title: 'Entry added successfully!',
-          description: `${data.title} has been added to your itinerary.`,
+          title: 'Entry updated',
+          description: `${entryData.title} has been updated.`,
         })
-      } catch (dbError) {
-        console.log('Database not available, entry created locally:', dbError)
-        
+      } else {
+        await DatabaseService.createTripEntry({ ...entryData, tripId, userId: user.id })
+
         toast({
-          title: 'Entry added!',
-          description: `${data.title} has been added (database not available).`,
+          title: 'Entry added successfully!',
+          description: `${entryData.title} has been added to your itinerary.`,
         })
       }
 
-      form.reset()
+      form.reset({ ...emptyValues, timeZone: defaultTimeZone })
       onOpenChange(false)
-      onEntryCreated?.()
+      onEntrySaved?.()
     } catch (error) {
-      console.error('Failed to create entry:', error)
+      if (error instanceof ConflictError) {
+        onOpenChange(false)
+        setConflict(error.conflict)
+        return
+      }
+      console.error('Failed to save entry:', error)
       toast({
         title: 'Error',
-        description: 'Failed to create entry. Please try again.',
+        description: `Failed to ${entry ? 'update' : 'create'} entry. Please try again.`,
         variant: 'destructive',
       })
     } finally {
@@ -117,150 +179,297 @@ export function CreateEntryDialog({ open, onOpenChange, tripId, onEntryCreated }
     }
   }
 
+  const onSubmit = (data: EntryFormData) => saveEntry({
+    title: data.title,
+    description: data.description || '',
+    location: data.location || '',
+    address: data.address || '',
+    date: toDateKey(data.date),
+    startTime: data.startTime || '',
+    endTime: data.endTime || '',
+    timeZone: data.timeZone,
+    // Only kept when the entry really ends in another zone
+    endTimeZone: crossesZones && data.endTimeZone !== data.timeZone ? data.endTimeZone || '' : '',
+    category: data.category,
+    legId: data.legId || '',
+  })
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <Clock className="h-5 w-5 text-primary" />
-            Add Itinerary Entry
-          </DialogTitle>
-        </DialogHeader>
-
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          <div className="space-y-2">
-            <Label htmlFor="title">Title</Label>
-            <Input
-              id="title"
-              placeholder="e.g., Visit Eiffel Tower"
-              {...form.register('title')}
-              className={form.formState.errors.title ? 'border-destructive' : ''}
-            />
-            {form.formState.errors.title && (
-              <p className="text-sm text-destructive">{form.formState.errors.title.message}</p>
-            )}
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Date</Label>
-              <Popover>
-                <PopoverTrigger asChild>
-                  <Button
-                    variant="outline"
-                    className={`w-full justify-start text-left font-normal ${
-                      !form.watch('date') ? 'text-muted-foreground' : ''
-                    } ${form.formState.errors.date ? 'border-destructive' : ''}`}
-                  >
-                    <CalendarIcon className="mr-2 h-4 w-4" />
-                    {form.watch('date') ? (
-                      format(form.watch('date'), 'PPP')
-                    ) : (
-                      <span>Pick a date</span>
-                    )}
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <Calendar
-                    mode="single"
-                    selected={form.watch('date')}
-                    onSelect={(date) => form.setValue('date', date!)}
-                    initialFocus
-                  />
-                </PopoverContent>
-              </Popover>
-              {form.formState.errors.date && (
-                <p className="text-sm text-destructive">{form.formState.errors.date.message}</p>
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {kind === 'flight' ? (
+                <Plane className="h-5 w-5 text-primary" />
+              ) : kind === 'stay' ? (
+                <BedDouble className="h-5 w-5 text-primary" />
+              ) : kind === 'transport' ? (
+                <TrainFront className="h-5 w-5 text-primary" />
+              ) : (
+                <Clock className="h-5 w-5 text-primary" />
               )}
-            </div>
+              {`${entry ? 'Edit' : 'Add'} ${KIND_TITLES[kind]}`}
+            </DialogTitle>
+          </DialogHeader>
 
-            <div className="space-y-2">
-              <Label htmlFor="category">Category</Label>
-              <Select onValueChange={(value) => form.setValue('category', value)}>
-                <SelectTrigger className={form.formState.errors.category ? 'border-destructive' : ''}>
-                  <SelectValue placeholder="Select category" />
-                </SelectTrigger>
-                <SelectContent>
-                  {categories.map((category) => (
-                    <SelectItem key={category.value} value={category.value}>
-                      {category.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              {form.formState.errors.category && (
-                <p className="text-sm text-destructive">{form.formState.errors.category.message}</p>
-              )}
-            </div>
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="startTime">Start Time (Optional)</Label>
-              <Input
-                id="startTime"
-                type="time"
-                {...form.register('startTime')}
-              />
-            </div>
+          {/* The kind of an existing entry is fixed */}
+          {!entry && (
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={kind}
+              onValueChange={(value: string) => value && setKind(value as EntryKind)}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="general" className="gap-2">
+                <ListTodo className="h-4 w-4" />
+                General
+              </ToggleGroupItem>
+              <ToggleGroupItem value="flight" className="gap-2">
+                <Plane className="h-4 w-4" />
+                Flight
+              </ToggleGroupItem>
+              <ToggleGroupItem value="stay" className="gap-2">
+                <BedDouble className="h-4 w-4" />
+                Stay
+              </ToggleGroupItem>
+              <ToggleGroupItem value="transport" className="gap-2">
+                <TrainFront className="h-4 w-4" />
+                Transport
+              </ToggleGroupItem>
+            </ToggleGroup>
+          )}
 
-            <div className="space-y-2">
-              <Label htmlFor="endTime">End Time (Optional)</Label>
-              <Input
-                id="endTime"
-                type="time"
-                {...form.register('endTime')}
+          {!!travellers?.length && (
+            <div className="flex items-center gap-3">
+              <Label>For</Label>
+              <TravellerPicker
+                travellers={travellers}
+                value={travellerIds}
+                onChange={setTravellerIds}
+                everyoneLabel="Whole group"
               />
             </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="location">Location (Optional)</Label>
-            <Input
-              id="location"
-              placeholder="e.g., Eiffel Tower"
-              {...form.register('location')}
+          )}
+
+          {kind === 'flight' ? (
+            <FlightForm
+              entry={entry}
+              defaultTimeZone={defaultTimeZone}
+              saving={loading}
+              onSubmit={saveEntry}
+              onCancel={() => onOpenChange(false)}
             />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="address">Address (Optional)</Label>
-            <Input
-              id="address"
-              placeholder="e.g., Champ de Mars, 5 Avenue Anatole France, 75007 Paris, France"
-              {...form.register('address')}
+          ) : kind === 'stay' ? (
+            <StayForm
+              entry={entry}
+              defaultTimeZone={defaultTimeZone}
+              saving={loading}
+              onSubmit={saveEntry}
+              onCancel={() => onOpenChange(false)}
             />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description">Description (Optional)</Label>
-            <Textarea
-              id="description"
-              placeholder="Add any notes or details about this entry..."
-              rows={3}
-              {...form.register('description')}
+          ) : kind === 'transport' ? (
+            <TransportForm
+              entry={entry}
+              defaultTimeZone={defaultTimeZone}
+              saving={loading}
+              onSubmit={saveEntry}
+              onCancel={() => onOpenChange(false)}
             />
-          </div>
+          ) : (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="title">Title</Label>
+                <Input
+                  id="title"
+                  placeholder="e.g., Visit Eiffel Tower"
+                  {...form.register('title')}
+                  className={form.formState.errors.title ? 'border-destructive' : ''}
+                />
+                {form.formState.errors.title && (
+                  <p className="text-sm text-destructive">{form.formState.errors.title.message}</p>
+                )}
+              </div>
 
-          <div className="flex gap-3 pt-4">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => onOpenChange(false)}
-              className="flex-1"
-            >
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              disabled={loading}
-              className="flex-1 bg-primary hover:bg-primary/90"
-            >
-              {loading ? 'Adding...' : 'Add Entry'}
-            </Button>
-          </div>
-        </form>
-      </DialogContent>
-    </Dialog>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={`w-full justify-start text-left font-normal ${
+                          !form.watch('date') ? 'text-muted-foreground' : ''
+                        } ${form.formState.errors.date ? 'border-destructive' : ''}`}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {form.watch('date') ? (
+                          format(form.watch('date'), 'PPP')
+                        ) : (
+                          <span>Pick a date</span>
+                        )}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={form.watch('date')}
+                        onSelect={(date) => form.setValue('date', date!)}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  {form.formState.errors.date && (
+                    <p className="text-sm text-destructive">{form.formState.errors.date.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="category">Category</Label>
+                  <Select
+                    value={form.watch('category')}
+                    onValueChange={(value) => form.setValue('category', value)}
+                  >
+                    <SelectTrigger className={form.formState.errors.category ? 'border-destructive' : ''}>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map((category) => (
+                        <SelectItem key={category.value} value={category.value}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {form.formState.errors.category && (
+                    <p className="text-sm text-destructive">{form.formState.errors.category.message}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="startTime">Start Time (Optional)</Label>
+                  <Input
+                    id="startTime"
+                    type="time"
+                    {...form.register('startTime')}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="endTime">End Time (Optional)</Label>
+                  <Input
+                    id="endTime"
+                    type="time"
+                    {...form.register('endTime')}
+                  />
+                </div>
+              </div>
+
+              <div className={`grid gap-4 ${crossesZones ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                <div className="space-y-2">
+                  <Label htmlFor="timeZone">{crossesZones ? 'Departure Time Zone' : 'Time Zone'}</Label>
+                  <TimeZoneSelect
+                    id="timeZone"
+                    value={form.watch('timeZone') || ''}
+                    onChange={(zone) => form.setValue('timeZone', zone)}
+                  />
+                  {form.formState.errors.timeZone && (
+                    <p className="text-sm text-destructive">{form.formState.errors.timeZone.message}</p>
+                  )}
+                </div>
+
+                {crossesZones && (
+                  <div className="space-y-2">
+                    <Label htmlFor="endTimeZone">Arrival Time Zone</Label>
+                    <TimeZoneSelect
+                      id="endTimeZone"
+                      value={form.watch('endTimeZone') || form.watch('timeZone') || ''}
+                      onChange={(zone) => form.setValue('endTimeZone', zone)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {legs && legs.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="legId">Stop</Label>
+                  <Select
+                    value={form.watch('legId') || 'auto'}
+                    onValueChange={(value) => form.setValue('legId', value === 'auto' ? '' : value)}
+                  >
+                    <SelectTrigger id="legId">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">By date</SelectItem>
+                      {sortLegs(legs).map((leg) => (
+                        <SelectItem key={leg.id} value={leg.id}>
+                          {formatLegPlace(leg)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="location">Location (Optional)</Label>
+                <Input
+                  id="location"
+                  placeholder="e.g., Eiffel Tower"
+                  {...form.register('location')}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="address">Address (Optional)</Label>
+                <Input
+                  id="address"
+                  placeholder="e.g., Champ de Mars, 5 Avenue Anatole France, 75007 Paris, France"
+                  {...form.register('address')}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description (Optional)</Label>
+                <Textarea
+                  id="description"
+                  placeholder="Add any notes or details about this entry..."
+                  rows={3}
+                  {...form.register('description')}
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={loading}
+                  className="flex-1 bg-primary hover:bg-primary/90"
+                >
+                  {loading ? 'Saving...' : entry ? 'Save Changes' : 'Add Entry'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConflictMergeDialog
+        conflict={conflict}
+        onOpenChange={(isOpen) => !isOpen && setConflict(null)}
+        onResolved={onEntrySaved}
+      />
+    </>
   )
 }
\ No newline at end of file
@@ -1,8 +1,8 @@
 import { useState } from 'react'
-import { useForm } from 'react-hook-form'
+import { useFieldArray, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
-import { CalendarIcon, MapPin } from 'lucide-react'
+import { CalendarIcon, MapPin, Plus, X } from 'lucide-react'
 import { format } from 'date-fns'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog'
 import { Button } from '../ui/button'
@@ -13,20 +13,52 @@ import { Calendar } from '../ui/calendar'
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover'
 import { useToast } from '../../hooks/use-toast'
 import { blink } from '../../blink/client'
+import { DatabaseService } from '../../lib/database'
+import { toDateKey } from '../../lib/dates'
+import { createLegId, sortLegs, validateLegs } from '../../lib/legs'
+import { guessTimeZone } from '../../lib/time-zones'
+import { TimeZoneSelect } from './TimeZoneSelect'
+import { DateField } from './DateField'
+
+const legSchema = z.object({
+  city: z.string(),
+  country: z.string().optional(),
+  arrivalDate: z.date().optional(),
+  departureDate: z.date().optional(),
+})
 
 const tripSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional(),
-  destination: z.string().min(1, 'Destination is required'),
+  destination: z.string().optional(),
+  // Left empty until the user overrides the zone guessed from the destination
+  timeZone: z.string().optional(),
   startDate: z.date({
-    required_error: 'Start date is required',
+    error: 'Start date is required',
   }),
   endDate: z.date({
-    required_error: 'End date is required',
+    error: 'End date is required',
   }),
+  legs: z.array(legSchema),
 }).refine((data) => data.endDate >= data.startDate, {
   message: 'End date must be after start date',
   path: ['endDate'],
+}).refine((data) => data.legs.length > 0 || !!data.destination?.trim(), {
+  message: 'Destination is required',
+  path: ['destination'],
+}).superRefine((data, ctx) => {
+  const issues = validateLegs(
+    data.legs.map(leg => ({
+      city: leg.city,
+      arrivalDate: leg.arrivalDate ? toDateKey(leg.arrivalDate) : '',
+      departureDate: leg.departureDate ? toDateKey(leg.departureDate) : '',
+    })),
+    toDateKey(data.startDate),
+    toDateKey(data.endDate)
+  )
+  for (const [index, message] of Object.entries(issues)) {
+    ctx.addIssue({ code: 'custom', message, path: ['legs', Number(index)] })
+  }
 })
 
 type TripFormData = z.infer<typeof tripSchema>
@@ -47,44 +79,54 @@ export function CreateTripDialog({ open, onOpenChange, onTripCreated }: CreateTr
       title: '',
       description: '',
       destination: '',
+      legs: [],
     },
   })
+  const legs = useFieldArray({ control: form.control, name: 'legs' })
+
+  const addLeg = () => {
+    const current = form.getValues('legs')
+    const previous = current[current.length - 1]
+    legs.append({
+      city: '',
+      country: '',
+      arrivalDate: previous?.departureDate ?? form.getValues('startDate'),
+      departureDate: undefined,
+    })
+  }
 
   const onSubmit = async (data: TripFormData) => {
     try {
       setLoading(true)
       const user = await blink.auth.me()
       
-      const tripData = {
-        id: `trip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const tripLegs = sortLegs(data.legs.map(leg => ({
+        id: createLegId(),
+        city: leg.city.trim(),
+        country: leg.country?.trim() || undefined,
+        arrivalDate: toDateKey(leg.arrivalDate!),
+        departureDate: toDateKey(leg.departureDate!),
+      })))
+      const destination = data.destination?.trim() || tripLegs.map(leg => leg.city).join(' → ')
+
+      await DatabaseService.createTrip({
         userId: user.id,
         title: data.title,
         description: data.description || '',
-        destination: data.destination,
-        startDate: data.startDate.toISOString().split('T')[0], // Format as YYYY-MM-DD
-        endDate: data.endDate.toISOString().split('T')[0], // Format as YYYY-MM-DD
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }
-
-      try {
-        // Try to save to database
-        await blink.db.trips.create(tripData)
-        
-        toast({
-          title: 'Trip created successfully!',
-          description: `Your trip to ${data.destination} has been created.`,
-        })
-      } catch (dbError) {
-        console.log('Database not available, trip created locally:', dbError)
-        
-        toast({
-          title: 'Trip created!',
-          description: `Your trip to ${data.destination} has been created (database not available).`,
-        })
-      }
+        destination,
+        startDate: toDateKey(data.startDate),
+        endDate: toDateKey(data.endDate),
+        timeZone: data.timeZone || guessTimeZone(destination),
+        ...(tripLegs.length > 0 ? { legs: tripLegs } : {}),
+      })
+
+      toast({
+        title: 'Trip created successfully!',
+        description: `Your trip to ${destination} has been created.`,
+      })
 
       form.reset()
+      legs.replace([])
       onOpenChange(false)
       onTripCreated?.()
     } catch (error) {
@@ -101,7 +143,7 @@ export function CreateTripDialog({ open, onOpenChange, onTripCreated }: CreateTr
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <MapPin className="h-5 w-5 text-primary" />
@@ -124,10 +166,12 @@ export function CreateTripDialog({ open, onOpenChange, onTripCreated }: CreateTr
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="destination">Destination</Label>
+            <Label htmlFor="destination">
+              Destination{legs.fields.length > 0 && ' (Optional)'}
+            </Label>
             <Input
               id="destination"
-              placeholder="e.g., Tokyo, Japan"
+              placeholder={legs.fields.length > 0 ? 'Defaults to the route below' : 'e.g., Tokyo, Japan'}
               {...form.register('destination')}
               className={form.formState.errors.destination ? 'border-destructive' : ''}
             />
@@ -136,6 +180,20 @@ export function CreateTripDialog({ open, onOpenChange, onTripCreated }: CreateTr
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="timeZone">Destination Time Zone</Label>
+            <TimeZoneSelect
+              id="timeZone"
+              value={form.watch('timeZone') || guessTimeZone(
+                form.watch('destination') || form.watch('legs').map(leg => leg.city).join(' → ')
+              )}
+              onChange={(zone) => form.setValue('timeZone', zone)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Entry times are entered in this zone unless you pick another one.
+            </p>
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label>Start Date</Label>
@@ -207,6 +265,61 @@ export function CreateTripDialog({ open, onOpenChange, onTripCreated }: CreateTr
             </div>
           </div>
 
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Route (Optional)</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addLeg}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Stop
+              </Button>
+            </div>
+            {legs.fields.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Visiting more than one place? Add each stop with its dates.
+              </p>
+            ) : (
+              legs.fields.map((field, index) => {
+                const legError = form.formState.errors.legs?.[index]?.message
+                return (
+                  <div
+                    key={field.id}
+                    className={`rounded-lg border p-3 space-y-3 ${legError ? 'border-destructive' : ''}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="w-5 text-sm font-medium text-muted-foreground">{index + 1}.</span>
+                      <Input placeholder="City" {...form.register(`legs.${index}.city`)} />
+                      <Input placeholder="Country (optional)" {...form.register(`legs.${index}.country`)} />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => legs.remove(index)}
+                        aria-label={`Remove stop ${index + 1}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3 pl-7">
+                      <DateField
+                        label="Arrive"
+                        value={form.watch(`legs.${index}.arrivalDate`)}
+                        placeholder="Pick a date"
+                        onChange={(date) => form.setValue(`legs.${index}.arrivalDate`, date)}
+                      />
+                      <DateField
+                        label="Leave"
+                        value={form.watch(`legs.${index}.departureDate`)}
+                        placeholder="Pick a date"
+                        onChange={(date) => form.setValue(`legs.${index}.departureDate`, date)}
+                      />
+                    </div>
+                    {legError && <p className="pl-7 text-sm text-destructive">{legError}</p>}
+                  </div>
+                )
+              })
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="description">Description (Optional)</Label>
             <Textarea
@@ -0,0 +1,45 @@
+import { CalendarIcon } from 'lucide-react'
+import { format } from 'date-fns'
+import { Button } from '../ui/button'
+import { Label } from '../ui/label'
+import { Calendar } from '../ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover'
+
+interface DateFieldProps {
+  label: string
+  value?: Date
+  placeholder: string
+  error?: string
+  onChange: (date: Date | undefined) => void
+}
+
+export function DateField({ label, value, placeholder, error, onChange }: DateFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            className={`w-full justify-start text-left font-normal ${
+              !value ? 'text-muted-foreground' : ''
+            } ${error ? 'border-destructive' : ''}`}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, 'PPP') : <span>{placeholder}</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={onChange}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { Clock } from 'lucide-react'
+import { describeEntryTime, type ZonedEntryTime } from '../../lib/dates'
+
+interface EntryTimeProps {
+  entry: ZonedEntryTime
+  // Zone to assume for entries saved before they carried one
+  fallbackTimeZone?: string
+  className?: string
+}
+
+export function EntryTime({ entry, fallbackTimeZone, className = '' }: EntryTimeProps) {
+  const display = describeEntryTime({ ...entry, timeZone: entry.timeZone || fallbackTimeZone })
+  if (!display) return null
+
+  return (
+    <div className={`flex items-start gap-2 text-sm text-muted-foreground ${className}`}>
+      <Clock className="h-4 w-4 mt-0.5" />
+      <div>
+        <span>{display.local}</span>
+        {display.home && (
+          <span className="block text-xs">{display.home} your time</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,286 @@
+import { useEffect, useRef, useState } from 'react'
+import { MapPin, Sparkles, Wand2, WifiOff } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Button } from '../ui/button'
+import { Card, CardContent } from '../ui/card'
+import { Checkbox } from '../ui/checkbox'
+import { CategoryBadge } from './CategoryBadge'
+import { useToast } from '../../hooks/use-toast'
+import { blink } from '../../blink/client'
+import { DatabaseService, type Trip, type TripEntry } from '../../lib/database'
+import { formatDate, formatTime } from '../../lib/dates'
+import { getCategories, normalizeCategory } from '../../lib/categories'
+import { getTripTimeZone } from '../../lib/time-zones'
+import { describeGap, fitsGap, type FreeTimeGap } from '../../lib/free-time'
+
+interface GapSuggestion {
+  title: string
+  description?: string
+  location: string
+  address?: string
+  startTime: string
+  endTime: string
+  category: string
+}
+
+interface FillGapDialogProps {
+  // The gap to fill; the dialog is open while it's set
+  gap: FreeTimeGap | null
+  onClose: () => void
+  trip: Trip
+  existingEntries: TripEntry[]
+  onEntriesAdded: (entries: TripEntry[]) => void
+}
+
+// The model's answer isn't typed, so each suggestion is checked for what an
+// entry needs before it's offered
+function isGapSuggestion(value: unknown): value is GapSuggestion {
+  const suggestion = value as Partial<Record<keyof GapSuggestion, unknown>> | null
+  return typeof suggestion?.title === 'string' &&
+    typeof suggestion.location === 'string' &&
+    typeof suggestion.startTime === 'string' &&
+    typeof suggestion.endTime === 'string' &&
+    typeof suggestion.category === 'string'
+}
+
+function describeEntry(entry: TripEntry) {
+  return `"${entry.title}"${entry.location ? ` at ${entry.location}` : ''}`
+}
+
+export function FillGapDialog({ gap, onClose, trip, existingEntries, onEntriesAdded }: FillGapDialogProps) {
+  const [suggestions, setSuggestions] = useState<GapSuggestion[] | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [aiLoading, setAiLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [offline, setOffline] = useState(false)
+  const [attempt, setAttempt] = useState(0)
+  const { toast } = useToast()
+  // Suggestions are for the trip as the gap was opened; edits landing while
+  // the dialog is up don't ask again
+  const entriesRef = useRef(existingEntries)
+
+  useEffect(() => {
+    entriesRef.current = existingEntries
+  })
+
+  useEffect(() => {
+    setSuggestions(null)
+    setSelected(new Set())
+    if (!gap) return
+    if (!navigator.onLine) {
+      setOffline(true)
+      return
+    }
+    setOffline(false)
+
+    let cancelled = false
+    const generateSuggestions = async () => {
+      try {
+        setAiLoading(true)
+        const categoryValues = getCategories().map(category => category.value)
+        const planned = entriesRef.current.map(entry => entry.title).join(', ')
+
+        const { object } = await blink.ai.generateObject({
+          prompt: `Suggest 3-5 things to do during a free stretch of a trip to ${trip.destination}.
+
+Day: ${formatDate(gap.date, 'full')}
+Free from ${gap.startTime} to ${gap.endTime} (${gap.minutes} minutes)${gap.near ? `\nNear: ${gap.near}` : ''}${gap.before ? `\nComing from: ${describeEntry(gap.before)}` : ''}${gap.after ? `\nNext up: ${describeEntry(gap.after)}` : ''}
+Already planned on the trip: ${planned || 'nothing yet'}
+
+Each suggestion must start and end within the free time, leaving room to get there from the previous place and on to the next one. Prefer places close by, don't repeat anything already planned, and vary the kinds of activity.
+
+Format times as HH:MM (24-hour). Categorize each suggestion as one of: ${categoryValues.join(', ')}.`,
+          schema: {
+            type: 'object',
+            properties: {
+              suggestions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                    location: { type: 'string' },
+                    address: { type: 'string' },
+                    startTime: { type: 'string' },
+                    endTime: { type: 'string' },
+                    category: {
+                      type: 'string',
+                      enum: categoryValues
+                    }
+                  },
+                  required: ['title', 'location', 'startTime', 'endTime', 'category']
+                }
+              }
+            },
+            required: ['suggestions']
+          }
+        })
+
+        if (cancelled) return
+        // Anything that spills out of the gap would just clash with what's around it
+        const { suggestions: answer } = (object ?? {}) as { suggestions?: unknown }
+        const found = (Array.isArray(answer) ? answer as unknown[] : [])
+          .filter(isGapSuggestion)
+          .filter(suggestion => suggestion.title.trim() && fitsGap(gap, suggestion.startTime, suggestion.endTime))
+        setSuggestions(found)
+      } catch (error) {
+        console.error('Failed to suggest activities:', error)
+        if (cancelled) return
+        setSuggestions([])
+        toast({
+          title: 'Error',
+          description: 'Failed to get suggestions. Please try again.',
+          variant: 'destructive',
+        })
+      } finally {
+        if (!cancelled) setAiLoading(false)
+      }
+    }
+
+    generateSuggestions()
+    return () => {
+      cancelled = true
+    }
+  }, [gap, attempt, trip, toast])
+
+  const toggleSuggestion = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(index)
+      else next.delete(index)
+      return next
+    })
+  }
+
+  const handleAdd = async () => {
+    if (!gap || !suggestions) return
+    const chosen = suggestions.filter((_, index) => selected.has(index))
+
+    try {
+      setSaving(true)
+      const user = await blink.auth.me()
+      const created: TripEntry[] = []
+      for (const suggestion of chosen) {
+        created.push(await DatabaseService.createTripEntry({
+          tripId: trip.id,
+          userId: user.id,
+          title: suggestion.title.trim(),
+          description: suggestion.description || '',
+          location: suggestion.location || '',
+          address: suggestion.address || '',
+          date: gap.date,
+          startTime: suggestion.startTime,
+          endTime: suggestion.endTime,
+          timeZone: getTripTimeZone(trip),
+          category: normalizeCategory(suggestion.category)
+        }))
+      }
+
+      toast({
+        title: 'Added to your itinerary',
+        description: `${created.length} suggestion${created.length === 1 ? '' : 's'} added to ${formatDate(gap.date, 'short')}.`,
+      })
+      onEntriesAdded(created)
+      onClose()
+    } catch (error) {
+      console.error('Failed to add suggestions:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to add the suggestions. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!gap} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-primary" />
+            Fill your free time
+          </DialogTitle>
+          {gap && (
+            <p className="text-sm text-muted-foreground">
+              {formatDate(gap.date, 'full')} · {describeGap(gap)}
+            </p>
+          )}
+        </DialogHeader>
+
+        {offline ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <WifiOff className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p>Suggestions need a connection.</p>
+            <p className="text-sm">Your free time is still worked out offline; try again once you're back online.</p>
+            <Button variant="outline" size="sm" className="mt-4" onClick={() => setAttempt(prev => prev + 1)}>
+              Try again
+            </Button>
+          </div>
+        ) : aiLoading || !suggestions ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <Wand2 className="h-8 w-8 mx-auto mb-3 animate-spin" />
+            Finding things to do...
+          </div>
+        ) : suggestions.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <p>No suggestions fit this gap.</p>
+            <Button variant="outline" size="sm" className="mt-4" onClick={() => setAttempt(prev => prev + 1)}>
+              Try again
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {suggestions.map((suggestion, index) => (
+              <Card key={index}>
+                <CardContent className="p-4 flex items-start gap-3">
+                  <Checkbox
+                    checked={selected.has(index)}
+                    onCheckedChange={(checked) => toggleSuggestion(index, checked === true)}
+                    aria-label={`Add ${suggestion.title}`}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h5 className="font-medium text-foreground">{suggestion.title}</h5>
+                      <CategoryBadge category={normalizeCategory(suggestion.category)} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {formatTime(suggestion.startTime)} - {formatTime(suggestion.endTime)}
+                    </p>
+                    {suggestion.location && (
+                      <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <MapPin className="h-3 w-3" />
+                        {suggestion.location}
+                      </p>
+                    )}
+                    {suggestion.description && (
+                      <p className="text-sm text-muted-foreground">{suggestion.description}</p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-4 border-t">
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleAdd}
+            disabled={saving || selected.size === 0}
+            className="flex-1 bg-primary hover:bg-primary/90"
+          >
+            {saving
+              ? 'Adding...'
+              : `Add ${selected.size} to itinerary`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
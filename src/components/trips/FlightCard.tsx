@@ -0,0 +1,127 @@
+import type { ReactNode } from 'react'
+import { Plane } from 'lucide-react'
+import { Card } from '../ui/card'
+import type { TripEntry } from '../../lib/database'
+import { findAirport } from '../../lib/airports'
+import {
+  formatDate,
+  formatDuration,
+  formatTime,
+  getEntryInstants,
+  getTimeZoneLabel
+} from '../../lib/dates'
+
+interface FlightCardProps {
+  entry: TripEntry
+  // Zone to assume for entries saved before they carried one
+  fallbackTimeZone?: string
+  // Edit/delete menu shown in the header strip
+  actions?: ReactNode
+  className?: string
+  children?: ReactNode
+}
+
+interface FlightEndProps {
+  code: string
+  time?: string
+  date?: string | null
+  zoneLabel?: string
+  terminal?: string
+  align: 'left' | 'right'
+}
+
+function FlightEnd({ code, time, date, zoneLabel, terminal, align }: FlightEndProps) {
+  const airport = findAirport(code)
+  return (
+    <div className={align === 'right' ? 'text-right' : ''}>
+      <p className="text-3xl font-bold tracking-wider text-foreground">{code || '—'}</p>
+      {airport && <p className="text-xs text-muted-foreground">{airport.city}</p>}
+      {time && (
+        <p className="mt-2 text-sm font-medium text-foreground">
+          {formatTime(time)}
+          {zoneLabel && <span className="ml-1 text-xs font-normal text-muted-foreground">{zoneLabel}</span>}
+        </p>
+      )}
+      {date && <p className="text-xs text-muted-foreground">{formatDate(date, 'short')}</p>}
+      {terminal && <p className="text-xs text-muted-foreground">Terminal {terminal}</p>}
+    </div>
+  )
+}
+
+function PassField({ label, value }: { label: string; value?: string }) {
+  if (!value) return null
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</p>
+      <p className="font-mono text-sm font-medium text-foreground">{value}</p>
+    </div>
+  )
+}
+
+// Boarding-pass style rendering of an entry with entryType 'flight'
+export function FlightCard({ entry, fallbackTimeZone, actions, className = '', children }: FlightCardProps) {
+  const flight = entry.flight
+  const instants = getEntryInstants({ ...entry, timeZone: entry.timeZone || fallbackTimeZone })
+  const duration = instants?.start && instants.end
+    ? Math.round((instants.end.getTime() - instants.start.getTime()) / 60000)
+    : null
+
+  return (
+    <Card className={`relative ${className}`}>
+      {children}
+      <div className="flex items-center justify-between gap-3 rounded-t-xl border-b bg-primary/5 px-4 py-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Plane className="h-4 w-4 text-primary shrink-0" />
+          <span className="font-medium text-foreground truncate">
+            {flight?.airline || entry.title}
+          </span>
+          {flight?.flightNumber && (
+            <span className="font-mono text-sm text-muted-foreground">{flight.flightNumber}</span>
+          )}
+        </div>
+        {actions}
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_1fr] items-start gap-4 px-4 py-4">
+        <FlightEnd
+          code={flight?.departureAirport ?? ''}
+          time={entry.startTime}
+          date={entry.date}
+          zoneLabel={instants?.start ? getTimeZoneLabel(instants.startZone, instants.start) : undefined}
+          terminal={flight?.departureTerminal}
+          align="left"
+        />
+        <div className="flex flex-col items-center gap-1 pt-3 text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <span className="h-px w-8 border-t border-dashed border-muted-foreground" />
+            <Plane className="h-4 w-4" />
+            <span className="h-px w-8 border-t border-dashed border-muted-foreground" />
+          </div>
+          {duration !== null && duration > 0 && (
+            <span className="text-xs">{formatDuration(duration)}</span>
+          )}
+        </div>
+        <FlightEnd
+          code={flight?.arrivalAirport ?? ''}
+          time={entry.endTime}
+          date={entry.endTime ? entry.endDate || instants?.endDate || entry.date : null}
+          zoneLabel={instants?.end ? getTimeZoneLabel(instants.endZone, instants.end) : undefined}
+          terminal={flight?.arrivalTerminal}
+          align="right"
+        />
+      </div>
+
+      {(flight?.seat || flight?.bookingReference || entry.description) && (
+        <div className="border-t border-dashed px-4 py-3 space-y-2">
+          <div className="flex gap-6">
+            <PassField label="Seat" value={flight?.seat} />
+            <PassField label="Booking ref" value={flight?.bookingReference} />
+          </div>
+          {entry.description && (
+            <p className="text-sm text-muted-foreground">{entry.description}</p>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
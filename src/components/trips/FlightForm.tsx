@@ -0,0 +1,297 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Textarea } from '../ui/textarea'
+import { Label } from '../ui/label'
+import { TimeZoneSelect } from './TimeZoneSelect'
+import { DateField } from './DateField'
+import type { NewTripEntry, TripEntry } from '../../lib/database'
+import { findAirport, isIataCode, normalizeIataCode } from '../../lib/airports'
+import { parseDateKey, toDateKey, zonedTimeToInstant } from '../../lib/dates'
+
+const airportCode = z
+  .string()
+  .transform(normalizeIataCode)
+  .refine(isIataCode, 'Use the 3-letter airport code')
+
+const flightSchema = z.object({
+  airline: z.string().min(1, 'Airline is required'),
+  flightNumber: z
+    .string()
+    .transform(value => value.replace(/\s+/g, '').toUpperCase())
+    .refine(value => /^[A-Z0-9]{2}\d{1,4}[A-Z]?$/.test(value), 'e.g. NH 105'),
+  departureAirport: airportCode,
+  arrivalAirport: airportCode,
+  date: z.date({
+    error: 'Departure date is required',
+  }),
+  endDate: z.date().optional(),
+  startTime: z.string().min(1, 'Departure time is required'),
+  endTime: z.string().optional(),
+  timeZone: z.string().min(1, 'Time zone is required'),
+  endTimeZone: z.string().min(1, 'Time zone is required'),
+  departureTerminal: z.string().optional(),
+  arrivalTerminal: z.string().optional(),
+  seat: z.string().optional(),
+  bookingReference: z.string().optional(),
+  description: z.string().optional(),
+}).refine(data => {
+  // Without an arrival date an earlier clock reading means the next day
+  if (!data.endTime || !data.endDate) return true
+  const departs = zonedTimeToInstant(toDateKey(data.date), data.startTime, data.timeZone)
+  const lands = zonedTimeToInstant(toDateKey(data.endDate), data.endTime, data.endTimeZone)
+  return lands > departs
+}, { message: 'Arrival must be after departure', path: ['endTime'] })
+
+type FlightFormInput = z.input<typeof flightSchema>
+type FlightFormData = z.output<typeof flightSchema>
+
+export type FlightEntryData = Omit<NewTripEntry, 'tripId' | 'userId'>
+
+interface FlightFormProps {
+  entry?: TripEntry | null
+  defaultTimeZone: string
+  saving: boolean
+  onSubmit: (data: FlightEntryData) => void
+  onCancel: () => void
+}
+
+function airportLabel(code: string) {
+  const airport = findAirport(code)
+  return airport ? `${airport.name} (${code})` : code
+}
+
+function airportAddress(code: string) {
+  const airport = findAirport(code)
+  return airport ? `${airport.name} Airport, ${airport.city}` : ''
+}
+
+// Builds a regular itinerary entry around the flight details, so calendar,
+// list and merge code keep working on title/date/times as before
+function toEntryData(data: FlightFormData): FlightEntryData {
+  const date = toDateKey(data.date)
+  const endDate = data.endDate ? toDateKey(data.endDate) : ''
+  return {
+    entryType: 'flight',
+    title: `Flight ${data.flightNumber}: ${data.departureAirport} → ${data.arrivalAirport}`,
+    category: 'transportation',
+    description: data.description || '',
+    location: airportLabel(data.departureAirport),
+    address: airportAddress(data.departureAirport),
+    date,
+    endDate: endDate !== date ? endDate : '',
+    startTime: data.startTime,
+    endTime: data.endTime || '',
+    timeZone: data.timeZone,
+    endTimeZone: data.endTimeZone !== data.timeZone ? data.endTimeZone : '',
+    flight: {
+      airline: data.airline.trim(),
+      flightNumber: data.flightNumber,
+      departureAirport: data.departureAirport,
+      arrivalAirport: data.arrivalAirport,
+      departureTerminal: data.departureTerminal?.trim() || undefined,
+      arrivalTerminal: data.arrivalTerminal?.trim() || undefined,
+      seat: data.seat?.trim().toUpperCase() || undefined,
+      bookingReference: data.bookingReference?.trim().toUpperCase() || undefined,
+    },
+  }
+}
+
+function toFormValues(entry: TripEntry | null | undefined, defaultTimeZone: string): Partial<FlightFormInput> {
+  const flight = entry?.flight
+  return {
+    airline: flight?.airline ?? '',
+    flightNumber: flight?.flightNumber ?? '',
+    departureAirport: flight?.departureAirport ?? '',
+    arrivalAirport: flight?.arrivalAirport ?? '',
+    date: entry ? parseDateKey(entry.date) : undefined,
+    endDate: entry?.endDate ? parseDateKey(entry.endDate) : undefined,
+    startTime: entry?.startTime ?? '',
+    endTime: entry?.endTime ?? '',
+    timeZone: entry?.timeZone || defaultTimeZone,
+    endTimeZone: entry?.endTimeZone || entry?.timeZone || defaultTimeZone,
+    departureTerminal: flight?.departureTerminal ?? '',
+    arrivalTerminal: flight?.arrivalTerminal ?? '',
+    seat: flight?.seat ?? '',
+    bookingReference: flight?.bookingReference ?? '',
+    description: entry?.description ?? '',
+  }
+}
+
+export function FlightForm({ entry, defaultTimeZone, saving, onSubmit, onCancel }: FlightFormProps) {
+  const form = useForm<FlightFormInput, unknown, FlightFormData>({
+    resolver: zodResolver(flightSchema),
+    defaultValues: toFormValues(entry, defaultTimeZone),
+  })
+  const errors = form.formState.errors
+
+  // A known airport also tells us which clock its time is on
+  const handleAirportChange = (field: 'departureAirport' | 'arrivalAirport', code: string) => {
+    form.setValue(field, code.toUpperCase())
+    const airport = findAirport(code)
+    if (airport && code.trim().length === 3) {
+      form.setValue(field === 'departureAirport' ? 'timeZone' : 'endTimeZone', airport.timeZone)
+    }
+  }
+
+  const departure = findAirport(form.watch('departureAirport'))
+  const arrival = findAirport(form.watch('arrivalAirport'))
+
+  return (
+    <form onSubmit={form.handleSubmit(data => onSubmit(toEntryData(data)))} className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="airline">Airline</Label>
+          <Input
+            id="airline"
+            placeholder="e.g., ANA"
+            {...form.register('airline')}
+            className={errors.airline ? 'border-destructive' : ''}
+          />
+          {errors.airline && <p className="text-sm text-destructive">{errors.airline.message}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="flightNumber">Flight Number</Label>
+          <Input
+            id="flightNumber"
+            placeholder="e.g., NH 105"
+            {...form.register('flightNumber')}
+            className={`uppercase ${errors.flightNumber ? 'border-destructive' : ''}`}
+          />
+          {errors.flightNumber && <p className="text-sm text-destructive">{errors.flightNumber.message}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="departureAirport">From</Label>
+          <Input
+            id="departureAirport"
+            placeholder="e.g., LAX"
+            maxLength={3}
+            value={form.watch('departureAirport') || ''}
+            onChange={(e) => handleAirportChange('departureAirport', e.target.value)}
+            className={`uppercase ${errors.departureAirport ? 'border-destructive' : ''}`}
+          />
+          {departure && <p className="text-xs text-muted-foreground">{departure.name}, {departure.city}</p>}
+          {errors.departureAirport && <p className="text-sm text-destructive">{errors.departureAirport.message}</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="arrivalAirport">To</Label>
+          <Input
+            id="arrivalAirport"
+            placeholder="e.g., HND"
+            maxLength={3}
+            value={form.watch('arrivalAirport') || ''}
+            onChange={(e) => handleAirportChange('arrivalAirport', e.target.value)}
+            className={`uppercase ${errors.arrivalAirport ? 'border-destructive' : ''}`}
+          />
+          {arrival && <p className="text-xs text-muted-foreground">{arrival.name}, {arrival.city}</p>}
+          {errors.arrivalAirport && <p className="text-sm text-destructive">{errors.arrivalAirport.message}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-4">
+          <DateField
+            label="Departure Date"
+            value={form.watch('date')}
+            placeholder="Pick a date"
+            error={errors.date?.message}
+            onChange={(date) => form.setValue('date', date!)}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="startTime">Departure Time</Label>
+            <Input
+              id="startTime"
+              type="time"
+              {...form.register('startTime')}
+              className={errors.startTime ? 'border-destructive' : ''}
+            />
+            {errors.startTime && <p className="text-sm text-destructive">{errors.startTime.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timeZone">Departure Time Zone</Label>
+            <TimeZoneSelect
+              id="timeZone"
+              value={form.watch('timeZone') || ''}
+              onChange={(zone) => form.setValue('timeZone', zone)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <DateField
+            label="Arrival Date (Optional)"
+            value={form.watch('endDate')}
+            placeholder="Same or next day"
+            onChange={(date) => form.setValue('endDate', date)}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="endTime">Arrival Time (Optional)</Label>
+            <Input
+              id="endTime"
+              type="time"
+              {...form.register('endTime')}
+              className={errors.endTime ? 'border-destructive' : ''}
+            />
+            {errors.endTime && <p className="text-sm text-destructive">{errors.endTime.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="endTimeZone">Arrival Time Zone</Label>
+            <TimeZoneSelect
+              id="endTimeZone"
+              value={form.watch('endTimeZone') || ''}
+              onChange={(zone) => form.setValue('endTimeZone', zone)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="departureTerminal">Departure Terminal (Optional)</Label>
+          <Input id="departureTerminal" placeholder="e.g., B" {...form.register('departureTerminal')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="arrivalTerminal">Arrival Terminal (Optional)</Label>
+          <Input id="arrivalTerminal" placeholder="e.g., 3" {...form.register('arrivalTerminal')} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="seat">Seat (Optional)</Label>
+          <Input id="seat" placeholder="e.g., 32A" {...form.register('seat')} className="uppercase" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="bookingReference">Booking Reference (Optional)</Label>
+          <Input id="bookingReference" placeholder="e.g., X7Y8Z9" {...form.register('bookingReference')} className="uppercase" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="flight-description">Notes (Optional)</Label>
+        <Textarea
+          id="flight-description"
+          placeholder="Baggage allowance, lounge access..."
+          rows={2}
+          {...form.register('description')}
+        />
+      </div>
+
+      <div className="flex gap-3 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving} className="flex-1 bg-primary hover:bg-primary/90">
+          {saving ? 'Saving...' : entry ? 'Save Changes' : 'Add Flight'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,28 @@
+import { Hourglass, Sparkles } from 'lucide-react'
+import { Button } from '../ui/button'
+import { describeGap, type FreeTimeGap } from '../../lib/free-time'
+
+interface FreeTimeBlockProps {
+  gap: FreeTimeGap
+  // Asks for things to do in the gap; left out where editing isn't allowed
+  onFill?: (gap: FreeTimeGap) => void
+}
+
+// Unplanned time between entries in the trip timeline
+export function FreeTimeBlock({ gap, onFill }: FreeTimeBlockProps) {
+  return (
+    <div className="relative flex items-center justify-between gap-3 rounded-lg border border-dashed px-4 py-2 text-sm text-muted-foreground">
+      <div className="absolute -left-8 top-1/2 w-3 h-3 -translate-y-1/2 bg-background border-2 border-dashed border-muted-foreground rounded-full"></div>
+      <span className="flex items-center gap-2">
+        <Hourglass className="h-4 w-4 shrink-0" />
+        {describeGap(gap)}
+      </span>
+      {onFill && (
+        <Button variant="ghost" size="sm" onClick={() => onFill(gap)}>
+          <Sparkles className="h-3 w-3 mr-1" />
+          Suggest things to do
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+import { ArrowDown, ArrowUp, Plus, Trash2, AlertCircle } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Card, CardContent, CardHeader } from '../ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { useCategories } from '../../hooks/use-categories'
+import {
+  createRowKey,
+  type ParsedTrip,
+  type ParsedTripEntry,
+  type ParsedTripIssues
+} from '../../lib/parsed-trip'
+
+interface ParsedTripReviewProps {
+  trip: ParsedTrip
+  issues: ParsedTripIssues
+  onChange: (trip: ParsedTrip) => void
+  // Set when importing into an existing trip, whose header isn't editable here
+  hideHeader?: boolean
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null
+  return (
+    <p className="flex items-center gap-1 text-xs text-destructive mt-1">
+      <AlertCircle className="h-3 w-3" />
+      {message}
+    </p>
+  )
+}
+
+export function ParsedTripReview({ trip, issues, onChange, hideHeader }: ParsedTripReviewProps) {
+  const categories = useCategories()
+
+  const updateTrip = (changes: Partial<ParsedTrip>) => {
+    onChange({ ...trip, ...changes })
+  }
+
+  const updateEntry = (index: number, changes: Partial<ParsedTripEntry>) => {
+    updateTrip({
+      entries: trip.entries.map((entry, i) => i === index ? { ...entry, ...changes } : entry)
+    })
+  }
+
+  const removeEntry = (index: number) => {
+    updateTrip({ entries: trip.entries.filter((_, i) => i !== index) })
+  }
+
+  const moveEntry = (index: number, offset: -1 | 1) => {
+    const target = index + offset
+    if (target < 0 || target >= trip.entries.length) return
+    const entries = [...trip.entries]
+    ;[entries[index], entries[target]] = [entries[target], entries[index]]
+    updateTrip({ entries })
+  }
+
+  const addEntry = () => {
+    const lastDate = trip.entries[trip.entries.length - 1]?.date
+    updateTrip({
+      entries: [
+        ...trip.entries,
+        {
+          key: createRowKey(),
+          title: '',
+          date: lastDate || trip.startDate,
+          time: '',
+          location: '',
+          description: '',
+          category: 'activity'
+        }
+      ]
+    })
+  }
+
+  const invalid = (message?: string) => message ? 'border-destructive' : ''
+
+  return (
+    <div className="space-y-6">
+      {!hideHeader && (
+        <Card>
+          <CardHeader className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="parsed-title">Trip Title</Label>
+              <Input
+                id="parsed-title"
+                value={trip.title}
+                onChange={(e) => updateTrip({ title: e.target.value })}
+                className={invalid(issues.trip.title)}
+              />
+              <FieldError message={issues.trip.title} />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="parsed-destination">Destination</Label>
+                <Input
+                  id="parsed-destination"
+                  value={trip.destination}
+                  onChange={(e) => updateTrip({ destination: e.target.value })}
+                  className={invalid(issues.trip.destination)}
+                />
+                <FieldError message={issues.trip.destination} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="parsed-start">Start Date</Label>
+                <Input
+                  id="parsed-start"
+                  placeholder="YYYY-MM-DD"
+                  value={trip.startDate}
+                  onChange={(e) => updateTrip({ startDate: e.target.value })}
+                  className={invalid(issues.trip.startDate)}
+                />
+                <FieldError message={issues.trip.startDate} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="parsed-end">End Date</Label>
+                <Input
+                  id="parsed-end"
+                  placeholder="YYYY-MM-DD"
+                  value={trip.endDate}
+                  onChange={(e) => updateTrip({ endDate: e.target.value })}
+                  className={invalid(issues.trip.endDate)}
+                />
+                <FieldError message={issues.trip.endDate} />
+              </div>
+            </div>
+          </CardHeader>
+        </Card>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-foreground">
+            Itinerary ({trip.entries.length} entries)
+          </h4>
+          <Button variant="outline" size="sm" onClick={addEntry}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Entry
+          </Button>
+        </div>
+        <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+          {trip.entries.map((entry, index) => {
+            const entryIssues = issues.entries[index] ?? {}
+            const hasIssues = Object.keys(entryIssues).length > 0
+            return (
+              <Card
+                key={entry.key ?? index}
+                className={`border-l-4 ${hasIssues ? 'border-l-destructive' : 'border-l-primary/20'}`}
+              >
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start gap-2">
+                    <div className="flex-1">
+                      <Input
+                        placeholder="Title"
+                        value={entry.title}
+                        onChange={(e) => updateEntry(index, { title: e.target.value })}
+                        className={invalid(entryIssues.title)}
+                      />
+                      <FieldError message={entryIssues.title} />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveEntry(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveEntry(index, 1)}
+                      disabled={index === trip.entries.length - 1}
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeEntry(index)}
+                      className="text-destructive hover:text-destructive"
+                      aria-label="Remove entry"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <Input
+                        placeholder="YYYY-MM-DD"
+                        value={entry.date}
+                        onChange={(e) => updateEntry(index, { date: e.target.value })}
+                        className={invalid(entryIssues.date)}
+                      />
+                      <FieldError message={entryIssues.date} />
+                    </div>
+                    <div>
+                      <Input
+                        placeholder="Time, e.g. 14:30"
+                        value={entry.time || ''}
+                        onChange={(e) => updateEntry(index, { time: e.target.value })}
+                        className={invalid(entryIssues.time)}
+                      />
+                      <FieldError message={entryIssues.time} />
+                    </div>
+                    <div>
+                      <Select
+                        value={entry.category}
+                        onValueChange={(value) => updateEntry(index, { category: value })}
+                      >
+                        <SelectTrigger className={invalid(entryIssues.category)}>
+                          <SelectValue placeholder="Category" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.map((category) => (
+                            <SelectItem key={category.value} value={category.value}>
+                              {category.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FieldError message={entryIssues.category} />
+                    </div>
+                  </div>
+
+                  <Input
+                    placeholder="Location (optional)"
+                    value={entry.location || ''}
+                    onChange={(e) => updateEntry(index, { location: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Notes (optional)"
+                    value={entry.description || ''}
+                    onChange={(e) => updateEntry(index, { description: e.target.value })}
+                  />
+                </CardContent>
+              </Card>
+            )
+          })}
+          {trip.entries.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No entries. Add one or create the trip without an itinerary.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { AlertCircle, AlertTriangle } from 'lucide-react'
+import type { ScheduleIssue } from '../../lib/schedule-check'
+
+interface ScheduleIssuesProps {
+  issues?: ScheduleIssue[]
+  className?: string
+}
+
+// Schedule problems for one day, shown under its heading in the timeline
+export function ScheduleIssues({ issues, className = '' }: ScheduleIssuesProps) {
+  if (!issues?.length) return null
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {issues.map(issue => {
+        const Icon = issue.severity === 'error' ? AlertCircle : AlertTriangle
+        return (
+          <div
+            key={issue.id}
+            className={`flex items-start gap-2 rounded-lg border px-3 py-2 text-sm ${
+              issue.severity === 'error'
+                ? 'border-red-200 bg-red-50 text-red-800'
+                : 'border-amber-200 bg-amber-50 text-amber-800'
+            }`}
+          >
+            <Icon className="h-4 w-4 mt-0.5 shrink-0" />
+            <p>{issue.message}</p>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
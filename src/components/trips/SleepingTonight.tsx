@@ -0,0 +1,35 @@
+import { BedDouble, LogOut } from 'lucide-react'
+import type { TripEntry } from '../../lib/database'
+import { formatTime } from '../../lib/dates'
+import { findCheckOut, findStayForNight } from '../../lib/stays'
+
+interface SleepingTonightProps {
+  entries: TripEntry[]
+  date: string
+}
+
+// Day header line in the trip timeline: where tonight is spent, and which
+// stay (if any) is being checked out of
+export function SleepingTonight({ entries, date }: SleepingTonightProps) {
+  const tonight = findStayForNight(entries, date)
+  const checkOut = findCheckOut(entries, date)
+  if (!tonight && !checkOut) return null
+
+  return (
+    <div className="ml-6 flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+      {checkOut && checkOut.id !== tonight?.id && (
+        <span className="flex items-center gap-2">
+          <LogOut className="h-4 w-4" />
+          Check out of {checkOut.title}
+          {checkOut.endTime && ` by ${formatTime(checkOut.endTime)}`}
+        </span>
+      )}
+      {tonight && (
+        <span className="flex items-center gap-2">
+          <BedDouble className="h-4 w-4" />
+          Sleeping at <span className="font-medium text-foreground">{tonight.title}</span>
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+import type { ReactNode } from 'react'
+import { BedDouble, ExternalLink, MapPin } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card } from '../ui/card'
+import type { TripEntry } from '../../lib/database'
+import { formatDate, formatTime } from '../../lib/dates'
+import { getGoogleMapsUrl } from '../../lib/maps'
+import { countNights } from '../../lib/stays'
+
+interface StayCardProps {
+  entry: TripEntry
+  // Edit/delete menu shown in the header strip
+  actions?: ReactNode
+  className?: string
+  children?: ReactNode
+}
+
+function StayEnd({ label, date, time }: { label: string; date?: string; time?: string }) {
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</p>
+      {date && <p className="text-sm font-medium text-foreground">{formatDate(date, 'medium')}</p>}
+      {time && <p className="text-xs text-muted-foreground">{formatTime(time)}</p>}
+    </div>
+  )
+}
+
+// An entry with entryType 'stay', from check-in to check-out
+export function StayCard({ entry, actions, className = '', children }: StayCardProps) {
+  const stay = entry.stay
+  const nights = countNights(entry)
+
+  return (
+    <Card className={`relative ${className}`}>
+      {children}
+      <div className="flex items-center justify-between gap-3 rounded-t-xl border-b bg-blue-50 px-4 py-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <BedDouble className="h-4 w-4 text-blue-700 shrink-0" />
+          <span className="font-medium text-foreground truncate">{entry.title}</span>
+          {nights > 0 && (
+            <span className="text-sm text-muted-foreground shrink-0">
+              {nights} {nights === 1 ? 'night' : 'nights'}
+            </span>
+          )}
+        </div>
+        {actions}
+      </div>
+
+      <div className="px-4 py-4 space-y-3">
+        <div className="grid grid-cols-2 gap-4">
+          <StayEnd label="Check-in" date={entry.date} time={entry.startTime} />
+          <StayEnd label="Check-out" date={entry.endDate} time={entry.endTime} />
+        </div>
+
+        {(stay?.roomType || stay?.guests || stay?.confirmationNumber) && (
+          <div className="flex flex-wrap gap-6">
+            {stay.roomType && (
+              <div>
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Room</p>
+                <p className="text-sm text-foreground">{stay.roomType}</p>
+              </div>
+            )}
+            {stay.guests && (
+              <div>
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Guests</p>
+                <p className="text-sm text-foreground">{stay.guests}</p>
+              </div>
+            )}
+            {stay.confirmationNumber && (
+              <div>
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Confirmation</p>
+                <p className="font-mono text-sm font-medium text-foreground">{stay.confirmationNumber}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {entry.description && (
+          <p className="text-sm text-muted-foreground">{entry.description}</p>
+        )}
+
+        {entry.address && (
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground min-w-0">
+              <MapPin className="h-4 w-4 shrink-0" />
+              <span className="truncate">{entry.address}</span>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <a
+                href={getGoogleMapsUrl(entry.address, entry.location)}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <MapPin className="h-3 w-3 mr-1" />
+                Maps
+                <ExternalLink className="h-3 w-3 ml-1" />
+              </a>
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,198 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Textarea } from '../ui/textarea'
+import { Label } from '../ui/label'
+import { TimeZoneSelect } from './TimeZoneSelect'
+import { DateField } from './DateField'
+import type { NewTripEntry, TripEntry } from '../../lib/database'
+import { daysBetween, parseDateKey, toDateKey } from '../../lib/dates'
+
+const staySchema = z.object({
+  title: z.string().min(1, 'Property name is required'),
+  address: z.string().optional(),
+  date: z.date({
+    error: 'Check-in date is required',
+  }),
+  endDate: z.date({
+    error: 'Check-out date is required',
+  }),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  timeZone: z.string().min(1, 'Time zone is required'),
+  confirmationNumber: z.string().optional(),
+  roomType: z.string().optional(),
+  guests: z.string().optional(),
+  description: z.string().optional(),
+}).refine(data => daysBetween(toDateKey(data.date), toDateKey(data.endDate)) > 0, {
+  message: 'Check-out must be after check-in',
+  path: ['endDate'],
+})
+
+type StayFormData = z.infer<typeof staySchema>
+
+interface StayFormProps {
+  entry?: TripEntry | null
+  defaultTimeZone: string
+  saving: boolean
+  onSubmit: (data: Omit<NewTripEntry, 'tripId' | 'userId'>) => void
+  onCancel: () => void
+}
+
+function toEntryData(data: StayFormData): Omit<NewTripEntry, 'tripId' | 'userId'> {
+  const guests = Number.parseInt(data.guests ?? '', 10)
+  return {
+    entryType: 'stay',
+    title: data.title.trim(),
+    category: 'accommodation',
+    description: data.description || '',
+    location: data.title.trim(),
+    address: data.address || '',
+    date: toDateKey(data.date),
+    endDate: toDateKey(data.endDate),
+    startTime: data.startTime || '',
+    endTime: data.endTime || '',
+    timeZone: data.timeZone,
+    endTimeZone: '',
+    stay: {
+      confirmationNumber: data.confirmationNumber?.trim() || undefined,
+      roomType: data.roomType?.trim() || undefined,
+      guests: guests > 0 ? guests : undefined,
+    },
+  }
+}
+
+function toFormValues(entry: TripEntry | null | undefined, defaultTimeZone: string): Partial<StayFormData> {
+  return {
+    title: entry?.title ?? '',
+    address: entry?.address ?? '',
+    date: entry ? parseDateKey(entry.date) : undefined,
+    endDate: entry?.endDate ? parseDateKey(entry.endDate) : undefined,
+    startTime: entry?.startTime ?? '',
+    endTime: entry?.endTime ?? '',
+    timeZone: entry?.timeZone || defaultTimeZone,
+    confirmationNumber: entry?.stay?.confirmationNumber ?? '',
+    roomType: entry?.stay?.roomType ?? '',
+    guests: entry?.stay?.guests ? String(entry.stay.guests) : '',
+    description: entry?.description ?? '',
+  }
+}
+
+export function StayForm({ entry, defaultTimeZone, saving, onSubmit, onCancel }: StayFormProps) {
+  const form = useForm<StayFormData>({
+    resolver: zodResolver(staySchema),
+    defaultValues: toFormValues(entry, defaultTimeZone),
+  })
+  const errors = form.formState.errors
+
+  const checkIn = form.watch('date')
+  const checkOut = form.watch('endDate')
+  const nights = checkIn && checkOut ? daysBetween(toDateKey(checkIn), toDateKey(checkOut)) : 0
+
+  return (
+    <form onSubmit={form.handleSubmit(data => onSubmit(toEntryData(data)))} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="stay-title">Property</Label>
+        <Input
+          id="stay-title"
+          placeholder="e.g., Park Hyatt Tokyo"
+          {...form.register('title')}
+          className={errors.title ? 'border-destructive' : ''}
+        />
+        {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="stay-address">Address (Optional)</Label>
+        <Input
+          id="stay-address"
+          placeholder="e.g., 3-7-1-2 Nishi-Shinjuku, Shinjuku-ku, Tokyo"
+          {...form.register('address')}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-4">
+          <DateField
+            label="Check-in"
+            value={checkIn}
+            placeholder="Pick a date"
+            error={errors.date?.message}
+            onChange={(date) => form.setValue('date', date!)}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="stay-startTime">Check-in Time (Optional)</Label>
+            <Input id="stay-startTime" type="time" {...form.register('startTime')} />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <DateField
+            label="Check-out"
+            value={checkOut}
+            placeholder="Pick a date"
+            error={errors.endDate?.message}
+            onChange={(date) => form.setValue('endDate', date!)}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="stay-endTime">Check-out Time (Optional)</Label>
+            <Input id="stay-endTime" type="time" {...form.register('endTime')} />
+          </div>
+        </div>
+      </div>
+
+      {nights > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {nights} {nights === 1 ? 'night' : 'nights'}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="stay-timeZone">Time Zone</Label>
+        <TimeZoneSelect
+          id="stay-timeZone"
+          value={form.watch('timeZone') || ''}
+          onChange={(zone) => form.setValue('timeZone', zone)}
+        />
+        {errors.timeZone && <p className="text-sm text-destructive">{errors.timeZone.message}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="confirmationNumber">Confirmation Number (Optional)</Label>
+          <Input id="confirmationNumber" placeholder="e.g., 83920174" {...form.register('confirmationNumber')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="guests">Guests (Optional)</Label>
+          <Input id="guests" type="number" min={1} placeholder="2" {...form.register('guests')} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="roomType">Room Details (Optional)</Label>
+        <Input id="roomType" placeholder="e.g., Deluxe King, non-smoking" {...form.register('roomType')} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="stay-description">Notes (Optional)</Label>
+        <Textarea
+          id="stay-description"
+          placeholder="Breakfast included, late check-out requested..."
+          rows={2}
+          {...form.register('description')}
+        />
+      </div>
+
+      <div className="flex gap-3 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving} className="flex-1 bg-primary hover:bg-primary/90">
+          {saving ? 'Saving...' : entry ? 'Save Changes' : 'Add Stay'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -1,40 +1,78 @@
-import { useState } from 'react'
-import { Sparkles, FileText, Wand2 } from 'lucide-react'
+import { useState, useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Sparkles, FileText, Wand2, ListChecks } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog'
 import { Button } from '../ui/button'
 import { Textarea } from '../ui/textarea'
 import { Label } from '../ui/label'
-import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
-import { Badge } from '../ui/badge'
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
 import { useToast } from '../../hooks/use-toast'
 import { blink } from '../../blink/client'
+import { DatabaseService, type Trip, type TripEntry } from '../../lib/database'
+import {
+  toNewTrip,
+  toNewTripEntry,
+  validateParsedTrip,
+  withRowKeys,
+  type ParsedTrip
+} from '../../lib/parsed-trip'
+import { parseTravelText } from '../../lib/travel-text-parser'
+import { getCategories } from '../../lib/categories'
+import { matchParsedEntries, type EntryMatch } from '../../lib/trip-merge'
+import { ConflictError } from '../../lib/repositories'
+import { ParsedTripReview } from './ParsedTripReview'
+import { TripMergePreview } from './TripMergePreview'
 
-interface ParsedTrip {
-  title: string
-  destination: string
-  startDate: string
-  endDate: string
-  entries: Array<{
-    title: string
-    date: string
-    time?: string
-    location?: string
-    description?: string
-    category: string
-  }>
-}
+type ParserMode = 'ai' | 'offline'
 
 interface TextParserDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onTripCreated?: () => void
+  // When set, parsed entries are merged into this trip instead of creating one
+  targetTrip?: Trip | null
+  existingEntries?: TripEntry[]
+  onEntriesMerged?: () => void
 }
 
-export function TextParserDialog({ open, onOpenChange, onTripCreated }: TextParserDialogProps) {
+export function TextParserDialog({
+  open,
+  onOpenChange,
+  onTripCreated,
+  targetTrip,
+  existingEntries = [],
+  onEntriesMerged
+}: TextParserDialogProps) {
   const [text, setText] = useState('')
   const [loading, setLoading] = useState(false)
   const [parsedTrip, setParsedTrip] = useState<ParsedTrip | null>(null)
+  const [mode, setMode] = useState<ParserMode>(() => navigator.onLine ? 'ai' : 'offline')
+  const [matches, setMatches] = useState<EntryMatch[] | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
   const { toast } = useToast()
+  const navigate = useNavigate()
+
+  const issues = useMemo(() => parsedTrip ? validateParsedTrip(parsedTrip) : null, [parsedTrip])
+
+  // Merging keeps the target trip's header, so entries are validated
+  // against its real date range
+  const showParsedTrip = (parsed: ParsedTrip) => {
+    setParsedTrip(withRowKeys(targetTrip
+      ? {
+          ...parsed,
+          title: targetTrip.title,
+          destination: targetTrip.destination,
+          startDate: targetTrip.startDate,
+          endDate: targetTrip.endDate
+        }
+      : parsed))
+  }
+
+  const startOver = () => {
+    setParsedTrip(null)
+    setMatches(null)
+    setText('')
+  }
 
   const handleParse = async () => {
     if (!text.trim()) {
@@ -46,9 +84,16 @@ export function TextParserDialog({ open, onOpenChange, onTripCreated }: TextPars
       return
     }
 
+    if (mode === 'offline') {
+      showParsedTrip(parseTravelText(text))
+      return
+    }
+
     try {
       setLoading(true)
       
+      const categoryValues = getCategories().map(category => category.value)
+
       // Use AI to parse the travel text
       const { object } = await blink.ai.generateObject({
         prompt: `Parse the following travel information and extract trip details and itinerary entries. Return a structured object with trip information and individual entries.
@@ -61,7 +106,7 @@ Please extract:
 - Start and end dates
 - Individual itinerary entries with dates, times, locations, and activities
 
-Format dates as YYYY-MM-DD and times as HH:MM. Categorize entries as: accommodation, transportation, activity, dining, or other.`,
+Format dates as YYYY-MM-DD and times as HH:MM. Categorize entries as one of: ${categoryValues.join(', ')}.`,
         schema: {
           type: 'object',
           properties: {
@@ -81,7 +126,7 @@ Format dates as YYYY-MM-DD and times as HH:MM. Categorize entries as: accommodat
                   description: { type: 'string' },
                   category: { 
                     type: 'string',
-                    enum: ['accommodation', 'transportation', 'activity', 'dining', 'other']
+                    enum: categoryValues
                   }
                 },
                 required: ['title', 'date', 'category']
@@ -92,13 +137,15 @@ Format dates as YYYY-MM-DD and times as HH:MM. Categorize entries as: accommodat
         }
       })
 
-      setParsedTrip(object as ParsedTrip)
+      showParsedTrip(object as ParsedTrip)
     } catch (error) {
       console.error('Failed to parse text:', error)
+      // Fall back to the rule-based parser so the user can still review
+      // and fix the result instead of starting over
+      showParsedTrip(parseTravelText(text))
       toast({
-        title: 'Error',
-        description: 'Failed to parse travel information. Please try again.',
-        variant: 'destructive',
+        title: 'AI parser unavailable',
+        description: 'Parsed with the offline parser instead. Please double-check the entries before importing.',
       })
     } finally {
       setLoading(false)
@@ -106,32 +153,31 @@ Format dates as YYYY-MM-DD and times as HH:MM. Categorize entries as: accommodat
   }
 
   const handleCreateTrip = async () => {
-    if (!parsedTrip) return
+    if (!parsedTrip || issues?.count) return
 
     try {
       setLoading(true)
       const user = await blink.auth.me()
       
-      // For now, we'll simulate trip creation since database is not available
-      console.log('Creating parsed trip:', {
-        ...parsedTrip,
-        userId: user.id,
-      })
+      const trip = await DatabaseService.createTripWithEntries(
+        toNewTrip(parsedTrip, user.id),
+        parsedTrip.entries.map(toNewTripEntry)
+      )
 
       toast({
         title: 'Trip created successfully!',
         description: `Your trip "${parsedTrip.title}" has been created with ${parsedTrip.entries.length} entries.`,
       })
 
-      setText('')
-      setParsedTrip(null)
+      startOver()
       onOpenChange(false)
       onTripCreated?.()
+      navigate(`/trip/${trip.id}`)
     } catch (error) {
       console.error('Failed to create trip:', error)
       toast({
         title: 'Error',
-        description: 'Failed to create trip. Please try again.',
+        description: 'Failed to import the trip, so nothing was saved. Please try again.',
         variant: 'destructive',
       })
     } finally {
@@ -139,25 +185,55 @@ Format dates as YYYY-MM-DD and times as HH:MM. Categorize entries as: accommodat
     }
   }
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'accommodation': return 'bg-blue-100 text-blue-800 border-blue-200'
-      case 'transportation': return 'bg-green-100 text-green-800 border-green-200'
-      case 'activity': return 'bg-purple-100 text-purple-800 border-purple-200'
-      case 'dining': return 'bg-orange-100 text-orange-800 border-orange-200'
-      default: return 'bg-gray-100 text-gray-800 border-gray-200'
-    }
+  const handleCompare = () => {
+    if (!parsedTrip || issues?.count) return
+    const found = matchParsedEntries(parsedTrip.entries, existingEntries)
+    setMatches(found)
+    setSelected(new Set(found.filter(match => match.status !== 'duplicate').map(match => match.key)))
+  }
+
+  const toggleMatch = (key: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(key)
+      else next.delete(key)
+      return next
+    })
   }
 
-  const formatDate = (dateString: string) => {
+  const handleMerge = async () => {
+    if (!targetTrip || !matches) return
+    const chosen = matches.filter(match => selected.has(match.key))
+
     try {
-      return new Date(dateString).toLocaleDateString('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric'
+      setLoading(true)
+      await DatabaseService.mergeTripEntries(
+        targetTrip,
+        chosen.filter(match => match.status === 'new').map(match => match.incoming),
+        chosen
+          .filter(match => match.status === 'update')
+          .map(match => ({ entry: match.existing!, changes: match.changes! }))
+      )
+
+      toast({
+        title: 'Trip updated',
+        description: `Applied ${chosen.length} change${chosen.length === 1 ? '' : 's'} to "${targetTrip.title}".`,
+      })
+
+      startOver()
+      onOpenChange(false)
+      onEntriesMerged?.()
+    } catch (error) {
+      console.error('Failed to merge entries:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof ConflictError
+          ? 'Some entries were changed elsewhere in the meantime, so nothing was applied. Reopen the trip and try again.'
+          : 'Failed to apply the changes, so nothing was saved. Please try again.',
+        variant: 'destructive',
       })
-    } catch {
-      return dateString
+    } finally {
+      setLoading(false)
     }
   }
 
@@ -167,12 +243,32 @@ Format dates as YYYY-MM-DD and times as HH:MM. Categorize entries as: accommodat
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Sparkles className="h-5 w-5 text-primary" />
-            Smart Travel Text Parser
+            {targetTrip ? `Parse into "${targetTrip.title}"` : 'Smart Travel Text Parser'}
           </DialogTitle>
         </DialogHeader>
 
         {!parsedTrip ? (
           <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Parser</Label>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={mode}
+                onValueChange={(value: string) => value && setMode(value as ParserMode)}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="ai" className="gap-2">
+                  <Sparkles className="h-4 w-4" />
+                  Smart (AI)
+                </ToggleGroupItem>
+                <ToggleGroupItem value="offline" className="gap-2">
+                  <ListChecks className="h-4 w-4" />
+                  Offline rules
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="travel-text">Travel Information</Label>
               <Textarea
@@ -202,7 +298,9 @@ Trip to Tokyo from March 15-22, 2024
                 <div className="space-y-2">
                   <h4 className="font-medium text-foreground">How it works</h4>
                   <p className="text-sm text-muted-foreground">
-                    Our AI will analyze your travel text and automatically extract:
+                    {mode === 'ai'
+                      ? 'Our AI will analyze your travel text and automatically extract:'
+                      : 'The offline parser recognizes common date, time, flight and hotel formats on your device to extract:'}
                   </p>
                   <ul className="text-sm text-muted-foreground space-y-1 ml-4">
                     <li>• Trip title and destination</li>
@@ -242,73 +340,56 @@ Trip to Tokyo from March 15-22, 2024
               </Button>
             </div>
           </div>
-        ) : (
+        ) : matches ? (
           <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">{parsedTrip.title}</CardTitle>
-                <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                  <span>📍 {parsedTrip.destination}</span>
-                  <span>📅 {formatDate(parsedTrip.startDate)} - {formatDate(parsedTrip.endDate)}</span>
-                </div>
-              </CardHeader>
-            </Card>
-
-            <div className="space-y-3">
-              <h4 className="font-medium text-foreground">
-                Itinerary ({parsedTrip.entries.length} entries)
-              </h4>
-              <div className="space-y-3 max-h-60 overflow-y-auto">
-                {parsedTrip.entries.map((entry, index) => (
-                  <Card key={index} className="border-l-4 border-l-primary/20">
-                    <CardContent className="p-4">
-                      <div className="flex items-start justify-between gap-3">
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            <h5 className="font-medium text-foreground">{entry.title}</h5>
-                            <Badge className={getCategoryColor(entry.category)}>
-                              {entry.category}
-                            </Badge>
-                          </div>
-                          <div className="flex items-center gap-4 text-sm text-muted-foreground mb-2">
-                            <span>📅 {formatDate(entry.date)}</span>
-                            {entry.time && <span>🕐 {entry.time}</span>}
-                          </div>
-                          {entry.location && (
-                            <p className="text-sm text-muted-foreground mb-1">
-                              📍 {entry.location}
-                            </p>
-                          )}
-                          {entry.description && (
-                            <p className="text-sm text-muted-foreground">
-                              {entry.description}
-                            </p>
-                          )}
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+            <TripMergePreview matches={matches} selected={selected} onToggle={toggleMatch} />
+
+            <div className="flex gap-3 pt-4 border-t">
+              <Button
+                variant="outline"
+                onClick={() => setMatches(null)}
+                className="flex-1"
+              >
+                Back to Review
+              </Button>
+              <Button
+                onClick={handleMerge}
+                disabled={loading || selected.size === 0}
+                className="flex-1 bg-primary hover:bg-primary/90"
+              >
+                {loading
+                  ? 'Applying...'
+                  : `Apply ${selected.size} change${selected.size === 1 ? '' : 's'}`}
+              </Button>
             </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <ParsedTripReview
+              trip={parsedTrip}
+              issues={issues!}
+              onChange={setParsedTrip}
+              hideHeader={!!targetTrip}
+            />
 
             <div className="flex gap-3 pt-4 border-t">
               <Button
                 variant="outline"
-                onClick={() => {
-                  setParsedTrip(null)
-                  setText('')
-                }}
+                onClick={startOver}
                 className="flex-1"
               >
                 Start Over
               </Button>
               <Button
-                onClick={handleCreateTrip}
-                disabled={loading}
+                onClick={targetTrip ? handleCompare : handleCreateTrip}
+                disabled={loading || !!issues?.count}
                 className="flex-1 bg-primary hover:bg-primary/90"
               >
-                {loading ? 'Creating...' : 'Create Trip'}
+                {loading
+                  ? 'Creating...'
+                  : issues?.count
+                    ? `Fix ${issues.count} issue${issues.count === 1 ? '' : 's'} to continue`
+                    : targetTrip ? 'Compare with Trip' : 'Create Trip'}
               </Button>
             </div>
           </div>
@@ -0,0 +1,38 @@
+import { useMemo } from 'react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { getTimeZoneLabel } from '../../lib/dates'
+import { listTimeZones } from '../../lib/time-zones'
+
+interface TimeZoneSelectProps {
+  id?: string
+  value: string
+  onChange: (zone: string) => void
+}
+
+function formatZoneName(zone: string) {
+  return zone.replace(/_/g, ' ')
+}
+
+export function TimeZoneSelect({ id, value, onChange }: TimeZoneSelectProps) {
+  const zones = useMemo(() => {
+    const all = listTimeZones()
+    return value && !all.includes(value) ? [value, ...all] : all
+  }, [value])
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select time zone">
+          {value && `${formatZoneName(value)} (${getTimeZoneLabel(value)})`}
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        {zones.map(zone => (
+          <SelectItem key={zone} value={zone}>
+            {formatZoneName(zone)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
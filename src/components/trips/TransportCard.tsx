@@ -0,0 +1,146 @@
+import type { ReactNode } from 'react'
+import { ArrowRight, ExternalLink, MapPin, Navigation } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card } from '../ui/card'
+import type { TripEntry } from '../../lib/database'
+import { formatDate, formatTime } from '../../lib/dates'
+import { getDirectionsUrl, getGoogleMapsUrl } from '../../lib/maps'
+import { getTransportDirectionsUrl, getTransportMode } from '../../lib/transport'
+
+interface TransportCardProps {
+  entry: TripEntry
+  // Address of the entry before this one, for directions to the start point
+  previousAddress?: string
+  // Edit/delete menu shown in the header strip
+  actions?: ReactNode
+  className?: string
+  children?: ReactNode
+}
+
+interface LegEndProps {
+  label: string
+  place: string
+  date?: string
+  time?: string
+  align: 'left' | 'right'
+}
+
+function LegEnd({ label, place, date, time, align }: LegEndProps) {
+  return (
+    <div className={`min-w-0 ${align === 'right' ? 'text-right' : ''}`}>
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold text-foreground truncate">{place || '—'}</p>
+      {time && <p className="text-sm font-medium text-foreground">{formatTime(time)}</p>}
+      {date && <p className="text-xs text-muted-foreground">{formatDate(date, 'short')}</p>}
+    </div>
+  )
+}
+
+// An entry with entryType 'transport': a train, ferry or bus leg, or a car
+// rental from pick-up to drop-off
+export function TransportCard({ entry, previousAddress, actions, className = '', children }: TransportCardProps) {
+  const transport = entry.transport
+  const mode = getTransportMode(transport?.mode)
+  const Icon = mode.icon
+  const routeUrl = transport ? getTransportDirectionsUrl(transport) : null
+  const startPoint = transport?.originAddress || transport?.origin
+
+  return (
+    <Card className={`relative ${className}`}>
+      {children}
+      <div className="flex items-center justify-between gap-3 rounded-t-xl border-b bg-green-50 px-4 py-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon className="h-4 w-4 text-green-700 shrink-0" />
+          <span className="font-medium text-foreground truncate">
+            {transport?.carrier || mode.label}
+          </span>
+          {transport?.serviceNumber && (
+            <span className="font-mono text-sm text-muted-foreground">{transport.serviceNumber}</span>
+          )}
+          {transport?.carrier && (
+            <span className="text-sm text-muted-foreground">· {mode.label}</span>
+          )}
+        </div>
+        {actions}
+      </div>
+
+      <div className="px-4 py-4 space-y-3">
+        <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-4">
+          <LegEnd
+            label={mode.originLabel}
+            place={transport?.origin ?? entry.location ?? ''}
+            date={entry.date}
+            time={entry.startTime}
+            align="left"
+          />
+          <ArrowRight className="h-5 w-5 text-muted-foreground" />
+          <LegEnd
+            label={mode.destinationLabel}
+            place={transport?.destination ?? ''}
+            date={entry.endDate || (entry.endTime ? entry.date : undefined)}
+            time={entry.endTime}
+            align="right"
+          />
+        </div>
+
+        {(transport?.travelClass || transport?.seat || transport?.bookingReference) && (
+          <div className="flex flex-wrap gap-6 border-t border-dashed pt-3">
+            {transport?.travelClass && (
+              <div>
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                  {transport.mode === 'car' ? 'Car' : 'Class'}
+                </p>
+                <p className="text-sm text-foreground">{transport.travelClass}</p>
+              </div>
+            )}
+            {transport?.seat && (
+              <div>
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Seat</p>
+                <p className="font-mono text-sm font-medium text-foreground">{transport.seat}</p>
+              </div>
+            )}
+            {transport?.bookingReference && (
+              <div>
+                <p className="text-[10px] uppercase tracking-wide text-muted-foreground">Booking ref</p>
+                <p className="font-mono text-sm font-medium text-foreground">{transport.bookingReference}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {entry.description && (
+          <p className="text-sm text-muted-foreground">{entry.description}</p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {previousAddress && startPoint && previousAddress !== startPoint && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={getDirectionsUrl(previousAddress, startPoint)} target="_blank" rel="noopener noreferrer">
+                <Navigation className="h-3 w-3 mr-1" />
+                Directions to {mode.originLabel.toLowerCase()}
+                <ExternalLink className="h-3 w-3 ml-1" />
+              </a>
+            </Button>
+          )}
+          {routeUrl ? (
+            <Button variant="outline" size="sm" asChild>
+              <a href={routeUrl} target="_blank" rel="noopener noreferrer">
+                <Navigation className="h-3 w-3 mr-1" />
+                {transport?.mode === 'car' ? `${mode.originLabel} → ${mode.destinationLabel}` : 'Route'}
+                <ExternalLink className="h-3 w-3 ml-1" />
+              </a>
+            </Button>
+          ) : startPoint && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={getGoogleMapsUrl(startPoint)} target="_blank" rel="noopener noreferrer">
+                <MapPin className="h-3 w-3 mr-1" />
+                View on Maps
+                <ExternalLink className="h-3 w-3 ml-1" />
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,286 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Textarea } from '../ui/textarea'
+import { Label } from '../ui/label'
+import { ToggleGroup, ToggleGroupItem } from '../ui/toggle-group'
+import { TimeZoneSelect } from './TimeZoneSelect'
+import { DateField } from './DateField'
+import type { NewTripEntry, TransportMode, TripEntry } from '../../lib/database'
+import { parseDateKey, toDateKey } from '../../lib/dates'
+import { TRANSPORT_MODES, getTransportMode, getTransportTitle } from '../../lib/transport'
+
+const transportSchema = z.object({
+  mode: z.enum(['train', 'ferry', 'bus', 'car']),
+  carrier: z.string().optional(),
+  serviceNumber: z.string().optional(),
+  origin: z.string().min(1, 'Required'),
+  destination: z.string().optional(),
+  originAddress: z.string().optional(),
+  destinationAddress: z.string().optional(),
+  date: z.date({
+    error: 'Date is required',
+  }),
+  endDate: z.date().optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  timeZone: z.string().min(1, 'Time zone is required'),
+  endTimeZone: z.string().optional(),
+  travelClass: z.string().optional(),
+  seat: z.string().optional(),
+  bookingReference: z.string().optional(),
+  description: z.string().optional(),
+}).refine(data => data.mode === 'car' || !!data.destination?.trim(), {
+  message: 'Required',
+  path: ['destination'],
+}).refine(data => !data.endDate || toDateKey(data.endDate) >= toDateKey(data.date), {
+  message: 'Must be on or after the start date',
+  path: ['endDate'],
+})
+
+type TransportFormData = z.infer<typeof transportSchema>
+
+interface TransportFormProps {
+  entry?: TripEntry | null
+  defaultTimeZone: string
+  saving: boolean
+  onSubmit: (data: Omit<NewTripEntry, 'tripId' | 'userId'>) => void
+  onCancel: () => void
+}
+
+function toEntryData(data: TransportFormData): Omit<NewTripEntry, 'tripId' | 'userId'> {
+  const origin = data.origin.trim()
+  // A rental with no drop-off given goes back where it came from
+  const destination = data.destination?.trim() || origin
+  const transport = {
+    mode: data.mode,
+    carrier: data.carrier?.trim() || undefined,
+    serviceNumber: data.mode !== 'car' ? data.serviceNumber?.trim().toUpperCase() || undefined : undefined,
+    origin,
+    destination,
+    originAddress: data.originAddress?.trim() || undefined,
+    destinationAddress: data.destinationAddress?.trim() || undefined,
+    travelClass: data.travelClass?.trim() || undefined,
+    seat: data.mode !== 'car' ? data.seat?.trim().toUpperCase() || undefined : undefined,
+    bookingReference: data.bookingReference?.trim().toUpperCase() || undefined,
+  }
+  const date = toDateKey(data.date)
+  const endDate = data.endDate ? toDateKey(data.endDate) : ''
+  const endTimeZone = data.endTimeZone || data.timeZone
+
+  return {
+    entryType: 'transport',
+    title: getTransportTitle(transport),
+    category: 'transportation',
+    description: data.description || '',
+    // The start point, so maps and directions from the previous entry work
+    location: origin,
+    address: transport.originAddress || origin,
+    date,
+    endDate: endDate !== date ? endDate : '',
+    startTime: data.startTime || '',
+    endTime: data.endTime || '',
+    timeZone: data.timeZone,
+    endTimeZone: endTimeZone !== data.timeZone ? endTimeZone : '',
+    transport,
+  }
+}
+
+function toFormValues(entry: TripEntry | null | undefined, defaultTimeZone: string): Partial<TransportFormData> {
+  const transport = entry?.transport
+  return {
+    mode: transport?.mode ?? 'train',
+    carrier: transport?.carrier ?? '',
+    serviceNumber: transport?.serviceNumber ?? '',
+    origin: transport?.origin ?? '',
+    destination: transport?.destination ?? '',
+    originAddress: transport?.originAddress ?? '',
+    destinationAddress: transport?.destinationAddress ?? '',
+    date: entry ? parseDateKey(entry.date) : undefined,
+    endDate: entry?.endDate ? parseDateKey(entry.endDate) : undefined,
+    startTime: entry?.startTime ?? '',
+    endTime: entry?.endTime ?? '',
+    timeZone: entry?.timeZone || defaultTimeZone,
+    endTimeZone: entry?.endTimeZone || entry?.timeZone || defaultTimeZone,
+    travelClass: transport?.travelClass ?? '',
+    seat: transport?.seat ?? '',
+    bookingReference: transport?.bookingReference ?? '',
+    description: entry?.description ?? '',
+  }
+}
+
+export function TransportForm({ entry, defaultTimeZone, saving, onSubmit, onCancel }: TransportFormProps) {
+  const form = useForm<TransportFormData>({
+    resolver: zodResolver(transportSchema),
+    defaultValues: toFormValues(entry, defaultTimeZone),
+  })
+  const errors = form.formState.errors
+
+  const modeValue = form.watch('mode')
+  const mode = getTransportMode(modeValue)
+  const isRental = modeValue === 'car'
+
+  return (
+    <form onSubmit={form.handleSubmit(data => onSubmit(toEntryData(data)))} className="space-y-6">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={modeValue}
+        onValueChange={(value: string) => value && form.setValue('mode', value as TransportMode)}
+        className="justify-start flex-wrap"
+      >
+        {TRANSPORT_MODES.map(({ value, label, icon: Icon }) => (
+          <ToggleGroupItem key={value} value={value} className="gap-2">
+            <Icon className="h-4 w-4" />
+            {label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <div className={`grid gap-4 ${isRental ? 'grid-cols-1' : 'grid-cols-2'}`}>
+        <div className="space-y-2">
+          <Label htmlFor="carrier">{isRental ? 'Rental Company' : 'Operator'} (Optional)</Label>
+          <Input
+            id="carrier"
+            placeholder={isRental ? 'e.g., Hertz' : 'e.g., Deutsche Bahn'}
+            {...form.register('carrier')}
+          />
+        </div>
+
+        {!isRental && (
+          <div className="space-y-2">
+            <Label htmlFor="serviceNumber">{mode.label} Number (Optional)</Label>
+            <Input
+              id="serviceNumber"
+              placeholder="e.g., ICE 592"
+              {...form.register('serviceNumber')}
+              className="uppercase"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="origin">{mode.originLabel}</Label>
+            <Input
+              id="origin"
+              placeholder={isRental ? 'e.g., Naples Airport' : 'e.g., München Hbf'}
+              {...form.register('origin')}
+              className={errors.origin ? 'border-destructive' : ''}
+            />
+            {errors.origin && <p className="text-sm text-destructive">{errors.origin.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="originAddress">{mode.originLabel} Address (Optional)</Label>
+            <Input id="originAddress" placeholder="Street address for directions" {...form.register('originAddress')} />
+          </div>
+          <DateField
+            label={isRental ? 'Pick-up Date' : 'Departure Date'}
+            value={form.watch('date')}
+            placeholder="Pick a date"
+            error={errors.date?.message}
+            onChange={(date) => form.setValue('date', date!)}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="transport-startTime">{isRental ? 'Pick-up Time' : 'Departure Time'} (Optional)</Label>
+            <Input id="transport-startTime" type="time" {...form.register('startTime')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transport-timeZone">Time Zone</Label>
+            <TimeZoneSelect
+              id="transport-timeZone"
+              value={form.watch('timeZone') || ''}
+              onChange={(zone) => form.setValue('timeZone', zone)}
+            />
+            {errors.timeZone && <p className="text-sm text-destructive">{errors.timeZone.message}</p>}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="destination">{mode.destinationLabel}{isRental && ' (Optional)'}</Label>
+            <Input
+              id="destination"
+              placeholder={isRental ? 'Same as pick-up' : 'e.g., Berlin Hbf'}
+              {...form.register('destination')}
+              className={errors.destination ? 'border-destructive' : ''}
+            />
+            {errors.destination && <p className="text-sm text-destructive">{errors.destination.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="destinationAddress">{mode.destinationLabel} Address (Optional)</Label>
+            <Input id="destinationAddress" placeholder="Street address for directions" {...form.register('destinationAddress')} />
+          </div>
+          <DateField
+            label={isRental ? 'Drop-off Date (Optional)' : 'Arrival Date (Optional)'}
+            value={form.watch('endDate')}
+            placeholder="Same day"
+            error={errors.endDate?.message}
+            onChange={(date) => form.setValue('endDate', date)}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="transport-endTime">{isRental ? 'Drop-off Time' : 'Arrival Time'} (Optional)</Label>
+            <Input id="transport-endTime" type="time" {...form.register('endTime')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transport-endTimeZone">{isRental ? 'Drop-off' : 'Arrival'} Time Zone</Label>
+            <TimeZoneSelect
+              id="transport-endTimeZone"
+              value={form.watch('endTimeZone') || form.watch('timeZone') || ''}
+              onChange={(zone) => form.setValue('endTimeZone', zone)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className={`grid gap-4 ${isRental ? 'grid-cols-2' : 'grid-cols-3'}`}>
+        <div className="space-y-2">
+          <Label htmlFor="travelClass">{isRental ? 'Car Type' : 'Class'} (Optional)</Label>
+          <Input
+            id="travelClass"
+            placeholder={isRental ? 'e.g., Compact SUV' : 'e.g., 2nd class'}
+            {...form.register('travelClass')}
+          />
+        </div>
+        {!isRental && (
+          <div className="space-y-2">
+            <Label htmlFor="transport-seat">Seat (Optional)</Label>
+            <Input id="transport-seat" placeholder="e.g., Car 7, 45" {...form.register('seat')} className="uppercase" />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="transport-bookingReference">Booking Reference (Optional)</Label>
+          <Input
+            id="transport-bookingReference"
+            placeholder="e.g., Q8K2LM"
+            {...form.register('bookingReference')}
+            className="uppercase"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="transport-description">Notes (Optional)</Label>
+        <Textarea
+          id="transport-description"
+          placeholder={isRental ? 'Insurance, fuel policy...' : 'Platform, luggage rules...'}
+          rows={2}
+          {...form.register('description')}
+        />
+      </div>
+
+      <div className="flex gap-3 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving} className="flex-1 bg-primary hover:bg-primary/90">
+          {saving ? 'Saving...' : entry ? 'Save Changes' : 'Add Transport'}
+        </Button>
+      </div>
+    </form>
+  )
+}
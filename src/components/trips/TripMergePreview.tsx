@@ -0,0 +1,98 @@
+import { ArrowRight } from 'lucide-react'
+import { Badge } from '../ui/badge'
+import { Card, CardContent } from '../ui/card'
+import { Checkbox } from '../ui/checkbox'
+import type { EntryMatch, EntryMatchStatus } from '../../lib/trip-merge'
+
+interface TripMergePreviewProps {
+  matches: EntryMatch[]
+  selected: Set<string>
+  onToggle: (key: string, checked: boolean) => void
+}
+
+const STATUS_LABELS: Record<EntryMatchStatus, string> = {
+  new: 'New',
+  update: 'Update',
+  duplicate: 'Duplicate'
+}
+
+const STATUS_STYLES: Record<EntryMatchStatus, string> = {
+  new: 'bg-green-100 text-green-800 border-green-200',
+  update: 'bg-amber-100 text-amber-800 border-amber-200',
+  duplicate: 'bg-gray-100 text-gray-600 border-gray-200'
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  startTime: 'Start',
+  endTime: 'End',
+  location: 'Location',
+  description: 'Notes',
+  category: 'Category'
+}
+
+export function TripMergePreview({ matches, selected, onToggle }: TripMergePreviewProps) {
+  const counts = matches.reduce((totals, match) => {
+    totals[match.status] += 1
+    return totals
+  }, { new: 0, update: 0, duplicate: 0 } as Record<EntryMatchStatus, number>)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 text-sm">
+        {(Object.keys(STATUS_LABELS) as EntryMatchStatus[]).map(status => (
+          <Badge key={status} variant="outline" className={STATUS_STYLES[status]}>
+            {counts[status]} {STATUS_LABELS[status].toLowerCase()}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+        {matches.map(match => (
+          <Card key={match.key} className={match.status === 'duplicate' ? 'opacity-70' : ''}>
+            <CardContent className="p-4 flex items-start gap-3">
+              <Checkbox
+                checked={selected.has(match.key)}
+                disabled={match.status === 'duplicate'}
+                onCheckedChange={(checked) => onToggle(match.key, checked === true)}
+                aria-label={`Apply ${match.incoming.title}`}
+                className="mt-1"
+              />
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <h5 className="font-medium text-foreground">{match.incoming.title}</h5>
+                  <Badge variant="outline" className={STATUS_STYLES[match.status]}>
+                    {STATUS_LABELS[match.status]}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {match.incoming.date}
+                  {match.incoming.startTime && ` · ${match.incoming.startTime}`}
+                  {match.incoming.location && ` · ${match.incoming.location}`}
+                </p>
+                {match.existing && match.status === 'duplicate' && (
+                  <p className="text-xs text-muted-foreground">
+                    Already on the trip as "{match.existing.title}"
+                  </p>
+                )}
+                {match.existing && match.changes && (
+                  <ul className="text-xs space-y-0.5 pt-1">
+                    {Object.entries(match.changes).map(([field, value]) => (
+                      <li key={field} className="flex items-center gap-1 text-muted-foreground">
+                        <span className="font-medium text-foreground">{FIELD_LABELS[field] ?? field}:</span>
+                        <span className="line-through">
+                          {String(match.existing![field as keyof typeof match.changes] || '—')}
+                        </span>
+                        <ArrowRight className="h-3 w-3" />
+                        <span className="text-foreground">{value}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { Fragment } from 'react'
+import { ChevronRight } from 'lucide-react'
+import type { TripLeg } from '../../lib/database'
+import { formatDate } from '../../lib/dates'
+import { formatLegPlace, sortLegs } from '../../lib/legs'
+
+interface TripRouteProps {
+  legs: TripLeg[]
+  // Leg to highlight, e.g. the one a selected day falls in
+  activeLegId?: string
+}
+
+export function TripRoute({ legs, activeLegId }: TripRouteProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {sortLegs(legs).map((leg, index) => (
+        <Fragment key={leg.id}>
+          {index > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+          <div
+            className={`rounded-lg border px-3 py-1.5 text-sm ${
+              leg.id === activeLegId ? 'border-primary bg-primary/10' : 'bg-muted/40'
+            }`}
+          >
+            <span className="font-medium text-foreground">{formatLegPlace(leg)}</span>
+            <span className="ml-2 text-xs text-muted-foreground">
+              {formatDate(leg.arrivalDate, 'short')} - {formatDate(leg.departureDate, 'short')}
+            </span>
+          </div>
+        </Fragment>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+import { Fragment, useState, type ReactNode } from 'react'
+import { ExternalLink, MapPin, Navigation } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent } from '../ui/card'
+import { CategoryBadge } from './CategoryBadge'
+import { EntryTime } from './EntryTime'
+import { FlightCard } from './FlightCard'
+import { StayCard } from './StayCard'
+import { TransportCard } from './TransportCard'
+import { SleepingTonight } from './SleepingTonight'
+import { ScheduleIssues } from './ScheduleIssues'
+import { FreeTimeBlock } from './FreeTimeBlock'
+import { DraggableEntry, DroppableDay, EntryDndContext } from '../calendar/DragAndDrop'
+import type { Trip, TripEntry } from '../../lib/database'
+import { addDaysToKey, formatDate } from '../../lib/dates'
+import { getTripTimeZone } from '../../lib/time-zones'
+import { getDirectionsUrl, getGoogleMapsUrl } from '../../lib/maps'
+import { listStayDays } from '../../lib/stays'
+import { findLegForDate } from '../../lib/legs'
+import { CHANGE_HIGHLIGHT_CLASS } from '../../lib/realtime'
+import type { ScheduleIssue } from '../../lib/schedule-check'
+import type { FreeTimeGap } from '../../lib/free-time'
+
+interface TripTimelineProps {
+  trip: Trip
+  entries: TripEntry[]
+  // Menus shown beside each entry; left out on read-only views
+  renderActions?: (entry: TripEntry) => ReactNode
+  // Entries to draw attention to, such as ones a collaborator just changed
+  highlightedIds?: ReadonlySet<string>
+  // Lets entries be dragged to another day; left out where editing isn't allowed
+  onMoveEntry?: (entry: TripEntry, date: string) => void
+  // Schedule problems, shown under the day they're on
+  issuesByDate?: Record<string, ScheduleIssue[]>
+  // Unplanned time, shown between the entries either side of it
+  gapsByDate?: Record<string, FreeTimeGap[]>
+  onFillGap?: (gap: FreeTimeGap) => void
+}
+
+function groupEntriesByDate(entries: TripEntry[]) {
+  return entries.reduce((groups, entry) => {
+    const date = entry.date
+    if (!groups[date]) {
+      groups[date] = []
+    }
+    groups[date].push(entry)
+    return groups
+  }, {} as Record<string, TripEntry[]>)
+}
+
+export function TripTimeline({
+  trip,
+  entries,
+  renderActions,
+  highlightedIds,
+  onMoveEntry,
+  issuesByDate = {},
+  gapsByDate = {},
+  onFillGap
+}: TripTimelineProps) {
+  const [dragging, setDragging] = useState(false)
+  const tripTimeZone = getTripTimeZone(trip)
+  const groupedEntries = groupEntriesByDate(entries)
+  // Nights in the middle of a stay get a day of their own
+  for (const day of listStayDays(entries)) {
+    groupedEntries[day] ??= []
+  }
+  // Nights with nowhere to stay, for one, may have nothing else planned
+  for (const day of Object.keys(issuesByDate)) {
+    groupedEntries[day] ??= []
+  }
+  // Free days are worth showing too, to plan them
+  for (const day of Object.keys(gapsByDate)) {
+    groupedEntries[day] ??= []
+  }
+  // While dragging, every day of the trip is somewhere to drop
+  if (dragging) {
+    for (let day = trip.startDate; day <= trip.endDate; day = addDaysToKey(day, 1)) {
+      groupedEntries[day] ??= []
+    }
+  }
+  const sortedDates = Object.keys(groupedEntries).sort()
+  const highlight = (entry: TripEntry) => (highlightedIds?.has(entry.id) ? CHANGE_HIGHLIGHT_CLASS : '')
+  const renderGaps = (gaps: FreeTimeGap[]) => gaps.map(gap => (
+    <FreeTimeBlock key={gap.id} gap={gap} onFill={onFillGap} />
+  ))
+
+  const timeline = (
+    <div className="space-y-6">
+      {sortedDates.map((date) => (
+        <DroppableDay key={date} date={date} className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="w-3 h-3 bg-primary rounded-full"></div>
+            <h3 className="text-lg font-semibold text-foreground">
+              {formatDate(date, 'full')}
+            </h3>
+            {findLegForDate(trip.legs, date) && (
+              <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                <MapPin className="h-3 w-3" />
+                {findLegForDate(trip.legs, date)!.city}
+              </span>
+            )}
+          </div>
+
+          <SleepingTonight entries={entries} date={date} />
+          <ScheduleIssues issues={issuesByDate[date]} className="ml-6" />
+          
+          <div className="ml-6 min-h-[2rem] space-y-3 border-l-2 border-border pl-6">
+            {groupedEntries[date]
+              .sort((a, b) => (a.startTime || '').localeCompare(b.startTime || ''))
+              .map((entry, index) => (
+                <Fragment key={entry.id}>
+                  {renderGaps((gapsByDate[date] ?? []).filter(gap => !gap.before && gap.after?.id === entry.id))}
+                  <DraggableEntry entry={entry} disabled={!onMoveEntry}>
+                    {entry.entryType === 'stay' ? (
+                      <StayCard entry={entry} actions={renderActions?.(entry)} className={highlight(entry)}>
+                        <div className="absolute -left-8 top-6 w-3 h-3 bg-background border-2 border-primary rounded-full"></div>
+                      </StayCard>
+                    ) : entry.entryType === 'transport' ? (
+                      <TransportCard
+                        entry={entry}
+                        previousAddress={index > 0 ? groupedEntries[date][index - 1].address : undefined}
+                        actions={renderActions?.(entry)}
+                        className={highlight(entry)}
+                      >
+                        <div className="absolute -left-8 top-6 w-3 h-3 bg-background border-2 border-primary rounded-full"></div>
+                      </TransportCard>
+                    ) : entry.entryType === 'flight' ? (
+                      <FlightCard
+                        entry={entry}
+                        fallbackTimeZone={tripTimeZone}
+                        actions={renderActions?.(entry)}
+                        className={highlight(entry)}
+                      >
+                        <div className="absolute -left-8 top-6 w-3 h-3 bg-background border-2 border-primary rounded-full"></div>
+                      </FlightCard>
+                    ) : (
+                      <Card className={`relative ${highlight(entry)}`}>
+                        <div className="absolute -left-8 top-6 w-3 h-3 bg-background border-2 border-primary rounded-full"></div>
+                        <CardContent className="p-4">
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="flex-1">
+                              <div className="flex items-center gap-2 mb-2">
+                                <h4 className="font-medium text-foreground">{entry.title}</h4>
+                                <CategoryBadge category={entry.category} />
+                              </div>
+                        
+                              <EntryTime entry={entry} fallbackTimeZone={tripTimeZone} className="mb-2" />
+                        
+                              {entry.location && (
+                                <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                                  <MapPin className="h-4 w-4" />
+                                  <span>{entry.location}</span>
+                                </div>
+                              )}
+                        
+                              {entry.description && (
+                                <p className="text-sm text-muted-foreground mb-3">
+                                  {entry.description}
+                                </p>
+                              )}
+                        
+                              <div className="flex gap-2">
+                                {entry.address && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    asChild
+                                  >
+                                    <a
+                                      href={getGoogleMapsUrl(entry.address, entry.location)}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                    >
+                                      <MapPin className="h-3 w-3 mr-1" />
+                                      View on Maps
+                                      <ExternalLink className="h-3 w-3 ml-1" />
+                                    </a>
+                                  </Button>
+                                )}
+                          
+                                {index > 0 && groupedEntries[date][index - 1].address && entry.address && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    asChild
+                                  >
+                                    <a
+                                      href={getDirectionsUrl(
+                                        groupedEntries[date][index - 1].address!,
+                                        entry.address
+                                      )}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                    >
+                                      <Navigation className="h-3 w-3 mr-1" />
+                                      Directions
+                                      <ExternalLink className="h-3 w-3 ml-1" />
+                                    </a>
+                                  </Button>
+                                )}
+                              </div>
+                            </div>
+                      
+                            {renderActions?.(entry)}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    )}
+                  </DraggableEntry>
+                  {renderGaps((gapsByDate[date] ?? []).filter(gap => gap.before?.id === entry.id))}
+                </Fragment>
+              ))}
+            {renderGaps((gapsByDate[date] ?? []).filter(gap => !gap.before && !gap.after))}
+          </div>
+        </DroppableDay>
+      ))}
+    </div>
+  )
+
+  if (!onMoveEntry) return timeline
+
+  return (
+    <EntryDndContext onDrop={(entry, target) => onMoveEntry(entry, target.date)} onDraggingChange={setDragging}>
+      {timeline}
+    </EntryDndContext>
+  )
+}
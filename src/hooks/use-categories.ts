@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { getCategories, subscribeCategories } from '../lib/categories'
+
+// Built-in plus the user's custom categories, re-rendering when they change
+export function useCategories() {
+  return useSyncExternalStore(subscribeCategories, getCategories)
+}
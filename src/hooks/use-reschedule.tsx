@@ -0,0 +1,83 @@
+import { useCallback, useState } from 'react'
+import { ToastAction } from '../components/ui/toast'
+import { useToast } from './use-toast'
+import { DatabaseService, type Trip, type TripEntry } from '../lib/database'
+import { ConflictError } from '../lib/repositories'
+import { PermissionError } from '../lib/sharing'
+import { describeMove, getMoveUndo, isMoveNoop, isWithinTrip, type EntryMove } from '../lib/reschedule'
+
+export interface RescheduleRequest {
+  entry: TripEntry
+  move: EntryMove
+  // The entry's trip, to catch drops outside its dates
+  trip?: Pick<Trip, 'title' | 'startDate' | 'endDate'>
+}
+
+function describeError(error: unknown) {
+  if (error instanceof ConflictError) return 'It was changed elsewhere in the meantime. Reload and try again.'
+  if (error instanceof PermissionError) return 'You no longer have permission to change this trip.'
+  return 'Failed to save the new time. Please try again.'
+}
+
+// Saves dragged entries through the data layer with an undo toast. The
+// entry is moved on screen straight away via `onSaved` and put back if the
+// write fails. Drops outside the trip's dates wait in `outOfRange` until
+// the user confirms or cancels them.
+export function useReschedule(onSaved: (entry: TripEntry) => void) {
+  const [outOfRange, setOutOfRange] = useState<RescheduleRequest | null>(null)
+  const { toast } = useToast()
+
+  const undo = useCallback(async (saved: TripEntry, previous: EntryMove) => {
+    onSaved({ ...saved, ...previous })
+    try {
+      onSaved(await DatabaseService.updateTripEntry(saved.id, previous, { ifUpdatedAt: saved.updatedAt ?? null }))
+    } catch (error) {
+      console.error('Failed to undo move:', error)
+      onSaved(saved)
+      toast({ title: 'Undo failed', description: describeError(error), variant: 'destructive' })
+    }
+  }, [onSaved, toast])
+
+  const save = useCallback(async ({ entry, move }: RescheduleRequest) => {
+    onSaved({ ...entry, ...move })
+    try {
+      const saved = await DatabaseService.updateTripEntry(entry.id, move, { ifUpdatedAt: entry.updatedAt ?? null })
+      onSaved(saved)
+      const previous = getMoveUndo(entry, move)
+      toast({
+        title: `Moved ${entry.title}`,
+        description: `Now ${describeMove(saved)}.`,
+        action: (
+          <ToastAction altText="Undo move" onClick={() => undo(saved, previous)}>
+            Undo
+          </ToastAction>
+        )
+      })
+    } catch (error) {
+      console.error('Failed to move entry:', error)
+      onSaved(entry)
+      toast({ title: `Couldn't move ${entry.title}`, description: describeError(error), variant: 'destructive' })
+    }
+  }, [onSaved, toast, undo])
+
+  const reschedule = useCallback((request: RescheduleRequest) => {
+    if (isMoveNoop(request.entry, request.move)) return
+    if (request.trip && !isWithinTrip(request.trip, request.entry, request.move)) {
+      setOutOfRange(request)
+      return
+    }
+    save(request)
+  }, [save])
+
+  const confirmOutOfRange = () => {
+    if (outOfRange) save(outOfRange)
+    setOutOfRange(null)
+  }
+
+  return {
+    reschedule,
+    outOfRange,
+    confirmOutOfRange,
+    cancelOutOfRange: () => setOutOfRange(null)
+  }
+}
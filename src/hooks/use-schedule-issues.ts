@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import type { Trip, TripEntry } from '../lib/database'
+import { geocodePlaces, isGeocodingEnabled, subscribeGeocodingSetting, type Coordinates } from '../lib/geocoding'
+import { analyzeSchedule, getPlaceQuery } from '../lib/schedule-check'
+
+// Checks a trip's schedule as it changes. Everything but travel times is
+// known straight away; those follow once the entries' places are found,
+// which only goes beyond places already cached when the user allows it.
+export function useScheduleIssues(trip: Trip | null, entries: TripEntry[]) {
+  const [coordinates, setCoordinates] = useState<Map<string, Coordinates>>(new Map())
+  const geocodingEnabled = useSyncExternalStore(subscribeGeocodingSetting, isGeocodingEnabled)
+
+  const places = useMemo(() => {
+    if (!trip) return ''
+    const queries = entries.map(entry => getPlaceQuery(trip, entry)).filter((query): query is string => !!query)
+    return JSON.stringify([...new Set(queries)].sort())
+  }, [trip, entries])
+
+  useEffect(() => {
+    const queries: string[] = places ? JSON.parse(places) : []
+    if (queries.length === 0) return
+    let cancelled = false
+    geocodePlaces(queries)
+      .then(found => !cancelled && setCoordinates(found))
+      .catch(error => console.error('Failed to place trip entries:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [places, geocodingEnabled])
+
+  return useMemo(
+    () => (trip ? analyzeSchedule(trip, entries, coordinates) : []),
+    [trip, entries, coordinates]
+  )
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react'
+import { DatabaseService } from '../lib/database'
+import type { TripChange } from '../lib/realtime'
+
+// How long a record someone else touched stays highlighted
+const HIGHLIGHT_MS = 8000
+
+// Feeds live changes to a trip into `onChange` and returns the records
+// touched recently, keyed by record id, for highlighting and attribution
+export function useTripChanges(tripId: string | undefined, onChange: (change: TripChange) => void) {
+  const [highlights, setHighlights] = useState<Record<string, TripChange>>({})
+  const onChangeRef = useRef(onChange)
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  })
+
+  useEffect(() => {
+    if (!tripId) return
+    const timers = new Map<string, ReturnType<typeof setTimeout>>()
+
+    const unhighlight = (recordId: string) => {
+      timers.delete(recordId)
+      setHighlights(prev => {
+        const next = { ...prev }
+        delete next[recordId]
+        return next
+      })
+    }
+
+    const unsubscribe = DatabaseService.subscribeTripChanges(tripId, change => {
+      onChangeRef.current(change)
+      const recordId = change.record.id
+      clearTimeout(timers.get(recordId))
+      if (change.kind === 'deleted') {
+        unhighlight(recordId)
+        return
+      }
+      setHighlights(prev => ({ ...prev, [recordId]: change }))
+      timers.set(recordId, setTimeout(() => unhighlight(recordId), HIGHLIGHT_MS))
+    })
+
+    return () => {
+      unsubscribe()
+      timers.forEach(timer => clearTimeout(timer))
+      setHighlights({})
+    }
+  }, [tripId])
+
+  return highlights
+}
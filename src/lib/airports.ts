@@ -0,0 +1,76 @@
+export interface Airport {
+  code: string
+  name: string
+  city: string
+  timeZone: string
+}
+
+// Busy airports, enough to fill in names and zones for most bookings.
+// Anything else can still be entered by code with a zone picked by hand.
+const AIRPORT_LIST: Airport[] = [
+  { code: 'AMS', name: 'Schiphol', city: 'Amsterdam', timeZone: 'Europe/Amsterdam' },
+  { code: 'ATH', name: 'Athens International', city: 'Athens', timeZone: 'Europe/Athens' },
+  { code: 'ATL', name: 'Hartsfield-Jackson', city: 'Atlanta', timeZone: 'America/New_York' },
+  { code: 'BCN', name: 'El Prat', city: 'Barcelona', timeZone: 'Europe/Madrid' },
+  { code: 'BER', name: 'Brandenburg', city: 'Berlin', timeZone: 'Europe/Berlin' },
+  { code: 'BKK', name: 'Suvarnabhumi', city: 'Bangkok', timeZone: 'Asia/Bangkok' },
+  { code: 'BOS', name: 'Logan', city: 'Boston', timeZone: 'America/New_York' },
+  { code: 'CDG', name: 'Charles de Gaulle', city: 'Paris', timeZone: 'Europe/Paris' },
+  { code: 'CPH', name: 'Kastrup', city: 'Copenhagen', timeZone: 'Europe/Copenhagen' },
+  { code: 'CUN', name: 'Cancún International', city: 'Cancún', timeZone: 'America/Cancun' },
+  { code: 'DEN', name: 'Denver International', city: 'Denver', timeZone: 'America/Denver' },
+  { code: 'DFW', name: 'Dallas/Fort Worth', city: 'Dallas', timeZone: 'America/Chicago' },
+  { code: 'DPS', name: 'Ngurah Rai', city: 'Bali', timeZone: 'Asia/Makassar' },
+  { code: 'DUB', name: 'Dublin', city: 'Dublin', timeZone: 'Europe/Dublin' },
+  { code: 'DXB', name: 'Dubai International', city: 'Dubai', timeZone: 'Asia/Dubai' },
+  { code: 'EWR', name: 'Newark Liberty', city: 'Newark', timeZone: 'America/New_York' },
+  { code: 'FCO', name: 'Fiumicino', city: 'Rome', timeZone: 'Europe/Rome' },
+  { code: 'FRA', name: 'Frankfurt', city: 'Frankfurt', timeZone: 'Europe/Berlin' },
+  { code: 'GRU', name: 'Guarulhos', city: 'São Paulo', timeZone: 'America/Sao_Paulo' },
+  { code: 'HKG', name: 'Hong Kong International', city: 'Hong Kong', timeZone: 'Asia/Hong_Kong' },
+  { code: 'HND', name: 'Haneda', city: 'Tokyo', timeZone: 'Asia/Tokyo' },
+  { code: 'HNL', name: 'Daniel K. Inouye', city: 'Honolulu', timeZone: 'Pacific/Honolulu' },
+  { code: 'IAD', name: 'Dulles', city: 'Washington', timeZone: 'America/New_York' },
+  { code: 'ICN', name: 'Incheon', city: 'Seoul', timeZone: 'Asia/Seoul' },
+  { code: 'IST', name: 'Istanbul', city: 'Istanbul', timeZone: 'Europe/Istanbul' },
+  { code: 'JFK', name: 'John F. Kennedy', city: 'New York', timeZone: 'America/New_York' },
+  { code: 'KIX', name: 'Kansai', city: 'Osaka', timeZone: 'Asia/Tokyo' },
+  { code: 'LAS', name: 'Harry Reid', city: 'Las Vegas', timeZone: 'America/Los_Angeles' },
+  { code: 'LAX', name: 'Los Angeles International', city: 'Los Angeles', timeZone: 'America/Los_Angeles' },
+  { code: 'LGA', name: 'LaGuardia', city: 'New York', timeZone: 'America/New_York' },
+  { code: 'LGW', name: 'Gatwick', city: 'London', timeZone: 'Europe/London' },
+  { code: 'LHR', name: 'Heathrow', city: 'London', timeZone: 'Europe/London' },
+  { code: 'LIS', name: 'Humberto Delgado', city: 'Lisbon', timeZone: 'Europe/Lisbon' },
+  { code: 'MAD', name: 'Barajas', city: 'Madrid', timeZone: 'Europe/Madrid' },
+  { code: 'MEX', name: 'Benito Juárez', city: 'Mexico City', timeZone: 'America/Mexico_City' },
+  { code: 'MIA', name: 'Miami International', city: 'Miami', timeZone: 'America/New_York' },
+  { code: 'MUC', name: 'Munich', city: 'Munich', timeZone: 'Europe/Berlin' },
+  { code: 'MXP', name: 'Malpensa', city: 'Milan', timeZone: 'Europe/Rome' },
+  { code: 'NRT', name: 'Narita', city: 'Tokyo', timeZone: 'Asia/Tokyo' },
+  { code: 'ORD', name: "O'Hare", city: 'Chicago', timeZone: 'America/Chicago' },
+  { code: 'ORY', name: 'Orly', city: 'Paris', timeZone: 'Europe/Paris' },
+  { code: 'PEK', name: 'Capital International', city: 'Beijing', timeZone: 'Asia/Shanghai' },
+  { code: 'PVG', name: 'Pudong', city: 'Shanghai', timeZone: 'Asia/Shanghai' },
+  { code: 'SEA', name: 'Seattle-Tacoma', city: 'Seattle', timeZone: 'America/Los_Angeles' },
+  { code: 'SFO', name: 'San Francisco International', city: 'San Francisco', timeZone: 'America/Los_Angeles' },
+  { code: 'SIN', name: 'Changi', city: 'Singapore', timeZone: 'Asia/Singapore' },
+  { code: 'SYD', name: 'Kingsford Smith', city: 'Sydney', timeZone: 'Australia/Sydney' },
+  { code: 'VIE', name: 'Vienna International', city: 'Vienna', timeZone: 'Europe/Vienna' },
+  { code: 'YVR', name: 'Vancouver International', city: 'Vancouver', timeZone: 'America/Vancouver' },
+  { code: 'YYZ', name: 'Pearson', city: 'Toronto', timeZone: 'America/Toronto' },
+  { code: 'ZRH', name: 'Zurich', city: 'Zurich', timeZone: 'Europe/Zurich' }
+]
+
+const AIRPORTS = new Map(AIRPORT_LIST.map(airport => [airport.code, airport]))
+
+export function normalizeIataCode(code: string) {
+  return code.trim().toUpperCase().slice(0, 3)
+}
+
+export function isIataCode(code: string) {
+  return /^[A-Z]{3}$/.test(code)
+}
+
+export function findAirport(code?: string | null): Airport | undefined {
+  return code ? AIRPORTS.get(normalizeIataCode(code)) : undefined
+}
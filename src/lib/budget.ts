@@ -0,0 +1,84 @@
+import type { Expense, TripBudget } from './database'
+import { convertAmount } from './currency'
+import { normalizeCategory } from './categories'
+
+export interface CategorySpending {
+  category: string
+  planned: number
+  spent: number
+}
+
+export interface DailySpending {
+  date: string
+  spent: number
+  // Running total up to and including this day
+  cumulative: number
+}
+
+export interface BudgetSummary {
+  currency: string
+  // Explicit total, or the category plans added up
+  planned: number
+  spent: number
+  byCategory: CategorySpending[]
+  byDay: DailySpending[]
+  // Expenses in a currency with no rate yet; left out of every total
+  unconverted: Expense[]
+}
+
+export function getPlannedTotal(budget: TripBudget): number {
+  if (budget.total && budget.total > 0) return budget.total
+  return Object.values(budget.categories).reduce((sum, amount) => sum + amount, 0)
+}
+
+export function summarizeBudget(budget: TripBudget, expenses: Expense[]): BudgetSummary {
+  const spentByCategory = new Map<string, number>()
+  const spentByDay = new Map<string, number>()
+  const unconverted: Expense[] = []
+  let spent = 0
+
+  for (const expense of expenses) {
+    const amount = convertAmount(expense.amount, expense.currency, budget.currency, budget.rates)
+    if (amount === null) {
+      unconverted.push(expense)
+      continue
+    }
+    const category = normalizeCategory(expense.category)
+    spent += amount
+    spentByCategory.set(category, (spentByCategory.get(category) ?? 0) + amount)
+    spentByDay.set(expense.date, (spentByDay.get(expense.date) ?? 0) + amount)
+  }
+
+  const categories = new Set([...Object.keys(budget.categories), ...spentByCategory.keys()])
+  const byCategory = [...categories]
+    .map(category => ({
+      category,
+      planned: budget.categories[category] ?? 0,
+      spent: spentByCategory.get(category) ?? 0
+    }))
+    .sort((a, b) => Math.max(b.planned, b.spent) - Math.max(a.planned, a.spent))
+
+  let cumulative = 0
+  const byDay = [...spentByDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, amount]) => {
+      cumulative += amount
+      return { date, spent: amount, cumulative }
+    })
+
+  return {
+    currency: budget.currency,
+    planned: getPlannedTotal(budget),
+    spent,
+    byCategory,
+    byDay,
+    unconverted
+  }
+}
+
+// Foreign currencies used by expenses, so the rates form can ask for them
+export function listForeignCurrencies(budget: TripBudget, expenses: Expense[]): string[] {
+  const currencies = new Set(expenses.map(expense => expense.currency))
+  currencies.delete(budget.currency)
+  return [...currencies].sort()
+}
@@ -0,0 +1,201 @@
+import { eachDayOfInterval, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from 'date-fns'
+import { toDateKey } from './dates'
+import type { Trip, TripEntry } from './database'
+import { isStay } from './stays'
+
+// Tailwind only ships classes it can see, so each trip colour spells out the
+// band drawn behind its days, the chips of its entries and its dot
+export const TRIP_COLORS = {
+  blue: { band: 'bg-blue-50 border-blue-200', chip: 'bg-blue-100 text-blue-800', dot: 'bg-blue-500' },
+  green: { band: 'bg-green-50 border-green-200', chip: 'bg-green-100 text-green-800', dot: 'bg-green-500' },
+  purple: { band: 'bg-purple-50 border-purple-200', chip: 'bg-purple-100 text-purple-800', dot: 'bg-purple-500' },
+  orange: { band: 'bg-orange-50 border-orange-200', chip: 'bg-orange-100 text-orange-800', dot: 'bg-orange-500' },
+  pink: { band: 'bg-pink-50 border-pink-200', chip: 'bg-pink-100 text-pink-800', dot: 'bg-pink-500' },
+  teal: { band: 'bg-teal-50 border-teal-200', chip: 'bg-teal-100 text-teal-800', dot: 'bg-teal-500' }
+} as const
+
+export type TripColor = keyof typeof TRIP_COLORS
+
+const TRIP_COLOR_NAMES = Object.keys(TRIP_COLORS) as TripColor[]
+
+// Trips don't store a colour, so one is derived from the id; it stays the
+// same from month to month and across devices
+export function getTripColor(tripId: string): TripColor {
+  let hash = 0
+  for (const char of tripId) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return TRIP_COLOR_NAMES[Math.abs(hash) % TRIP_COLOR_NAMES.length]
+}
+
+// An entry as the calendar shows it, next to entries of other trips
+export interface CalendarEntry extends TripEntry {
+  tripTitle: string
+  tripColor: TripColor
+}
+
+export function toCalendarEntries(trips: Trip[], entries: TripEntry[]): CalendarEntry[] {
+  const tripsById = new Map(trips.map(trip => [trip.id, trip]))
+  return entries.flatMap(entry => {
+    const trip = tripsById.get(entry.tripId)
+    return trip ? [{ ...entry, tripTitle: trip.title, tripColor: getTripColor(trip.id) }] : []
+  })
+}
+
+export interface CalendarRange {
+  // Cache key for the range, e.g. "2024-03"
+  key: string
+  start: string
+  end: string
+}
+
+export function getMonthRange(date: Date): CalendarRange {
+  return {
+    key: format(date, 'yyyy-MM'),
+    start: toDateKey(startOfMonth(date)),
+    end: toDateKey(endOfMonth(date))
+  }
+}
+
+// Months the given days fall in, each once, for loading what a view shows
+export function getMonthRanges(days: Date[]): CalendarRange[] {
+  const ranges = new Map(days.map(day => {
+    const range = getMonthRange(day)
+    return [range.key, range] as const
+  }))
+  return [...ranges.values()]
+}
+
+// Sunday to Saturday, like the month grid
+export function getWeekDays(date: Date): Date[] {
+  return eachDayOfInterval({ start: startOfWeek(date), end: endOfWeek(date) })
+}
+
+// Both ends inclusive; entries without an endDate (unset or cleared to an
+// empty string) cover just their date
+export function overlapsRange(start: string, end: string | undefined, range: Pick<CalendarRange, 'start' | 'end'>) {
+  return start <= range.end && (end || start) >= range.start
+}
+
+export interface TripBand {
+  trip: Trip
+  // 0-based columns within the week, inclusive
+  startColumn: number
+  endColumn: number
+  // The trip carries on from the previous week / into the next one
+  continuesBefore: boolean
+  continuesAfter: boolean
+  // Row among the week's bands, so overlapping trips share the height
+  lane: number
+}
+
+// Cuts each trip's start-to-end span into per-week bands. `week` is the
+// week's seven day keys, with null for padding days outside the month.
+export function layoutTripBands(trips: Trip[], week: Array<string | null>): TripBand[] {
+  const days = week.filter((day): day is string => day !== null)
+  if (days.length === 0) return []
+  const first = days[0]
+  const last = days[days.length - 1]
+
+  const bands: TripBand[] = []
+  const laneEnds: number[] = []
+  const visible = trips
+    .filter(trip => overlapsRange(trip.startDate, trip.endDate, { start: first, end: last }))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate) || b.endDate.localeCompare(a.endDate))
+
+  for (const trip of visible) {
+    const startColumn = week.indexOf(trip.startDate < first ? first : trip.startDate)
+    const endColumn = week.indexOf(trip.endDate > last ? last : trip.endDate)
+
+    let lane = laneEnds.findIndex(end => end < startColumn)
+    if (lane === -1) lane = laneEnds.length
+    laneEnds[lane] = endColumn
+
+    bands.push({
+      trip,
+      startColumn,
+      endColumn,
+      continuesBefore: trip.startDate < first,
+      continuesAfter: trip.endDate > last,
+      lane
+    })
+  }
+  return bands
+}
+
+// Hourly grid
+
+export const MINUTES_PER_DAY = 24 * 60
+
+// Entries with a start but no end are drawn an hour long
+const DEFAULT_DURATION_MINUTES = 60
+
+// Shorter entries are drawn, and overlap, as if they took this long, so
+// their title still fits
+const MIN_SLOT_MINUTES = 30
+
+// "14:30" -> 870
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
+
+// Entries that sit in the hourly grid on `dateKey`; stays and entries
+// without a start time go in the all-day lane instead
+export function getTimedEntries<T extends CalendarEntry>(entries: T[], dateKey: string): T[] {
+  return entries.filter(entry => entry.date === dateKey && !!entry.startTime && !isStay(entry))
+}
+
+export function getAllDayEntries<T extends CalendarEntry>(entries: T[], dateKey: string): T[] {
+  return entries.filter(entry => isStay(entry)
+    ? entry.date <= dateKey && dateKey <= entry.endDate
+    : entry.date === dateKey && !entry.startTime)
+}
+
+export interface TimeSlot<T> {
+  entry: T
+  // Minutes since midnight
+  start: number
+  end: number
+  // Side-by-side position among the entries it overlaps
+  column: number
+  columns: number
+}
+
+// Places a day's timed entries in the grid. Entries that overlap, directly
+// or through a chain of others, share the width in columns.
+export function layoutTimeSlots<T extends CalendarEntry>(entries: T[]): TimeSlot<T>[] {
+  const slots = entries
+    .filter(entry => entry.startTime)
+    .map(entry => {
+      const start = toMinutes(entry.startTime!)
+      let end = entry.endTime ? toMinutes(entry.endTime) : start + DEFAULT_DURATION_MINUTES
+      // Overnight entries run to the bottom of their first day
+      if ((entry.endDate && entry.endDate > entry.date) || end <= start) end = MINUTES_PER_DAY
+      return {
+        entry,
+        start,
+        end: Math.min(MINUTES_PER_DAY, Math.max(end, start + MIN_SLOT_MINUTES)),
+        column: 0,
+        columns: 1
+      }
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+
+  let cluster: TimeSlot<T>[] = []
+  let columnEnds: number[] = []
+  const closeCluster = () => {
+    cluster.forEach(slot => (slot.columns = columnEnds.length))
+    cluster = []
+    columnEnds = []
+  }
+
+  for (const slot of slots) {
+    if (cluster.length > 0 && columnEnds.every(end => end <= slot.start)) closeCluster()
+    let column = columnEnds.findIndex(end => end <= slot.start)
+    if (column === -1) column = columnEnds.length
+    columnEnds[column] = slot.end
+    slot.column = column
+    cluster.push(slot)
+  }
+  closeCluster()
+  return slots
+}
@@ -0,0 +1,164 @@
+import type { ComponentType } from 'react'
+import {
+  BedDouble,
+  Camera,
+  Music,
+  Plane,
+  ShoppingBag,
+  Tag,
+  UtensilsCrossed
+} from 'lucide-react'
+import type { CustomCategory } from './database'
+
+// Tailwind only ships classes it can see in the source, so every colour a
+// category can use is spelled out here rather than built from its name
+export const CATEGORY_COLORS = {
+  blue: 'bg-blue-100 text-blue-800 border-blue-200',
+  green: 'bg-green-100 text-green-800 border-green-200',
+  purple: 'bg-purple-100 text-purple-800 border-purple-200',
+  orange: 'bg-orange-100 text-orange-800 border-orange-200',
+  pink: 'bg-pink-100 text-pink-800 border-pink-200',
+  yellow: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  teal: 'bg-teal-100 text-teal-800 border-teal-200',
+  red: 'bg-red-100 text-red-800 border-red-200',
+  gray: 'bg-gray-100 text-gray-600 border-gray-200'
+} as const
+
+export type CategoryColor = keyof typeof CATEGORY_COLORS
+
+export interface CategoryDefinition {
+  value: string
+  label: string
+  color: CategoryColor
+  icon: ComponentType<{ className?: string }>
+  // Older or looser spellings that should resolve to this category
+  aliases: string[]
+  // Record id, only set for user-defined categories
+  id?: string
+  custom?: boolean
+}
+
+export const BUILT_IN_CATEGORIES: CategoryDefinition[] = [
+  {
+    value: 'accommodation',
+    label: 'Accommodation',
+    color: 'blue',
+    icon: BedDouble,
+    aliases: ['hotel', 'lodging', 'stay']
+  },
+  {
+    value: 'transportation',
+    label: 'Transportation',
+    color: 'green',
+    icon: Plane,
+    aliases: ['transport', 'travel', 'flight', 'train', 'transfer']
+  },
+  {
+    value: 'activity',
+    label: 'Activity',
+    color: 'purple',
+    icon: Camera,
+    aliases: ['sightseeing', 'tour', 'attraction', 'excursion']
+  },
+  {
+    value: 'dining',
+    label: 'Dining',
+    color: 'orange',
+    icon: UtensilsCrossed,
+    aliases: ['food', 'restaurant', 'meal', 'drinks']
+  },
+  {
+    value: 'shopping',
+    label: 'Shopping',
+    color: 'pink',
+    icon: ShoppingBag,
+    aliases: ['shop', 'market']
+  },
+  {
+    value: 'entertainment',
+    label: 'Entertainment',
+    color: 'yellow',
+    icon: Music,
+    aliases: ['nightlife', 'show', 'concert', 'event']
+  },
+  {
+    value: 'other',
+    label: 'Other',
+    color: 'gray',
+    icon: Tag,
+    aliases: ['misc', 'miscellaneous']
+  }
+]
+
+export const FALLBACK_CATEGORY = 'other'
+
+let customCategories: CategoryDefinition[] = []
+let allCategories: CategoryDefinition[] = BUILT_IN_CATEGORIES
+const listeners = new Set<() => void>()
+
+function toDefinition(category: CustomCategory): CategoryDefinition {
+  return {
+    id: category.id,
+    value: category.value,
+    label: category.label,
+    color: category.color in CATEGORY_COLORS ? category.color as CategoryColor : 'gray',
+    icon: Tag,
+    aliases: [],
+    custom: true
+  }
+}
+
+// Called by DatabaseService whenever the user's custom categories are loaded
+// or changed; everything else reads the registry synchronously.
+export function setCustomCategories(records: CustomCategory[]) {
+  customCategories = records
+    .filter(record => !BUILT_IN_CATEGORIES.some(category => category.value === record.value))
+    .map(toDefinition)
+  allCategories = [...BUILT_IN_CATEGORIES, ...customCategories]
+  listeners.forEach(listener => listener())
+}
+
+export function subscribeCategories(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getCategories(): CategoryDefinition[] {
+  return allCategories
+}
+
+export function toCategoryValue(label: string) {
+  return label.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')
+}
+
+// Maps legacy and loose values ("transport", "Sightseeing") onto the
+// registry. Values the registry doesn't know are kept as-is, so a custom
+// category that hasn't loaded yet isn't lost.
+export function normalizeCategory(value?: string | null): string {
+  const key = value?.trim().toLowerCase()
+  if (!key) return FALLBACK_CATEGORY
+
+  const match = allCategories.find(category =>
+    category.value === key || category.aliases.includes(key)
+  )
+  return match?.value ?? key
+}
+
+export function isKnownCategory(value: string) {
+  return allCategories.some(category => category.value === value)
+}
+
+export function getCategory(value?: string | null): CategoryDefinition {
+  const normalized = normalizeCategory(value)
+  const match = allCategories.find(category => category.value === normalized)
+  if (match) return match
+
+  const fallback = BUILT_IN_CATEGORIES.find(category => category.value === FALLBACK_CATEGORY)!
+  return { ...fallback, value: normalized, label: normalized.charAt(0).toUpperCase() + normalized.slice(1) }
+}
+
+export function getCategoryColor(value?: string | null) {
+  return CATEGORY_COLORS[getCategory(value).color]
+}
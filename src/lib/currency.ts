@@ -0,0 +1,92 @@
+// Currency handling is deliberately offline: amounts are converted with
+// rates the user typed in or pasted, so nothing here talks to a rate service.
+
+export const COMMON_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'HKD', 'SGD',
+  'KRW', 'THB', 'IDR', 'INR', 'MXN', 'BRL', 'NZD', 'SEK', 'NOK', 'DKK',
+  'CZK', 'TRY', 'AED', 'ZAR'
+]
+
+export function normalizeCurrency(code: string) {
+  return code.trim().toUpperCase()
+}
+
+export function isCurrencyCode(code: string) {
+  return /^[A-Z]{3}$/.test(code)
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+  } catch {
+    // Unknown codes still get a readable amount
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
+
+// Minor-unit digits, e.g. 2 for USD and 0 for JPY
+export function getCurrencyDecimals(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2
+  } catch {
+    return 2
+  }
+}
+
+// `rates` maps each foreign currency to its value in `to`. Returns null
+// when there's no rate to convert with.
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: Record<string, number>
+): number | null {
+  if (from === to) return amount
+  const rate = rates[from]
+  return rate && rate > 0 ? amount * rate : null
+}
+
+export interface ParsedRates {
+  rates: Record<string, number>
+  // Lines that couldn't be read, echoed back so the user can fix them
+  rejected: string[]
+}
+
+// Reads pasted rates in the shapes people tend to have at hand: a JSON
+// object ({"EUR": 1.08}), CSV rows ("EUR,1.08") or "EUR = 1.08" lines.
+export function parseRates(text: string): ParsedRates {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed) as Record<string, unknown>
+      const rates: Record<string, number> = {}
+      const rejected: string[] = []
+      for (const [code, value] of Object.entries(parsed)) {
+        const currency = normalizeCurrency(code)
+        const rate = Number(value)
+        if (isCurrencyCode(currency) && rate > 0) {
+          rates[currency] = rate
+        } else {
+          rejected.push(`${code}: ${String(value)}`)
+        }
+      }
+      return { rates, rejected }
+    } catch {
+      return { rates: {}, rejected: [trimmed] }
+    }
+  }
+
+  const rates: Record<string, number> = {}
+  const rejected: string[] = []
+  for (const line of trimmed.split(/\r?\n/)) {
+    if (!line.trim()) continue
+    const match = line.match(/^\s*([A-Za-z]{3})\s*[,;:=\t ]\s*([0-9]*[.,]?[0-9]+)\s*$/)
+    const rate = match ? Number(match[2].replace(',', '.')) : NaN
+    if (match && rate > 0) {
+      rates[normalizeCurrency(match[1])] = rate
+    } else {
+      rejected.push(line.trim())
+    }
+  }
+  return { rates, rejected }
+}
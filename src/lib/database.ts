@@ -1,243 +1,885 @@
+import {
+  dismissConflict,
+  selectRepository,
+  type EditConflict,
+  type SelectedRepository,
+  type StorageBackendInfo,
+  type SyncStatus,
+  type RecordOf,
+  type TripRepository,
+  type UpdateOptions
+} from './repositories'
+import { CLIENT_ID, selectRealtimeTransport, type RealtimeTransport, type TripChange, type TripChangeTarget } from './realtime'
 import { blink } from '../blink/client'
+import { normalizeCategory, setCustomCategories } from './categories'
+import { PermissionError, hasRole, normalizeEmail, notifyMembersChanged } from './sharing'
+import { createShareToken, fetchPublicItinerary, isShareLinkExpired, toPublicItinerary } from './share-links'
+import { overlapsRange, type CalendarRange } from './calendar'
 
-export async function initializeDatabase() {
-  try {
-    // Try to list trips to see if database is available
-    const user = await blink.auth.me()
-    await blink.db.trips.list({
-      where: { userId: user.id },
-      limit: 1
-    })
-    
-    console.log('Database is available and working')
-    return true
-  } catch (error) {
-    console.log('Database not available or tables not created:', error)
-    console.log('Using mock data fallback')
-    return false
-  }
-}
+// Collections whose records belong to a trip, and so share its access rules
+type TripScopedCollection = 'tripEntries' | 'packingItems' | 'expenses' | 'tripMembers' | 'shareLinks'
 
-// Database service wrapper with fallback to mock data
+// Chooses the storage backend once per page load; every DatabaseService call
+// goes through whichever repository was picked here.
 export class DatabaseService {
-  private static isDatabaseAvailable: boolean | null = null
+  private static selection: Promise<SelectedRepository> | null = null
+  private static realtime: Promise<RealtimeTransport> | null = null
+
+  static initialize(): Promise<SelectedRepository> {
+    if (!this.selection) {
+      // Public share pages run without a session, so no user is fine here
+      this.selection = blink.auth.me()
+        .then(user => user.id, () => null)
+        .then(userId => selectRepository(userId))
+        .then(selection => {
+          console.log(`Using ${selection.info.label} storage`, selection.info.reason ?? '')
+          return selection
+        })
+        .catch(error => {
+          // Let the next call retry instead of caching the failure forever
+          this.selection = null
+          throw error
+        })
+    }
+    return this.selection
+  }
+
+  static async getRepository(): Promise<TripRepository> {
+    return (await this.initialize()).repository
+  }
+
+  static async getBackendInfo(): Promise<StorageBackendInfo> {
+    return (await this.initialize()).info
+  }
+
+  // Listener is never called for backends that write straight through
+  static subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+    let unsubscribe = () => {}
+    let cancelled = false
+
+    this.getRepository()
+      .then(repository => {
+        if (!cancelled && repository.subscribeSyncStatus) {
+          unsubscribe = repository.subscribeSyncStatus(listener)
+        }
+      })
+      .catch(error => console.error('Failed to subscribe to sync status:', error))
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }
+
+  static async syncNow(): Promise<number> {
+    const repository = await this.getRepository()
+    return repository.sync ? repository.sync() : 0
+  }
+
+  // Access
+
+  // The signed-in account's role on a trip: owner for the account that
+  // created it, otherwise whatever it was invited as
+  static async getTripRole(tripId: string): Promise<TripRole | null> {
+    return (await this.getTripAccess(tripId))?.role ?? null
+  }
+
+  private static async getTripAccess(tripId: string): Promise<SharedTrip | null> {
+    const repository = await this.getRepository()
+    const [user, trip] = await Promise.all([blink.auth.me(), repository.get('trips', tripId)])
+    if (!trip) return null
+    if (trip.userId === user.id) return { trip, role: 'owner' }
+    const members = await repository.list('tripMembers', { where: { tripId } })
+    const membership = findMembership(members, user)
+    return membership ? { trip, role: membership.role } : null
+  }
+
+  private static async requireTripRole(tripId: string, required: TripRole): Promise<void> {
+    const role = await this.getTripRole(tripId)
+    if (!hasRole(role, required)) {
+      throw new PermissionError(tripId, required, role)
+    }
+  }
 
-  static async checkDatabaseAvailability(): Promise<boolean> {
-    if (this.isDatabaseAvailable !== null) {
-      return this.isDatabaseAvailable
+  // Checks access through the trip a stored record belongs to, handing back
+  // the record as it was before the write. movingTo is the tripId an update
+  // sets, if any: moving a record into another trip needs the role there too.
+  private static async requireRecordRole<C extends TripScopedCollection>(
+    collection: C,
+    id: string,
+    required: TripRole,
+    movingTo?: string
+  ): Promise<RecordOf<C>> {
+    const repository = await this.getRepository()
+    const record = await repository.get(collection, id)
+    if (!record) {
+      throw new Error(`${collection} record ${id} not found`)
     }
+    await this.requireTripRole(record.tripId, required)
+    if (movingTo !== undefined && movingTo !== record.tripId) {
+      await this.requireTripRole(movingTo, required)
+    }
+    return record
+  }
+
+  // Live changes
+
+  private static getRealtime(): Promise<RealtimeTransport> {
+    if (!this.realtime) {
+      this.realtime = this.getBackendInfo().then(info => selectRealtimeTransport(info.kind))
+    }
+    return this.realtime
+  }
 
+  // Tells everyone else looking at the trip. Never fails the write it
+  // follows; collaborators simply catch up on their next load.
+  private static async publishChange(target: TripChangeTarget, kind: TripChange['kind']): Promise<void> {
     try {
-      const user = await blink.auth.me()
-      await blink.db.trips.list({
-        where: { userId: user.id },
-        limit: 1
+      const [realtime, user] = await Promise.all([this.getRealtime(), blink.auth.me()])
+      await realtime.publish({
+        ...target,
+        id: generateId('change'),
+        tripId: target.record.tripId,
+        kind,
+        actor: { id: user.id, name: user.displayName || user.email },
+        origin: CLIENT_ID,
+        at: new Date().toISOString()
       })
-      this.isDatabaseAvailable = true
-      return true
     } catch (error) {
-      console.log('Database not available, using mock data:', error)
-      this.isDatabaseAvailable = false
-      return false
+      console.error('Failed to publish trip change:', error)
     }
   }
 
-  static async getTrips(userId: string): Promise<Trip[]> {
-    const isAvailable = await this.checkDatabaseAvailability()
-    
-    if (isAvailable) {
-      try {
-        return await blink.db.trips.list({
-          where: { userId },
-          orderBy: { createdAt: 'desc' }
+  // Changes made to the trip elsewhere: by collaborators, or by this account
+  // in another tab (in-memory trips have no other tabs). This tab's own
+  // writes are left out.
+  static subscribeTripChanges(tripId: string, listener: (change: TripChange) => void): () => void {
+    let unsubscribe = () => {}
+    let cancelled = false
+
+    Promise.all([this.getRealtime(), this.requireTripRole(tripId, 'viewer')])
+      .then(([realtime]) => {
+        if (cancelled) return
+        unsubscribe = realtime.subscribe(tripId, change => {
+          if (change.origin === CLIENT_ID) return
+          listener(change.collection === 'tripEntries'
+            ? { ...change, record: withNormalizedCategory(change.record) }
+            : change)
         })
-      } catch (error) {
-        console.error('Database query failed, falling back to mock data:', error)
-      }
+      })
+      .catch(error => console.error('Failed to subscribe to trip changes:', error))
+
+    return () => {
+      cancelled = true
+      unsubscribe()
     }
-    
-    // Return mock data with the current user ID
-    return mockTrips.map(trip => ({ ...trip, userId }))
   }
 
-  static async getTripEntries(tripId: string, userId: string): Promise<TripEntry[]> {
-    const isAvailable = await this.checkDatabaseAvailability()
-    
-    if (isAvailable) {
-      try {
-        return await blink.db.tripEntries.list({
-          where: { tripId, userId },
-          orderBy: { date: 'asc', startTime: 'asc' }
-        })
-      } catch (error) {
-        console.error('Database query failed, falling back to mock data:', error)
+  // Trips
+
+  // Only the trips this account owns; see getSharedTrips for the rest
+  static async getTrips(userId: string): Promise<Trip[]> {
+    const repository = await this.getRepository()
+    return repository.list('trips', {
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  // Trips other accounts have shared with this one. Invites addressed to its
+  // email are claimed on the way, so later lookups can go by account.
+  static async getSharedTrips(): Promise<SharedTrip[]> {
+    const repository = await this.getRepository()
+    const user = await blink.auth.me()
+    const [claimed, invited] = await Promise.all([
+      repository.list('tripMembers', { where: { accountId: user.id } }),
+      repository.list('tripMembers', { where: { email: normalizeEmail(user.email) } })
+    ])
+
+    const unclaimed = invited.filter(member => !member.accountId)
+    await Promise.all(unclaimed.map(member => repository.update('tripMembers', member.id, {
+      accountId: user.id,
+      displayName: user.displayName || '',
+      updatedAt: new Date().toISOString()
+    })))
+
+    const shared = await Promise.all([...claimed, ...unclaimed].map(async member => {
+      const trip = await repository.get('trips', member.tripId)
+      return trip && trip.userId !== user.id ? { trip, role: member.role } : null
+    }))
+    return shared
+      .filter((access): access is SharedTrip => access !== null)
+      .sort((a, b) => b.trip.createdAt.localeCompare(a.trip.createdAt))
+  }
+
+  // Every trip the account can open, with its role there: its own, then
+  // those shared with it
+  static async getAccessibleTrips(): Promise<SharedTrip[]> {
+    const user = await blink.auth.me()
+    const [own, shared] = await Promise.all([this.getTrips(user.id), this.getSharedTrips()])
+    return [...own.map(trip => ({ trip, role: 'owner' as const })), ...shared]
+  }
+
+  // Null when the trip doesn't exist or isn't shared with this account
+  static async getTripById(id: string): Promise<Trip | null> {
+    return (await this.getTripAccess(id))?.trip ?? null
+  }
+
+  static async createTrip(data: NewTrip): Promise<Trip> {
+    const repository = await this.getRepository()
+    const now = new Date().toISOString()
+    return repository.create('trips', {
+      ...data,
+      id: generateId('trip'),
+      createdAt: now,
+      updatedAt: now
+    })
+  }
+
+  // Pass ifUpdatedAt (the trip's updatedAt as loaded) to get a ConflictError
+  // instead of overwriting someone else's newer edit
+  static async updateTrip(id: string, changes: Partial<NewTrip>, options?: UpdateOptions): Promise<Trip> {
+    await this.requireTripRole(id, 'editor')
+    const repository = await this.getRepository()
+    return repository.update('trips', id, { ...changes, updatedAt: new Date().toISOString() }, options)
+  }
+
+  // Creates a trip and its entries as one unit: if any entry fails, the rows
+  // already written are deleted again and the original error is rethrown
+  static async createTripWithEntries(
+    trip: NewTrip,
+    entries: Omit<NewTripEntry, 'tripId' | 'userId'>[]
+  ): Promise<Trip> {
+    const createdTrip = await this.createTrip(trip)
+    const createdEntries: TripEntry[] = []
+
+    try {
+      for (const entry of entries) {
+        createdEntries.push(await this.createTripEntry({
+          ...entry,
+          timeZone: entry.timeZone || createdTrip.timeZone,
+          tripId: createdTrip.id,
+          userId: trip.userId
+        }))
       }
+      return createdTrip
+    } catch (error) {
+      const repository = await this.getRepository()
+      await Promise.allSettled([
+        ...createdEntries.map(entry => repository.delete('tripEntries', entry.id)),
+        repository.delete('trips', createdTrip.id)
+      ])
+      throw error
     }
-    
-    // Return mock data filtered by tripId
-    return mockTripEntries.filter(entry => entry.tripId === tripId)
   }
 
-  static async getPackingItems(tripId: string, userId: string): Promise<PackingItem[]> {
-    const isAvailable = await this.checkDatabaseAvailability()
-    
-    if (isAvailable) {
-      try {
-        return await blink.db.packingItems.list({
-          where: { tripId, userId },
-          orderBy: { category: 'asc', itemName: 'asc' }
-        })
-      } catch (error) {
-        console.error('Database query failed, falling back to mock data:', error)
+  // Removes the trip together with everything that hangs off it,
+  // collaborators' additions included
+  static async deleteTrip(id: string): Promise<void> {
+    await this.requireTripRole(id, 'owner')
+    const repository = await this.getRepository()
+    const [entries, items, expenses, members, links] = await Promise.all([
+      repository.list('tripEntries', { where: { tripId: id } }),
+      repository.list('packingItems', { where: { tripId: id } }),
+      repository.list('expenses', { where: { tripId: id } }),
+      repository.list('tripMembers', { where: { tripId: id } }),
+      repository.list('shareLinks', { where: { tripId: id } })
+    ])
+
+    await Promise.all([
+      ...entries.map(entry => repository.delete('tripEntries', entry.id)),
+      ...items.map(item => repository.delete('packingItems', item.id)),
+      ...expenses.map(expense => repository.delete('expenses', expense.id)),
+      ...members.map(member => repository.delete('tripMembers', member.id)),
+      ...links.map(link => repository.delete('shareLinks', link.id))
+    ])
+    await repository.delete('trips', id)
+  }
+
+  // Conflicts
+
+  // Writes the fields the user chose to keep from this device on top of the
+  // remote version. Fields not listed keep their remote value.
+  static async resolveConflict(conflict: EditConflict, keepLocal: string[]): Promise<void> {
+    if (conflict.collection === 'trips') {
+      await this.requireTripRole(conflict.recordId, 'editor')
+    } else if (conflict.collection !== 'categories') {
+      // Who can see a trip is the owner's call; what's in it is the editors'
+      const required = conflict.collection === 'tripMembers' || conflict.collection === 'shareLinks'
+        ? 'owner'
+        : 'editor'
+      await this.requireRecordRole(conflict.collection, conflict.recordId, required)
+    }
+    const repository = await this.getRepository()
+    const local = conflict.local as unknown as Record<string, unknown>
+    const changes = Object.fromEntries(keepLocal.map(field => [field, local[field]]))
+
+    if (keepLocal.length > 0) {
+      await repository.update(
+        conflict.collection,
+        conflict.recordId,
+        { ...changes, updatedAt: new Date().toISOString() },
+        { ifUpdatedAt: conflict.remote.updatedAt ?? null }
+      )
+    }
+    dismissConflict(conflict.id)
+  }
+
+  // Trip entries
+
+  static async getTripEntries(tripId: string): Promise<TripEntry[]> {
+    await this.requireTripRole(tripId, 'viewer')
+    const repository = await this.getRepository()
+    const entries = await repository.list('tripEntries', {
+      where: { tripId },
+      orderBy: { date: 'asc', startTime: 'asc' }
+    })
+    return entries.map(withNormalizedCategory)
+  }
+
+  // Entries of the given trips that touch the range, for the calendar. Only
+  // trips overlapping the range are read.
+  static async getTripEntriesInRange(
+    trips: Trip[],
+    range: Pick<CalendarRange, 'start' | 'end'>
+  ): Promise<TripEntry[]> {
+    const inRange = trips.filter(trip => overlapsRange(trip.startDate, trip.endDate, range))
+    const entries = await Promise.all(inRange.map(trip => this.getTripEntries(trip.id)))
+    return entries.flat().filter(entry => overlapsRange(entry.date, entry.endDate, range))
+  }
+
+  static async getTripEntryById(id: string): Promise<TripEntry | null> {
+    const repository = await this.getRepository()
+    const entry = await repository.get('tripEntries', id)
+    return entry && await this.getTripRole(entry.tripId) ? withNormalizedCategory(entry) : null
+  }
+
+  static async createTripEntry(data: NewTripEntry): Promise<TripEntry> {
+    await this.requireTripRole(data.tripId, 'editor')
+    const repository = await this.getRepository()
+    const now = new Date().toISOString()
+    const entry = await repository.create('tripEntries', {
+      ...data,
+      category: normalizeCategory(data.category),
+      id: generateId('entry'),
+      createdAt: now,
+      updatedAt: now
+    })
+    this.publishChange({ collection: 'tripEntries', record: entry }, 'created')
+    return entry
+  }
+
+  static async updateTripEntry(
+    id: string,
+    changes: Partial<NewTripEntry>,
+    options?: UpdateOptions
+  ): Promise<TripEntry> {
+    await this.requireRecordRole('tripEntries', id, 'editor', changes.tripId)
+    const repository = await this.getRepository()
+    if (changes.category !== undefined) {
+      changes = { ...changes, category: normalizeCategory(changes.category) }
+    }
+    const entry = await repository.update('tripEntries', id, { ...changes, updatedAt: new Date().toISOString() }, options)
+    this.publishChange({ collection: 'tripEntries', record: entry }, 'updated')
+    return entry
+  }
+
+  // Adds and updates entries of an existing trip as one unit: if any write
+  // fails, created entries are removed and updated ones are put back.
+  static async mergeTripEntries(
+    trip: Trip,
+    additions: Omit<NewTripEntry, 'tripId' | 'userId'>[],
+    updates: Array<{ entry: TripEntry; changes: Partial<NewTripEntry> }>
+  ): Promise<void> {
+    // Checked for whoever is merging before anything is written, so a
+    // viewer gets nothing half applied
+    await this.requireTripRole(trip.id, 'editor')
+    const user = await blink.auth.me()
+    const createdEntries: TripEntry[] = []
+    const updatedEntries: TripEntry[] = []
+
+    try {
+      for (const { entry, changes } of updates) {
+        updatedEntries.push(await this.updateTripEntry(entry.id, changes, { ifUpdatedAt: entry.updatedAt ?? null }))
       }
+      for (const entry of additions) {
+        createdEntries.push(await this.createTripEntry({
+          ...entry,
+          timeZone: entry.timeZone || trip.timeZone,
+          tripId: trip.id,
+          // Added by the editor doing the merge, who may not be the owner
+          userId: user.id
+        }))
+      }
+    } catch (error) {
+      const repository = await this.getRepository()
+      await Promise.allSettled([
+        ...createdEntries.map(async entry => {
+          await repository.delete('tripEntries', entry.id)
+          this.publishChange({ collection: 'tripEntries', record: entry }, 'deleted')
+        }),
+        // Collaborators already got the merged versions, so they're sent the
+        // restored ones too
+        ...updates.slice(0, updatedEntries.length).map(async ({ entry, changes }) => {
+          const restored = Object.fromEntries(
+            Object.keys(changes).map(field => [field, entry[field as keyof TripEntry]])
+          ) as Partial<TripEntry>
+          const record = await repository.update('tripEntries', entry.id, { ...restored, updatedAt: new Date().toISOString() })
+          this.publishChange({ collection: 'tripEntries', record }, 'updated')
+        })
+      ])
+      throw error
     }
-    
-    // Return mock data filtered by tripId
-    return mockPackingItems.filter(item => item.tripId === tripId)
-  }
-}
-
-// Mock data for when database is not available
-export const mockTrips: Trip[] = [
-  {
-    id: '1',
-    userId: 'mock-user',
-    title: 'Tokyo Adventure',
-    description: 'Exploring the vibrant culture and cuisine of Japan',
-    destination: 'Tokyo, Japan',
-    startDate: '2024-03-15',
-    endDate: '2024-03-22',
-    createdAt: '2024-01-15T10:00:00Z',
-    updatedAt: '2024-01-15T10:00:00Z'
-  },
-  {
-    id: '2',
-    userId: 'mock-user',
-    title: 'European Summer',
-    description: 'Multi-city tour across Europe',
-    destination: 'Paris, Rome, Barcelona',
-    startDate: '2024-06-10',
-    endDate: '2024-06-25',
-    createdAt: '2024-01-20T14:30:00Z',
-    updatedAt: '2024-01-20T14:30:00Z'
-  },
-  {
-    id: '3',
-    userId: 'mock-user',
-    title: 'Bali Retreat',
-    description: 'Relaxing getaway in tropical paradise',
-    destination: 'Bali, Indonesia',
-    startDate: '2024-08-05',
-    endDate: '2024-08-12',
-    createdAt: '2024-02-01T09:15:00Z',
-    updatedAt: '2024-02-01T09:15:00Z'
-  }
-]
-
-export const mockTripEntries: TripEntry[] = [
-  {
-    id: '1',
-    tripId: '1',
-    userId: 'mock-user',
-    title: 'Arrival at Narita Airport',
-    description: 'Flight arrival and transfer to hotel',
-    location: 'Narita International Airport',
-    address: '1-1 Furugome, Narita, Chiba 282-0004, Japan',
-    date: '2024-03-15',
-    startTime: '14:30',
-    endTime: '16:00',
-    category: 'transport',
-    createdAt: '2024-01-15T10:00:00Z',
-    updatedAt: '2024-01-15T10:00:00Z'
-  },
-  {
-    id: '2',
-    tripId: '1',
-    userId: 'mock-user',
-    title: 'Visit Senso-ji Temple',
-    description: 'Explore Tokyo\'s oldest temple in Asakusa',
-    location: 'Senso-ji Temple',
-    address: '2-3-1 Asakusa, Taito City, Tokyo 111-0032, Japan',
-    date: '2024-03-16',
-    startTime: '10:00',
-    endTime: '12:00',
-    category: 'sightseeing',
-    createdAt: '2024-01-15T10:05:00Z',
-    updatedAt: '2024-01-15T10:05:00Z'
-  },
-  {
-    id: '3',
-    tripId: '1',
-    userId: 'mock-user',
-    title: 'Sushi Dinner at Tsukiji',
-    description: 'Fresh sushi at the famous fish market',
-    location: 'Tsukiji Outer Market',
-    address: '4 Chome Tsukiji, Chuo City, Tokyo 104-0045, Japan',
-    date: '2024-03-16',
-    startTime: '18:00',
-    endTime: '20:00',
-    category: 'dining',
-    createdAt: '2024-01-15T10:10:00Z',
-    updatedAt: '2024-01-15T10:10:00Z'
-  }
-]
-
-export const mockPackingItems: PackingItem[] = [
-  {
-    id: '1',
-    tripId: '1',
-    userId: 'mock-user',
-    itemName: 'Passport',
-    category: 'documents',
-    isPacked: true,
-    notes: 'Check expiration date',
-    createdAt: '2024-01-15T10:00:00Z'
-  },
-  {
-    id: '2',
-    tripId: '1',
-    userId: 'mock-user',
-    itemName: 'Camera',
-    category: 'electronics',
-    isPacked: false,
-    notes: 'Don\'t forget extra batteries',
-    createdAt: '2024-01-15T10:05:00Z'
-  },
-  {
-    id: '3',
-    tripId: '1',
-    userId: 'mock-user',
-    itemName: 'Comfortable Walking Shoes',
-    category: 'clothing',
-    isPacked: false,
-    createdAt: '2024-01-15T10:10:00Z'
-  }
-]
+  }
+
+  static async deleteTripEntry(id: string): Promise<void> {
+    const entry = await this.requireRecordRole('tripEntries', id, 'editor')
+    const repository = await this.getRepository()
+    await repository.delete('tripEntries', id)
+    this.publishChange({ collection: 'tripEntries', record: entry }, 'deleted')
+  }
+
+  // Packing items
+
+  static async getPackingItems(tripId: string): Promise<PackingItem[]> {
+    await this.requireTripRole(tripId, 'viewer')
+    const repository = await this.getRepository()
+    return repository.list('packingItems', {
+      where: { tripId },
+      orderBy: { category: 'asc', itemName: 'asc' }
+    })
+  }
+
+  static async getPackingItemById(id: string): Promise<PackingItem | null> {
+    const repository = await this.getRepository()
+    const item = await repository.get('packingItems', id)
+    return item && await this.getTripRole(item.tripId) ? item : null
+  }
+
+  static async createPackingItem(data: NewPackingItem): Promise<PackingItem> {
+    await this.requireTripRole(data.tripId, 'editor')
+    const repository = await this.getRepository()
+    const now = new Date().toISOString()
+    const item = await repository.create('packingItems', {
+      ...data,
+      id: generateId('item'),
+      createdAt: now,
+      updatedAt: now
+    })
+    this.publishChange({ collection: 'packingItems', record: item }, 'created')
+    return item
+  }
+
+  static async updatePackingItem(id: string, changes: Partial<NewPackingItem>): Promise<PackingItem> {
+    await this.requireRecordRole('packingItems', id, 'editor', changes.tripId)
+    const repository = await this.getRepository()
+    const item = await repository.update('packingItems', id, { ...changes, updatedAt: new Date().toISOString() })
+    this.publishChange({ collection: 'packingItems', record: item }, 'updated')
+    return item
+  }
+
+  static async deletePackingItem(id: string): Promise<void> {
+    const item = await this.requireRecordRole('packingItems', id, 'editor')
+    const repository = await this.getRepository()
+    await repository.delete('packingItems', id)
+    this.publishChange({ collection: 'packingItems', record: item }, 'deleted')
+  }
+
+  // Expenses
+
+  static async getExpenses(tripId: string): Promise<Expense[]> {
+    await this.requireTripRole(tripId, 'viewer')
+    const repository = await this.getRepository()
+    return repository.list('expenses', {
+      where: { tripId },
+      orderBy: { date: 'asc' }
+    })
+  }
+
+  static async createExpense(data: NewExpense): Promise<Expense> {
+    await this.requireTripRole(data.tripId, 'editor')
+    const repository = await this.getRepository()
+    const now = new Date().toISOString()
+    return repository.create('expenses', {
+      ...data,
+      category: normalizeCategory(data.category),
+      id: generateId('expense'),
+      createdAt: now,
+      updatedAt: now
+    })
+  }
+
+  static async updateExpense(
+    id: string,
+    changes: Partial<NewExpense>,
+    options?: UpdateOptions
+  ): Promise<Expense> {
+    await this.requireRecordRole('expenses', id, 'editor', changes.tripId)
+    const repository = await this.getRepository()
+    if (changes.category !== undefined) {
+      changes = { ...changes, category: normalizeCategory(changes.category) }
+    }
+    return repository.update('expenses', id, { ...changes, updatedAt: new Date().toISOString() }, options)
+  }
+
+  static async deleteExpense(id: string): Promise<void> {
+    await this.requireRecordRole('expenses', id, 'editor')
+    const repository = await this.getRepository()
+    await repository.delete('expenses', id)
+  }
+
+  // Sharing
+
+  static async getTripMembers(tripId: string): Promise<TripMember[]> {
+    await this.requireTripRole(tripId, 'viewer')
+    const repository = await this.getRepository()
+    return repository.list('tripMembers', {
+      where: { tripId },
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  static async inviteTripMember(tripId: string, email: string, role: TripRole): Promise<TripMember> {
+    await this.requireTripRole(tripId, 'owner')
+    const repository = await this.getRepository()
+    const user = await blink.auth.me()
+    const address = normalizeEmail(email)
+    if (address === normalizeEmail(user.email)) {
+      throw new Error('You already have access to this trip')
+    }
+    const existing = await repository.list('tripMembers', { where: { tripId, email: address } })
+    if (existing.length > 0) {
+      throw new Error(`${address} already has access to this trip`)
+    }
+
+    const now = new Date().toISOString()
+    const member = await repository.create('tripMembers', {
+      id: generateId('member'),
+      tripId,
+      email: address,
+      role,
+      invitedBy: user.id,
+      createdAt: now,
+      updatedAt: now
+    })
+    notifyMembersChanged(tripId)
+    return member
+  }
+
+  static async updateTripMemberRole(id: string, role: TripRole, options?: UpdateOptions): Promise<TripMember> {
+    await this.requireRecordRole('tripMembers', id, 'owner')
+    const repository = await this.getRepository()
+    const member = await repository.update('tripMembers', id, { role, updatedAt: new Date().toISOString() }, options)
+    notifyMembersChanged(member.tripId)
+    return member
+  }
+
+  // Public links
+
+  static async getShareLinks(tripId: string): Promise<ShareLink[]> {
+    await this.requireTripRole(tripId, 'owner')
+    const repository = await this.getRepository()
+    return repository.list('shareLinks', {
+      where: { tripId },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  static async createShareLink(
+    tripId: string,
+    options: Pick<ShareLink, 'hidePrivate' | 'expiresAt'>
+  ): Promise<ShareLink> {
+    await this.requireTripRole(tripId, 'owner')
+    const repository = await this.getRepository()
+    const user = await blink.auth.me()
+    const now = new Date().toISOString()
+    return repository.create('shareLinks', {
+      id: generateId('link'),
+      tripId,
+      userId: user.id,
+      token: createShareToken(),
+      hidePrivate: options.hidePrivate,
+      ...(options.expiresAt ? { expiresAt: options.expiresAt } : {}),
+      createdAt: now,
+      updatedAt: now
+    })
+  }
+
+  // Revoking deletes the link, so its token stops resolving straight away
+  static async revokeShareLink(id: string): Promise<void> {
+    const repository = await this.getRepository()
+    const link = await repository.get('shareLinks', id)
+    if (!link) return
+    await this.requireTripRole(link.tripId, 'owner')
+    await repository.delete('shareLinks', id)
+  }
+
+  // The only read that needs no session. Null when the token is unknown,
+  // revoked or expired, so a stale link can't be told from a made-up one.
+  // On Blink the token is resolved by the shared-itinerary function, which
+  // sends back only the scrubbed itinerary; visitors read no tables.
+  static async getPublicItinerary(token: string): Promise<PublicItinerary | null> {
+    const repository = await this.getRepository()
+    if (repository.kind === 'blink') {
+      const itinerary = await fetchPublicItinerary(token)
+      return itinerary && { ...itinerary, entries: itinerary.entries.map(withNormalizedCategory) }
+    }
+
+    const [link] = await repository.list('shareLinks', { where: { token }, limit: 1 })
+    if (!link || isShareLinkExpired(link)) return null
+
+    const [trip, entries] = await Promise.all([
+      repository.get('trips', link.tripId),
+      repository.list('tripEntries', {
+        where: { tripId: link.tripId },
+        orderBy: { date: 'asc', startTime: 'asc' }
+      })
+    ])
+    if (!trip) return null
+    return toPublicItinerary(trip, entries.map(withNormalizedCategory), link)
+  }
+
+  // Owners can remove anyone; everyone else can only leave
+  static async removeTripMember(id: string): Promise<void> {
+    const repository = await this.getRepository()
+    const [user, member] = await Promise.all([blink.auth.me(), repository.get('tripMembers', id)])
+    if (!member) return
+    if (member.accountId !== user.id) {
+      await this.requireTripRole(member.tripId, 'owner')
+    }
+    await repository.delete('tripMembers', id)
+    notifyMembersChanged(member.tripId)
+  }
+
+  // Custom categories
+
+  // Also refreshes the category registry, so call it once per session
+  static async getCustomCategories(userId: string): Promise<CustomCategory[]> {
+    const repository = await this.getRepository()
+    const categories = await repository.list('categories', {
+      where: { userId },
+      orderBy: { label: 'asc' }
+    })
+    setCustomCategories(categories)
+    return categories
+  }
+
+  static async createCustomCategory(data: NewCustomCategory): Promise<CustomCategory> {
+    const repository = await this.getRepository()
+    const now = new Date().toISOString()
+    const category = await repository.create('categories', {
+      ...data,
+      id: generateId('category'),
+      createdAt: now,
+      updatedAt: now
+    })
+    await this.getCustomCategories(data.userId)
+    return category
+  }
+
+  // Entries keep the value of a deleted category and show it as "other"
+  static async deleteCustomCategory(id: string, userId: string): Promise<void> {
+    const repository = await this.getRepository()
+    await repository.delete('categories', id)
+    await this.getCustomCategories(userId)
+  }
+}
+
+// Entries written before the category registry existed use values such as
+// "transport" or "sightseeing"; readers only ever see the canonical ones
+function withNormalizedCategory(entry: TripEntry): TripEntry {
+  const category = normalizeCategory(entry.category)
+  return category === entry.category ? entry : { ...entry, category }
+}
+
+// Claimed invites match by account; unclaimed ones by the invited email
+function findMembership(members: TripMember[], user: { id: string; email: string }) {
+  return members.find(member => member.accountId === user.id) ??
+    members.find(member => !member.accountId && member.email === normalizeEmail(user.email))
+}
+
+function generateId(prefix: string) {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+// One stop of a multi-destination trip. Consecutive legs may share a day
+// (leave one city, arrive in the next) but must not overlap beyond that.
+export interface TripLeg {
+  id: string
+  city: string
+  country?: string
+  arrivalDate: string
+  departureDate: string
+}
+
+// Planned spending for a trip. Amounts are in `currency`; expenses in other
+// currencies are converted with the user's own rates, never fetched ones.
+export interface TripBudget {
+  currency: string
+  // Overall cap; when unset the category amounts add up to the total
+  total?: number
+  // Planned spend per entry category value
+  categories: Record<string, number>
+  // How many units of `currency` one unit of each other currency is worth
+  rates: Record<string, number>
+}
+
+export interface LoyaltyNumber {
+  // Airline, hotel or rail scheme, e.g. "ANA Mileage Club"
+  program: string
+  number: string
+}
+
+// Someone travelling on a trip. Linking an account lets that user pick out
+// their own itinerary; unlinked travellers are just names.
+export interface Traveller {
+  id: string
+  name: string
+  accountId?: string
+  // Nationality on the passport being travelled on
+  nationality?: string
+  // YYYY-MM-DD
+  dateOfBirth?: string
+  loyaltyNumbers?: LoyaltyNumber[]
+}
+
+export type TripRole = 'owner' | 'editor' | 'viewer'
+
+// An account a trip is shared with. Invites are addressed by email;
+// `accountId` is filled in once that account has opened its shared trips.
+export interface TripMember {
+  id: string
+  tripId: string
+  email: string
+  accountId?: string
+  displayName?: string
+  role: TripRole
+  // Account that sent the invite
+  invitedBy: string
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface SharedTrip {
+  trip: Trip
+  role: TripRole
+}
+
+// A public, read-only link to a trip's itinerary. Anyone holding the token
+// can open it until it expires or the link is revoked.
+export interface ShareLink {
+  id: string
+  tripId: string
+  // Account that created the link
+  userId: string
+  token: string
+  // Leave out entry notes and booking/confirmation numbers
+  hidePrivate: boolean
+  expiresAt?: string
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface PublicItinerary {
+  trip: Trip
+  entries: TripEntry[]
+  hidePrivate: boolean
+  expiresAt?: string
+}
 
 export interface Trip {
   id: string
   userId: string
   title: string
   description?: string
+  // Free text for single-destination trips; the route summary when legs are set
   destination: string
   startDate: string
   endDate: string
+  // IANA zone of the destination; entries default to it
+  timeZone?: string
+  // Ordered stops, for trips that visit more than one place
+  legs?: TripLeg[]
+  travellers?: Traveller[]
+  budget?: TripBudget
   createdAt: string
   updatedAt?: string
 }
 
+// Entries without a type are plain itinerary items; typed ones carry the
+// matching structured details alongside the usual fields
+export type EntryType = 'flight' | 'stay' | 'transport'
+
+export interface FlightDetails {
+  airline: string
+  flightNumber: string
+  // IATA codes, e.g. "NRT"
+  departureAirport: string
+  arrivalAirport: string
+  departureTerminal?: string
+  arrivalTerminal?: string
+  seat?: string
+  bookingReference?: string
+}
+
+// A stay runs from check-in on `date` to check-out on `endDate`, with the
+// check-in/check-out times in startTime/endTime
+export interface StayDetails {
+  confirmationNumber?: string
+  // e.g. "Deluxe King, non-smoking"
+  roomType?: string
+  guests?: number
+}
+
+export type TransportMode = 'train' | 'ferry' | 'bus' | 'car'
+
+// Ground and sea legs. For rental cars the origin/destination are the
+// pick-up and drop-off branches, and `date`/`endDate` the rental days.
+export interface TransportDetails {
+  mode: TransportMode
+  // Rail operator, ferry line, bus company or rental agency
+  carrier?: string
+  // Train/bus/sailing number
+  serviceNumber?: string
+  origin: string
+  destination: string
+  // Street addresses for directions, when the names alone won't find them
+  originAddress?: string
+  destinationAddress?: string
+  // Fare class, or the car category for rentals
+  travelClass?: string
+  seat?: string
+  bookingReference?: string
+}
+
 export interface TripEntry {
   id: string
   tripId: string
   userId: string
+  entryType?: EntryType
+  // Leg of a multi-destination trip the entry belongs to; when unset it is
+  // the leg its date falls in
+  legId?: string
+  // Travellers the entry is for; empty means the whole group
+  travellerIds?: string[]
   title: string
   description?: string
   location?: string
   address?: string
   date: string
+  // Last day the entry covers, when it isn't `date` (overnight flights,
+  // check-out day of a stay)
+  endDate?: string
   startTime?: string
   endTime?: string
+  // IANA zone startTime is in, and endTime too unless endTimeZone is set
+  // (flights arriving in another zone)
+  timeZone?: string
+  endTimeZone?: string
   category: string
+  flight?: FlightDetails
+  stay?: StayDetails
+  transport?: TransportDetails
   createdAt: string
   updatedAt?: string
 }
@@ -250,5 +892,57 @@ export interface PackingItem {
   category?: string
   isPacked: boolean
   notes?: string
+  // Whose bag it goes in; empty means it's shared
+  travellerIds?: string[]
+  createdAt: string
+  updatedAt?: string
+}
+
+export type SplitMethod = 'equal' | 'shares' | 'exact'
+
+// Who an expense is shared between. `parts` maps each companion to a weight
+// of 1 (equal), a relative share count (shares) or an amount in the
+// expense currency (exact).
+export interface ExpenseSplit {
+  method: SplitMethod
+  parts: Record<string, number>
+}
+
+export interface Expense {
+  id: string
+  tripId: string
+  userId: string
+  // Itinerary entry the money was spent on, if any
+  entryId?: string
+  description: string
+  amount: number
+  // ISO 4217 code
+  currency: string
+  // Name of whoever paid
+  paidBy: string
+  // Unset when the payer covered the expense alone; null clears a split
+  split?: ExpenseSplit | null
+  date: string
+  category: string
+  createdAt: string
+  updatedAt?: string
+}
+
+export interface CustomCategory {
+  id: string
+  userId: string
+  value: string
+  label: string
+  // Key into CATEGORY_COLORS
+  color: string
   createdAt: string
-}
\ No newline at end of file
+  updatedAt?: string
+}
+
+type GeneratedFields = 'id' | 'createdAt' | 'updatedAt'
+
+export type NewTrip = Omit<Trip, GeneratedFields>
+export type NewTripEntry = Omit<TripEntry, GeneratedFields>
+export type NewPackingItem = Omit<PackingItem, GeneratedFields>
+export type NewCustomCategory = Omit<CustomCategory, GeneratedFields>
+export type NewExpense = Omit<Expense, GeneratedFields>
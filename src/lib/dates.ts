@@ -0,0 +1,234 @@
+import { differenceInCalendarDays, format } from 'date-fns'
+
+// Trip and entry dates are stored as "yyyy-MM-dd" calendar days with no
+// zone attached. Going through toISOString() or new Date("yyyy-MM-dd")
+// reads them as UTC and shifts the day for anyone west of Greenwich, so
+// every page converts and formats them through these helpers instead.
+
+export type DateStyle = 'full' | 'long' | 'medium' | 'short' | 'month'
+
+const DATE_PATTERNS: Record<DateStyle, string> = {
+  full: 'EEEE, MMMM d, yyyy',
+  long: 'MMMM d, yyyy',
+  medium: 'MMM d, yyyy',
+  short: 'MMM d',
+  month: 'MMMM'
+}
+
+// Local midnight of a stored calendar day
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// The calendar day a picked Date falls on, in the user's own zone
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+export function todayKey(): string {
+  return toDateKey(new Date())
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  const date = parseDateKey(key)
+  date.setDate(date.getDate() + days)
+  return toDateKey(date)
+}
+
+export function daysBetween(startKey: string, endKey: string): number {
+  return differenceInCalendarDays(parseDateKey(endKey), parseDateKey(startKey))
+}
+
+export function formatDate(key: string, style: DateStyle = 'long'): string {
+  return format(parseDateKey(key), DATE_PATTERNS[style])
+}
+
+// For ISO timestamps such as createdAt, which do carry a zone
+export function formatTimestamp(iso: string, style: DateStyle = 'long'): string {
+  return format(new Date(iso), DATE_PATTERNS[style])
+}
+
+export function formatDateRange(startKey: string, endKey: string): string {
+  const start = parseDateKey(startKey)
+  const end = parseDateKey(endKey)
+  if (start.getFullYear() !== end.getFullYear()) {
+    return `${format(start, 'MMM d, yyyy')} - ${format(end, 'MMM d, yyyy')}`
+  }
+  return `${format(start, 'MMM d')} - ${format(end, 'MMM d')}, ${end.getFullYear()}`
+}
+
+// "14:30" -> "2:30 PM"
+export function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  const suffix = hours < 12 ? 'AM' : 'PM'
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`
+}
+
+// Time zones
+
+export function getHomeTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+export function isValidTimeZone(zone?: string | null): zone is string {
+  if (!zone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+function zoneOffsetMinutes(zone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(instant)
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'))
+  return Math.round((wallClock - Math.floor(instant.getTime() / 60000) * 60000) / 60000)
+}
+
+// The instant at which the wall clock in `zone` reads `date` `time`
+export function zonedTimeToInstant(date: string, time: string, zone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes] = time.split(':').map(Number)
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes)
+
+  // The first guess can land on the other side of a DST change, so check
+  // the offset once more at the corrected instant
+  const firstGuess = asUtc - zoneOffsetMinutes(zone, new Date(asUtc)) * 60000
+  const offset = zoneOffsetMinutes(zone, new Date(firstGuess))
+  const secondGuess = asUtc - offset * 60000
+  if (zoneOffsetMinutes(zone, new Date(secondGuess)) === offset) {
+    return new Date(secondGuess)
+  }
+  // Wall times skipped by a spring-forward gap move forward, like clocks do
+  return new Date(Math.max(firstGuess, secondGuess))
+}
+
+// "GMT+9", "PDT", ... as shown to en-US readers
+export function getTimeZoneLabel(zone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' }).formatToParts(at)
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? zone
+}
+
+function formatInstant(instant: Date, zone: string, withDate: boolean) {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(withDate ? { month: 'short', day: 'numeric' } : {})
+  }).format(instant)
+}
+
+function dateKeyInZone(instant: Date, zone: string) {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: zone }).format(instant)
+}
+
+export interface ZonedEntryTime {
+  date: string
+  // Arrival day, when the entry ends on a later day than it starts
+  endDate?: string
+  startTime?: string
+  endTime?: string
+  timeZone?: string
+  // Arrival zone for flights and other entries that cross zones
+  endTimeZone?: string
+}
+
+export interface EntryTimeDisplay {
+  // Times as printed on the booking, in the entry's own zone(s)
+  local: string
+  // The same times on the traveller's home clock, when that differs
+  home?: string
+}
+
+export interface EntryInstants {
+  start: Date | null
+  end: Date | null
+  startZone: string
+  endZone: string
+  // Calendar day the end falls on in endZone
+  endDate: string | null
+}
+
+// The real instants an entry starts and ends at, or null for entries with
+// no zone. Without an endDate, an end clock that reads earlier than the
+// start is taken to be the next day.
+export function getEntryInstants(entry: ZonedEntryTime): EntryInstants | null {
+  const startZone = isValidTimeZone(entry.timeZone) ? entry.timeZone : null
+  if (!startZone) return null
+  const endZone = isValidTimeZone(entry.endTimeZone) ? entry.endTimeZone : startZone
+
+  const start = entry.startTime ? zonedTimeToInstant(entry.date, entry.startTime, startZone) : null
+  let end = entry.endTime ? zonedTimeToInstant(entry.endDate || entry.date, entry.endTime, endZone) : null
+  if (start && end && end < start && !entry.endDate) {
+    end = new Date(end.getTime() + 24 * 60 * 60 * 1000)
+  }
+  return { start, end, startZone, endZone, endDate: end && dateKeyInZone(end, endZone) }
+}
+
+// "13h 5m", for flight and transfer durations
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (!hours) return `${rest}m`
+  return rest ? `${hours}h ${rest}m` : `${hours}h`
+}
+
+// Formats an entry's times in its own zone, and again in the home zone when
+// the two differ. Arrivals on a later day are marked "(+1)", "(+2)", ...
+export function describeEntryTime(
+  entry: ZonedEntryTime,
+  homeZone: string = getHomeTimeZone()
+): EntryTimeDisplay | null {
+  if (!entry.startTime && !entry.endTime) return null
+
+  const instants = getEntryInstants(entry)
+  if (!instants) {
+    // Entries from before zones existed are shown exactly as stored
+    const local = [entry.startTime, entry.endTime].filter(Boolean).map(time => formatTime(time!)).join(' - ')
+    return { local }
+  }
+  const { start, end, startZone, endZone, endDate } = instants
+
+  const daysLater = endDate ? daysBetween(entry.date, endDate) : 0
+  const nextDay = daysLater > 0 ? ` (+${daysLater})` : ''
+  let local: string
+  if (endZone !== startZone) {
+    // Flights: each end carries its own zone, "9:00 AM GMT+9 → 6:10 AM PDT"
+    local = [
+      start && `${formatInstant(start, startZone, false)} ${getTimeZoneLabel(startZone, start)}`,
+      end && `${formatInstant(end, endZone, false)} ${getTimeZoneLabel(endZone, end)}${nextDay}`
+    ].filter(Boolean).join(' → ')
+  } else {
+    const times = [start, end]
+      .filter((instant): instant is Date => instant !== null)
+      .map(instant => formatInstant(instant, startZone, false))
+      .join(' - ')
+    local = `${times} ${getTimeZoneLabel(startZone, start ?? end!)}${nextDay}`
+  }
+
+  const display: EntryTimeDisplay = { local }
+
+  const sameAsHome = zoneOffsetMinutes(homeZone, start ?? end!) === zoneOffsetMinutes(startZone, start ?? end!) &&
+    (!end || zoneOffsetMinutes(homeZone, end) === zoneOffsetMinutes(endZone, end))
+  if (!sameAsHome) {
+    const differentDay = [start, end].some(instant => instant && dateKeyInZone(instant, homeZone) !== entry.date)
+    display.home = [start, end]
+      .filter((instant): instant is Date => instant !== null)
+      .map(instant => formatInstant(instant, homeZone, differentDay))
+      .join(' - ')
+  }
+
+  return display
+}
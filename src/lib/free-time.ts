@@ -0,0 +1,123 @@
+import { addDaysToKey, formatDuration, formatTime } from './dates'
+import { findLegForDate } from './legs'
+import { isStay } from './stays'
+import { MINUTES_PER_DAY, toMinutes } from './calendar'
+import { fromMinutes } from './reschedule'
+import type { Trip, TripEntry } from './database'
+
+export interface FreeTimeGap {
+  // Stable across runs, for React keys
+  id: string
+  date: string
+  // "HH:MM"
+  startTime: string
+  endTime: string
+  minutes: number
+  // Where you'll be: the last place before the gap, else the next one, else
+  // the city you're in
+  near?: string
+  // That day's entries either side of the gap, if any
+  before?: TripEntry
+  after?: TripEntry
+}
+
+// Only waking hours count as free
+const DAY_START_MINUTES = 9 * 60
+const DAY_END_MINUTES = 21 * 60
+// Anything shorter is just getting from one thing to the next
+const MIN_GAP_MINUTES = 90
+// Entries with a start but no end are taken to last an hour
+const DEFAULT_DURATION_MINUTES = 60
+
+interface Busy {
+  entry: TripEntry
+  start: number
+  end: number
+}
+
+// Minutes of `date` an entry takes up, by its wall clock. Entries without a
+// start time can't be placed, and stays are where you sleep, not something
+// you're doing.
+function toBusy(entry: TripEntry, date: string): Busy | null {
+  if (!entry.startTime || isStay(entry)) return null
+  const lastDay = entry.endDate || entry.date
+  if (date < entry.date || date > lastDay) return null
+
+  const start = entry.date === date ? toMinutes(entry.startTime) : 0
+  let end: number
+  if (lastDay > date) {
+    end = MINUTES_PER_DAY
+  } else if (entry.endTime) {
+    end = toMinutes(entry.endTime)
+    // Same-day entries whose end reads earlier run past midnight
+    if (entry.date === date && end < start) end = MINUTES_PER_DAY
+  } else {
+    end = start + DEFAULT_DURATION_MINUTES
+  }
+  return { entry, start, end }
+}
+
+function placeOf(entry?: TripEntry) {
+  return entry?.location || entry?.address || undefined
+}
+
+// Stretches of waking hours on each day of the trip with nothing planned,
+// keyed by date. Worked out from the entries alone, so it needs no
+// connection.
+export function findFreeTime(trip: Trip, entries: TripEntry[]): Record<string, FreeTimeGap[]> {
+  const gaps: Record<string, FreeTimeGap[]> = {}
+
+  for (let date = trip.startDate; date <= trip.endDate; date = addDaysToKey(date, 1)) {
+    const busy = entries
+      .map(entry => toBusy(entry, date))
+      .filter((interval): interval is Busy => interval !== null)
+      .sort((a, b) => a.start - b.start || a.end - b.end)
+    const area = findLegForDate(trip.legs, date)?.city || trip.destination
+
+    let cursor = DAY_START_MINUTES
+    let previous: Busy | undefined
+    const addGap = (end: number, next?: Busy) => {
+      if (end - cursor < MIN_GAP_MINUTES) return
+      // Only entries listed under this day are shown either side of it
+      const before = previous?.entry.date === date ? previous.entry : undefined
+      const after = next?.entry.date === date ? next.entry : undefined
+      gaps[date] ??= []
+      gaps[date].push({
+        id: `${date}:${cursor}`,
+        date,
+        startTime: fromMinutes(cursor),
+        endTime: fromMinutes(end),
+        minutes: end - cursor,
+        near: placeOf(previous?.entry) ?? placeOf(next?.entry) ?? (area || undefined),
+        before,
+        after
+      })
+    }
+
+    for (const interval of busy) {
+      if (interval.start >= DAY_END_MINUTES) break
+      if (interval.start > cursor) addGap(interval.start, interval)
+      if (interval.end > cursor) {
+        cursor = interval.end
+        previous = interval
+      }
+    }
+    if (cursor < DAY_END_MINUTES) addGap(DAY_END_MINUTES)
+  }
+
+  return gaps
+}
+
+// "3h free, 1:00 PM - 4:00 PM near Asakusa"
+export function describeGap(gap: FreeTimeGap): string {
+  const span = `${formatDuration(gap.minutes)} free, ${formatTime(gap.startTime)} - ${formatTime(gap.endTime)}`
+  return gap.near ? `${span} near ${gap.near}` : span
+}
+
+// Whether a suggested time fits inside the gap it was asked for
+export function fitsGap(gap: FreeTimeGap, startTime?: string, endTime?: string): boolean {
+  if (!startTime || !endTime || !/^\d{1,2}:\d{2}$/.test(startTime) || !/^\d{1,2}:\d{2}$/.test(endTime)) return false
+  const start = toMinutes(startTime)
+  const end = toMinutes(endTime)
+  return start >= toMinutes(gap.startTime) && end <= toMinutes(gap.endTime) && end > start
+}
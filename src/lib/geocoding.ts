@@ -0,0 +1,146 @@
+import { blink } from '../blink/client'
+
+export interface Coordinates {
+  lat: number
+  lon: number
+}
+
+const CACHE_KEY = 'travelplan:geocode'
+const SETTING_KEY = 'travelplan:geocoding-enabled'
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search'
+// Nominatim's usage policy: at most one request a second, from an
+// application that says who it is
+const MIN_REQUEST_INTERVAL_MS = 1100
+const REQUEST_HEADERS = { 'User-Agent': 'TravelPlan/1.0 (trip planner; travel time checks)' }
+
+const settingListeners = new Set<() => void>()
+
+// Looking places up sends entries' addresses and locations to
+// OpenStreetMap, so it's off until the user turns it on in their profile
+export function isGeocodingEnabled(): boolean {
+  try {
+    return window.localStorage.getItem(SETTING_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+export function setGeocodingEnabled(enabled: boolean) {
+  try {
+    window.localStorage.setItem(SETTING_KEY, String(enabled))
+  } catch (error) {
+    console.error('Failed to save the place lookup setting:', error)
+  }
+  settingListeners.forEach(listener => listener())
+}
+
+export function subscribeGeocodingSetting(listener: () => void): () => void {
+  settingListeners.add(listener)
+  return () => {
+    settingListeners.delete(listener)
+  }
+}
+
+// Places looked up before, kept across reloads so checks still work
+// offline. Null marks a place the geocoder couldn't find.
+function loadCache(): Record<string, Coordinates | null> {
+  try {
+    return JSON.parse(window.localStorage.getItem(CACHE_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function saveCache(cache: Record<string, Coordinates | null>) {
+  try {
+    window.localStorage.setItem(CACHE_KEY, JSON.stringify(cache))
+  } catch (error) {
+    console.error('Failed to cache geocoded places:', error)
+  }
+}
+
+function normalizeQuery(query: string) {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function wait(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Every lookup in the app goes through this one queue, so requests never
+// overlap and each starts at least MIN_REQUEST_INTERVAL_MS after the last
+// one finished, however many trips are checking at once
+let requestQueue: Promise<unknown> = Promise.resolve()
+
+function lookUp(query: string): Promise<Coordinates | null> {
+  const request = requestQueue.then(async () => {
+    const response = await blink.data.fetch({
+      url: NOMINATIM_URL,
+      // The request goes out from Blink's servers, so the page it came from
+      // is passed along too
+      headers: { ...REQUEST_HEADERS, Referer: window.location.origin },
+      query: { q: query, format: 'json', limit: '1' }
+    })
+    if (response.status >= 400) throw new Error(`Geocoder answered ${response.status}`)
+    const [match] = Array.isArray(response.body) ? response.body : []
+    return match ? { lat: Number(match.lat), lon: Number(match.lon) } : null
+  })
+  requestQueue = request.catch(() => {}).then(() => wait(MIN_REQUEST_INTERVAL_MS))
+  return request
+}
+
+// Coordinates for each query that could be placed. Cached places come back
+// straight away; the rest are looked up through the throttled queue, and
+// only when the user has turned lookups on and is online.
+export async function geocodePlaces(queries: string[]): Promise<Map<string, Coordinates>> {
+  const cache = loadCache()
+  const found = new Map<string, Coordinates>()
+
+  for (const query of new Set(queries)) {
+    const key = normalizeQuery(query)
+    if (!key) continue
+    if (!(key in cache)) {
+      if (!isGeocodingEnabled() || !navigator.onLine) continue
+      try {
+        cache[key] = await lookUp(query)
+      } catch (error) {
+        console.error(`Failed to geocode "${query}":`, error)
+        continue
+      }
+      // Saved as each one comes in, over whatever other checks have cached
+      // in the meantime, since throttled lookups take a while
+      saveCache({ ...loadCache(), [key]: cache[key] })
+    }
+    const coordinates = cache[key]
+    if (coordinates) found.set(query, coordinates)
+  }
+
+  return found
+}
+
+// Great-circle distance
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(b.lat - a.lat)
+  const dLon = toRadians(b.lon - a.lon)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(h))
+}
+
+// Streets don't run straight, so distances are stretched a bit first
+const DETOUR_FACTOR = 1.3
+const WALKING_KMH = 4.5
+const CITY_KMH = 25
+const INTERCITY_KMH = 80
+// Waiting for a train or taxi, parking, finding the entrance
+const TRANSFER_OVERHEAD_MINUTES = 10
+
+// A rough door-to-door time from a straight-line distance: walking for
+// short hops, city transport across town, road or rail between cities
+export function estimateTravelMinutes(km: number): number {
+  const distance = km * DETOUR_FACTOR
+  if (distance <= 1.5) return Math.round((distance / WALKING_KMH) * 60)
+  const speed = distance <= 50 ? CITY_KMH : INTERCITY_KMH
+  return Math.round((distance / speed) * 60) + TRANSFER_OVERHEAD_MINUTES
+}
@@ -0,0 +1,80 @@
+import type { Trip, TripLeg } from './database'
+import { formatDate } from './dates'
+
+export function createLegId() {
+  return `leg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function sortLegs<T extends Pick<TripLeg, 'arrivalDate' | 'departureDate'>>(legs: T[]): T[] {
+  return [...legs].sort((a, b) =>
+    a.arrivalDate.localeCompare(b.arrivalDate) || a.departureDate.localeCompare(b.departureDate)
+  )
+}
+
+export function formatLegPlace(leg: Pick<TripLeg, 'city' | 'country'>) {
+  return leg.country ? `${leg.city}, ${leg.country}` : leg.city
+}
+
+// Checks legs against each other and against the trip dates. Problems are
+// keyed by the leg's index in `legs`, so forms can point at the right row.
+export function validateLegs(
+  legs: Array<Pick<TripLeg, 'city' | 'arrivalDate' | 'departureDate'>>,
+  startDate: string,
+  endDate: string
+): Record<number, string> {
+  const issues: Record<number, string> = {}
+
+  legs.forEach((leg, index) => {
+    if (!leg.city.trim()) {
+      issues[index] = 'City is required'
+    } else if (!leg.arrivalDate || !leg.departureDate) {
+      issues[index] = 'Arrival and departure dates are required'
+    } else if (leg.departureDate < leg.arrivalDate) {
+      issues[index] = 'Departure must be on or after arrival'
+    } else if (startDate && endDate && (leg.arrivalDate < startDate || leg.departureDate > endDate)) {
+      issues[index] = `Must fall within the trip (${formatDate(startDate, 'short')} - ${formatDate(endDate, 'short')})`
+    }
+  })
+
+  // Sharing the changeover day is fine; anything more is an overlap
+  const order = legs
+    .map((leg, index) => ({ leg, index }))
+    .filter(({ leg, index }) => !issues[index] && leg.arrivalDate && leg.departureDate)
+    .sort((a, b) => a.leg.arrivalDate.localeCompare(b.leg.arrivalDate))
+  // A long leg can overlap several later ones, so each is checked against
+  // whichever earlier leg runs latest, not just the one before it
+  let latest = order[0]
+  for (const current of order.slice(1)) {
+    if (current.leg.arrivalDate < latest.leg.departureDate) {
+      issues[current.index] = `Overlaps with ${latest.leg.city.trim()}`
+    }
+    if (current.leg.departureDate > latest.leg.departureDate) latest = current
+  }
+
+  return issues
+}
+
+// Cities in travel order, or the free-text destination for trips without legs
+export function getRouteStops(trip: Pick<Trip, 'destination' | 'legs'>): string[] {
+  if (trip.legs?.length) return sortLegs(trip.legs).map(leg => leg.city)
+  return trip.destination ? [trip.destination] : []
+}
+
+export function formatRoute(trip: Pick<Trip, 'destination' | 'legs'>): string {
+  return getRouteStops(trip).join(' → ')
+}
+
+// The leg you're in on a given day. On a changeover day that's the one
+// being arrived at.
+export function findLegForDate(legs: TripLeg[] | undefined, dateKey: string): TripLeg | undefined {
+  return sortLegs(legs ?? [])
+    .reverse()
+    .find(leg => leg.arrivalDate <= dateKey && dateKey <= leg.departureDate)
+}
+
+export function getEntryLeg(
+  legs: TripLeg[] | undefined,
+  entry: { legId?: string; date: string }
+): TripLeg | undefined {
+  return legs?.find(leg => leg.id === entry.legId) ?? findLegForDate(legs, entry.date)
+}
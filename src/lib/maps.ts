@@ -0,0 +1,10 @@
+export function getGoogleMapsUrl(address?: string, location?: string) {
+  const query = encodeURIComponent(address || location || '')
+  return `https://www.google.com/maps/search/?api=1&query=${query}`
+}
+
+export function getDirectionsUrl(fromAddress: string, toAddress: string) {
+  const origin = encodeURIComponent(fromAddress)
+  const destination = encodeURIComponent(toAddress)
+  return `https://www.google.com/maps/dir/?api=1&origin=${origin}&destination=${destination}`
+}
@@ -0,0 +1,200 @@
+import type { Trip, TripEntry, PackingItem, Expense, TripMember, ShareLink } from './database'
+
+// Demo data served by the in-memory storage backend
+export const mockTrips: Trip[] = [
+  {
+    id: '1',
+    userId: 'mock-user',
+    title: 'Tokyo Adventure',
+    description: 'Exploring the vibrant culture and cuisine of Japan',
+    destination: 'Tokyo, Japan',
+    startDate: '2024-03-15',
+    endDate: '2024-03-22',
+    travellers: [
+      { id: 'traveller_alex', name: 'Alex', nationality: 'American', loyaltyNumbers: [{ program: 'ANA Mileage Club', number: '4410 2283' }] },
+      { id: 'traveller_sam', name: 'Sam', nationality: 'Canadian' }
+    ],
+    budget: {
+      currency: 'USD',
+      categories: { accommodation: 1400, transportation: 300, dining: 500, activity: 250, shopping: 300 },
+      rates: { JPY: 0.0067 }
+    },
+    createdAt: '2024-01-15T10:00:00Z',
+    updatedAt: '2024-01-15T10:00:00Z'
+  },
+  {
+    id: '2',
+    userId: 'mock-user',
+    title: 'European Summer',
+    description: 'Multi-city tour across Europe',
+    destination: 'Paris → Rome → Barcelona',
+    startDate: '2024-06-10',
+    endDate: '2024-06-25',
+    legs: [
+      { id: 'leg_paris', city: 'Paris', country: 'France', arrivalDate: '2024-06-10', departureDate: '2024-06-15' },
+      { id: 'leg_rome', city: 'Rome', country: 'Italy', arrivalDate: '2024-06-15', departureDate: '2024-06-20' },
+      { id: 'leg_barcelona', city: 'Barcelona', country: 'Spain', arrivalDate: '2024-06-20', departureDate: '2024-06-25' }
+    ],
+    createdAt: '2024-01-20T14:30:00Z',
+    updatedAt: '2024-01-20T14:30:00Z'
+  },
+  {
+    id: '3',
+    userId: 'mock-user',
+    title: 'Bali Retreat',
+    description: 'Relaxing getaway in tropical paradise',
+    destination: 'Bali, Indonesia',
+    startDate: '2024-08-05',
+    endDate: '2024-08-12',
+    createdAt: '2024-02-01T09:15:00Z',
+    updatedAt: '2024-02-01T09:15:00Z'
+  }
+]
+
+export const mockTripEntries: TripEntry[] = [
+  {
+    id: '1',
+    tripId: '1',
+    userId: 'mock-user',
+    title: 'Arrival at Narita Airport',
+    description: 'Flight arrival and transfer to hotel',
+    location: 'Narita International Airport',
+    address: '1-1 Furugome, Narita, Chiba 282-0004, Japan',
+    date: '2024-03-15',
+    startTime: '14:30',
+    endTime: '16:00',
+    category: 'transport',
+    createdAt: '2024-01-15T10:00:00Z',
+    updatedAt: '2024-01-15T10:00:00Z'
+  },
+  {
+    id: '2',
+    tripId: '1',
+    userId: 'mock-user',
+    title: 'Visit Senso-ji Temple',
+    description: 'Explore Tokyo\'s oldest temple in Asakusa',
+    location: 'Senso-ji Temple',
+    address: '2-3-1 Asakusa, Taito City, Tokyo 111-0032, Japan',
+    date: '2024-03-16',
+    startTime: '10:00',
+    endTime: '12:00',
+    category: 'sightseeing',
+    createdAt: '2024-01-15T10:05:00Z',
+    updatedAt: '2024-01-15T10:05:00Z'
+  },
+  {
+    id: '3',
+    tripId: '1',
+    userId: 'mock-user',
+    title: 'Sushi Dinner at Tsukiji',
+    description: 'Fresh sushi at the famous fish market',
+    location: 'Tsukiji Outer Market',
+    address: '4 Chome Tsukiji, Chuo City, Tokyo 104-0045, Japan',
+    date: '2024-03-16',
+    startTime: '18:00',
+    endTime: '20:00',
+    category: 'dining',
+    createdAt: '2024-01-15T10:10:00Z',
+    updatedAt: '2024-01-15T10:10:00Z'
+  }
+]
+
+export const mockPackingItems: PackingItem[] = [
+  {
+    id: '1',
+    tripId: '1',
+    userId: 'mock-user',
+    itemName: 'Passport',
+    category: 'documents',
+    isPacked: true,
+    notes: 'Check expiration date',
+    createdAt: '2024-01-15T10:00:00Z'
+  },
+  {
+    id: '2',
+    tripId: '1',
+    userId: 'mock-user',
+    itemName: 'Camera',
+    category: 'electronics',
+    isPacked: false,
+    notes: 'Don\'t forget extra batteries',
+    createdAt: '2024-01-15T10:05:00Z'
+  },
+  {
+    id: '3',
+    tripId: '1',
+    userId: 'mock-user',
+    itemName: 'Comfortable Walking Shoes',
+    category: 'clothing',
+    isPacked: false,
+    createdAt: '2024-01-15T10:10:00Z'
+  }
+]
+
+export const mockExpenses: Expense[] = [
+  {
+    id: '1',
+    tripId: '1',
+    userId: 'mock-user',
+    description: 'Hotel Gracery Shinjuku',
+    amount: 1260,
+    currency: 'USD',
+    paidBy: 'Alex',
+    split: { method: 'equal', parts: { Alex: 1, Sam: 1 } },
+    date: '2024-03-15',
+    category: 'accommodation',
+    createdAt: '2024-03-15T18:00:00Z'
+  },
+  {
+    id: '2',
+    tripId: '1',
+    userId: 'mock-user',
+    description: 'Narita Express tickets',
+    amount: 6140,
+    currency: 'JPY',
+    paidBy: 'Sam',
+    split: { method: 'equal', parts: { Alex: 1, Sam: 1 } },
+    date: '2024-03-15',
+    category: 'transportation',
+    createdAt: '2024-03-15T15:00:00Z'
+  },
+  {
+    id: '3',
+    tripId: '1',
+    userId: 'mock-user',
+    entryId: '3',
+    description: 'Sushi Dinner at Tsukiji',
+    amount: 18500,
+    currency: 'JPY',
+    paidBy: 'Alex',
+    split: { method: 'exact', parts: { Alex: 10500, Sam: 8000 } },
+    date: '2024-03-16',
+    category: 'dining',
+    createdAt: '2024-03-16T21:00:00Z'
+  }
+]
+
+export const mockTripMembers: TripMember[] = [
+  {
+    id: '1',
+    tripId: '1',
+    email: 'sam@example.com',
+    accountId: 'mock-sam',
+    displayName: 'Sam',
+    role: 'editor',
+    invitedBy: 'mock-user',
+    createdAt: '2024-02-02T10:00:00Z'
+  }
+]
+
+// Opens at /share/tokyo-demo when running on the memory backend
+export const mockShareLinks: ShareLink[] = [
+  {
+    id: '1',
+    tripId: '1',
+    userId: 'mock-user',
+    token: 'tokyo-demo',
+    hidePrivate: true,
+    createdAt: '2024-02-03T09:00:00Z'
+  }
+]
@@ -0,0 +1,150 @@
+import type { NewTrip, NewTripEntry } from './database'
+import { isKnownCategory, normalizeCategory } from './categories'
+import { guessTimeZone } from './time-zones'
+
+// Shape produced by the smart text parser
+export interface ParsedTripEntry {
+  // Client-side row identity while the user reviews the import
+  key?: string
+  title: string
+  date: string
+  time?: string
+  location?: string
+  description?: string
+  category: string
+}
+
+export interface ParsedTrip {
+  title: string
+  destination: string
+  startDate: string
+  endDate: string
+  entries: ParsedTripEntry[]
+}
+
+const TIME_PATTERN = /(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/i
+
+function toClockTime(match: RegExpMatchArray): string | undefined {
+  let hours = Number(match[1])
+  const minutes = Number(match[2] ?? 0)
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '')
+
+  if (meridiem === 'pm' && hours < 12) hours += 12
+  if (meridiem === 'am' && hours === 12) hours = 0
+  if (hours > 23 || minutes > 59) return undefined
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+}
+
+// Accepts "14:30", "2:30 PM", "10am-12pm" or "14:30 - 16:00" and returns
+// 24h HH:MM values. A trailing meridiem applies to both ends ("10-11am").
+export function parseTimeRange(time?: string): { startTime?: string; endTime?: string } {
+  if (!time?.trim()) return {}
+
+  const [startPart, endPart] = time.split(/\s*(?:-|–|to)\s*/i)
+  const startMatch = startPart?.match(TIME_PATTERN)
+  const endMatch = endPart?.match(TIME_PATTERN)
+  if (!startMatch) return {}
+
+  if (endMatch && !startMatch[3] && endMatch[3]) {
+    startMatch[3] = endMatch[3]
+  }
+
+  return {
+    startTime: toClockTime(startMatch),
+    endTime: endMatch ? toClockTime(endMatch) : undefined
+  }
+}
+
+export function createRowKey() {
+  return `row_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Also maps whatever category the parser produced onto the registry
+export function withRowKeys(trip: ParsedTrip): ParsedTrip {
+  return {
+    ...trip,
+    entries: trip.entries.map(entry => ({
+      ...entry,
+      key: entry.key ?? createRowKey(),
+      category: normalizeCategory(entry.category)
+    }))
+  }
+}
+
+export type FieldIssues<T> = Partial<Record<keyof T, string>>
+
+export interface ParsedTripIssues {
+  trip: FieldIssues<ParsedTrip>
+  entries: FieldIssues<ParsedTripEntry>[]
+  count: number
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+export function isIsoDate(value: string) {
+  if (!ISO_DATE.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+// Flags everything that would produce a broken trip, so the review step
+// can highlight it before anything is saved
+export function validateParsedTrip(trip: ParsedTrip): ParsedTripIssues {
+  const tripIssues: FieldIssues<ParsedTrip> = {}
+  if (!trip.title.trim()) tripIssues.title = 'Title is required'
+  if (!trip.destination.trim()) tripIssues.destination = 'Destination is required'
+  if (!isIsoDate(trip.startDate)) tripIssues.startDate = 'Use YYYY-MM-DD'
+  if (!isIsoDate(trip.endDate)) {
+    tripIssues.endDate = 'Use YYYY-MM-DD'
+  } else if (isIsoDate(trip.startDate) && trip.endDate < trip.startDate) {
+    tripIssues.endDate = 'End date must be after start date'
+  }
+
+  const rangeKnown = !tripIssues.startDate && !tripIssues.endDate
+  const entryIssues = trip.entries.map(entry => {
+    const issues: FieldIssues<ParsedTripEntry> = {}
+    if (!entry.title.trim()) issues.title = 'Title is required'
+    if (!isIsoDate(entry.date)) {
+      issues.date = 'Use YYYY-MM-DD'
+    } else if (rangeKnown && (entry.date < trip.startDate || entry.date > trip.endDate)) {
+      issues.date = 'Outside the trip dates'
+    }
+    if (entry.time?.trim() && !parseTimeRange(entry.time).startTime) {
+      issues.time = 'Unrecognized time'
+    }
+    if (!isKnownCategory(entry.category)) issues.category = 'Pick a category'
+    return issues
+  })
+
+  const count = Object.keys(tripIssues).length +
+    entryIssues.reduce((total, issues) => total + Object.keys(issues).length, 0)
+
+  return { trip: tripIssues, entries: entryIssues, count }
+}
+
+export function toNewTrip(parsed: ParsedTrip, userId: string): NewTrip {
+  return {
+    userId,
+    title: parsed.title,
+    description: '',
+    destination: parsed.destination,
+    startDate: parsed.startDate,
+    endDate: parsed.endDate,
+    timeZone: guessTimeZone(parsed.destination)
+  }
+}
+
+export function toNewTripEntry(entry: ParsedTripEntry): Omit<NewTripEntry, 'tripId' | 'userId'> {
+  const { startTime, endTime } = parseTimeRange(entry.time)
+  return {
+    title: entry.title.trim(),
+    description: entry.description || '',
+    location: entry.location || '',
+    address: '',
+    date: entry.date,
+    startTime: startTime || '',
+    endTime: endTime || '',
+    category: entry.category
+  }
+}
@@ -0,0 +1,38 @@
+import { blink } from '../../blink/client'
+import type { RealtimeTransport, TripChange } from './types'
+
+const MESSAGE_TYPE = 'trip-change'
+
+function channelName(tripId: string) {
+  return `trip-${tripId}`
+}
+
+export class BlinkRealtimeTransport implements RealtimeTransport {
+  readonly kind = 'blink' as const
+
+  async publish(change: TripChange) {
+    await blink.realtime.publish(channelName(change.tripId), MESSAGE_TYPE, change)
+  }
+
+  subscribe(tripId: string, listener: (change: TripChange) => void) {
+    let unsubscribe = () => {}
+    let cancelled = false
+
+    blink.realtime.subscribe(channelName(tripId), message => {
+      if (message.type === MESSAGE_TYPE) listener(message.data as TripChange)
+    })
+      .then(stop => {
+        if (cancelled) {
+          stop()
+        } else {
+          unsubscribe = stop
+        }
+      })
+      .catch(error => console.error('Failed to subscribe to trip changes:', error))
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }
+}
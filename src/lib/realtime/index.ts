@@ -0,0 +1,38 @@
+import { BlinkRealtimeTransport } from './blink'
+import { LocalEventBus } from './local'
+import type { StorageBackendKind } from '../repositories'
+import type { RealtimeTransport, TripChange, TripChangeKind } from './types'
+
+export type * from './types'
+export { BlinkRealtimeTransport, LocalEventBus }
+
+// Identifies this page load among everyone publishing to a trip
+export const CLIENT_ID = `client_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+
+export const localEventBus = new LocalEventBus()
+
+// Local trips live in localStorage, which every tab shares, so their changes
+// are shared too
+const sharedEventBus = new LocalEventBus('travelplan:trip-changes')
+
+// Changes travel the same way the data does: over Blink when that's where
+// trips live, to the other tabs for local trips, and only within this page
+// for in-memory ones
+export function selectRealtimeTransport(kind: StorageBackendKind): RealtimeTransport {
+  if (kind === 'blink') return new BlinkRealtimeTransport()
+  return kind === 'local' ? sharedEventBus : localEventBus
+}
+
+// Ring around records someone else just touched
+export const CHANGE_HIGHLIGHT_CLASS = 'ring-2 ring-primary/40 transition-shadow'
+
+const CHANGE_VERBS: Record<TripChangeKind, string> = {
+  created: 'added',
+  updated: 'changed',
+  deleted: 'removed'
+}
+
+// "Sam added", "Alex removed"... for attributions and toasts
+export function describeChange(change: Pick<TripChange, 'kind' | 'actor'>) {
+  return `${change.actor.name} ${CHANGE_VERBS[change.kind]}`
+}
@@ -0,0 +1,39 @@
+import type { RealtimeTransport, TripChange } from './types'
+
+// In-browser stand-in for the backend channel. Used with the local and
+// memory backends, and by anything that wants to play a collaborator.
+// Given a channel name, changes also reach other tabs of the app through a
+// BroadcastChannel; without one they stay within this page.
+export class LocalEventBus implements RealtimeTransport {
+  readonly kind = 'local' as const
+  private listeners = new Map<string, Set<(change: TripChange) => void>>()
+  private channel: BroadcastChannel | null = null
+
+  constructor(channelName?: string) {
+    if (channelName && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(channelName)
+      this.channel.addEventListener('message', event => this.deliver(event.data as TripChange))
+    }
+  }
+
+  async publish(change: TripChange) {
+    // Deliver on a later tick, like a message coming back over the network
+    await Promise.resolve()
+    this.channel?.postMessage(change)
+    this.deliver(change)
+  }
+
+  subscribe(tripId: string, listener: (change: TripChange) => void) {
+    const listeners = this.listeners.get(tripId) ?? new Set()
+    listeners.add(listener)
+    this.listeners.set(tripId, listeners)
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) this.listeners.delete(tripId)
+    }
+  }
+
+  private deliver(change: TripChange) {
+    this.listeners.get(change.tripId)?.forEach(listener => listener(change))
+  }
+}
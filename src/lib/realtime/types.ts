@@ -0,0 +1,27 @@
+import type { PackingItem, TripEntry } from '../database'
+
+// What a change was made to, with the record as it was saved
+export type TripChangeTarget =
+  | { collection: 'tripEntries'; record: TripEntry }
+  | { collection: 'packingItems'; record: PackingItem }
+
+export type TripChangeKind = 'created' | 'updated' | 'deleted'
+
+// One write to a trip, as broadcast to everyone else looking at it
+export type TripChange = TripChangeTarget & {
+  id: string
+  tripId: string
+  kind: TripChangeKind
+  // Account that made the change, for "who changed this"
+  actor: { id: string; name: string }
+  // The browser tab it came from, so a tab can skip its own echoes
+  origin: string
+  at: string
+}
+
+export interface RealtimeTransport {
+  readonly kind: 'blink' | 'local'
+  publish(change: TripChange): Promise<void>
+  // Returns an unsubscribe function; listeners get every change to the trip
+  subscribe(tripId: string, listener: (change: TripChange) => void): () => void
+}
@@ -0,0 +1,92 @@
+import { blink } from '../../blink/client'
+import { assertUnchanged } from './conflicts'
+import type { CollectionName, ListOptions, RecordOf, TripRepository, UpdateOptions } from './types'
+
+// SQLite columns only hold scalars, so structured fields are stored as JSON
+// text and decoded again on the way out
+const JSON_FIELDS: { [C in CollectionName]?: Array<keyof RecordOf<C>> } = {
+  trips: ['legs', 'travellers', 'budget'],
+  tripEntries: ['flight', 'stay', 'transport', 'travellerIds'],
+  packingItems: ['travellerIds'],
+  expenses: ['split']
+}
+
+function encode<C extends CollectionName>(collection: C, record: Partial<RecordOf<C>>) {
+  const fields = JSON_FIELDS[collection] as string[] | undefined
+  if (!fields) return record
+  const encoded: Record<string, unknown> = { ...record }
+  for (const field of fields) {
+    if (encoded[field] !== undefined && encoded[field] !== null) {
+      encoded[field] = JSON.stringify(encoded[field])
+    }
+  }
+  return encoded as Partial<RecordOf<C>>
+}
+
+function decode<C extends CollectionName>(collection: C, record: RecordOf<C>): RecordOf<C> {
+  const fields = JSON_FIELDS[collection] as string[] | undefined
+  if (!fields) return record
+  const decoded: Record<string, unknown> = { ...record }
+  for (const field of fields) {
+    const value = decoded[field]
+    if (typeof value === 'string') {
+      try {
+        decoded[field] = value ? JSON.parse(value) : undefined
+      } catch {
+        decoded[field] = undefined
+      }
+    }
+  }
+  return decoded as unknown as RecordOf<C>
+}
+
+export class BlinkTripRepository implements TripRepository {
+  readonly kind = 'blink' as const
+  readonly label = 'Blink cloud'
+
+  private table<C extends CollectionName>(collection: C) {
+    return blink.db.table<RecordOf<C>>(collection)
+  }
+
+  async list<C extends CollectionName>(collection: C, options: ListOptions<RecordOf<C>> = {}) {
+    const records = await this.table(collection).list({
+      where: options.where,
+      orderBy: options.orderBy as Record<string, 'asc' | 'desc'> | undefined,
+      limit: options.limit
+    })
+    return records.map(record => decode(collection, record))
+  }
+
+  async get<C extends CollectionName>(collection: C, id: string) {
+    const record = await this.table(collection).get(id)
+    return record ? decode(collection, record) : null
+  }
+
+  async create<C extends CollectionName>(collection: C, record: RecordOf<C>) {
+    const created = await this.table(collection).create(encode(collection, record) as RecordOf<C>)
+    return decode(collection, created)
+  }
+
+  async update<C extends CollectionName>(
+    collection: C,
+    id: string,
+    changes: Partial<RecordOf<C>>,
+    options: UpdateOptions = {}
+  ) {
+    if (options.ifUpdatedAt !== undefined) {
+      // Blink has no conditional update, so this narrows the race to the
+      // gap between the read and the write rather than closing it
+      const current = await this.get(collection, id)
+      if (!current) {
+        throw new Error(`${collection} record ${id} not found`)
+      }
+      assertUnchanged(collection, current, changes, options.ifUpdatedAt)
+    }
+    const updated = await this.table(collection).update(id, encode(collection, changes))
+    return decode(collection, updated)
+  }
+
+  async delete<C extends CollectionName>(collection: C, id: string) {
+    await this.table(collection).delete(id)
+  }
+}
@@ -0,0 +1,123 @@
+import type { CollectionName, RecordOf } from './types'
+
+// Bookkeeping fields that never take part in a merge
+const SYSTEM_FIELDS = new Set(['id', 'userId', 'tripId', 'createdAt', 'updatedAt'])
+
+export interface EditConflict<C extends CollectionName = CollectionName> {
+  id: string
+  collection: C
+  recordId: string
+  // What this device tried to save, on top of the version it had seen
+  local: RecordOf<C>
+  // What the backend holds right now
+  remote: RecordOf<C>
+  detectedAt: string
+}
+
+export class ConflictError extends Error {
+  conflict: EditConflict
+
+  constructor(conflict: EditConflict) {
+    super(`${conflict.collection} record ${conflict.recordId} was changed elsewhere`)
+    this.name = 'ConflictError'
+    this.conflict = conflict
+  }
+}
+
+export function createConflict<C extends CollectionName>(
+  collection: C,
+  remote: RecordOf<C>,
+  changes: Partial<RecordOf<C>>
+): EditConflict<C> {
+  return {
+    id: `conflict_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    collection,
+    recordId: remote.id,
+    local: { ...remote, ...changes, id: remote.id },
+    remote,
+    detectedAt: new Date().toISOString()
+  }
+}
+
+// ifUpdatedAt is the updatedAt the caller last saw; null means the record
+// had none. Undefined skips the check (last writer wins).
+export function assertUnchanged<C extends CollectionName>(
+  collection: C,
+  current: RecordOf<C>,
+  changes: Partial<RecordOf<C>>,
+  ifUpdatedAt: string | null | undefined
+) {
+  if (ifUpdatedAt === undefined) return
+  if ((current.updatedAt ?? null) !== ifUpdatedAt) {
+    throw new ConflictError(createConflict(collection, current, changes))
+  }
+}
+
+// Structured fields (flight details and the like) compare by content
+function sameValue(a: unknown, b: unknown) {
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a ?? '') === JSON.stringify(b ?? '')
+  }
+  return (a ?? '') === (b ?? '')
+}
+
+export function getConflictingFields(conflict: EditConflict): string[] {
+  const local = conflict.local as unknown as Record<string, unknown>
+  const remote = conflict.remote as unknown as Record<string, unknown>
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)])
+  return [...fields].filter(field =>
+    !SYSTEM_FIELDS.has(field) && !sameValue(local[field], remote[field])
+  )
+}
+
+// Conflicts found while replaying queued offline writes have no caller to
+// throw to, so they are parked here until the user resolves them. The
+// offline repository keeps a copy in IndexedDB, since the queued write is
+// gone by then, and puts it back here after a reload.
+const pendingConflicts: EditConflict[] = []
+const listeners = new Set<(conflicts: EditConflict[]) => void>()
+
+function notify() {
+  const snapshot = [...pendingConflicts]
+  listeners.forEach(listener => listener(snapshot))
+}
+
+export function reportConflict(conflict: EditConflict) {
+  if (pendingConflicts.some(pending => pending.id === conflict.id)) return
+  pendingConflicts.push(conflict)
+  notify()
+}
+
+// A later offline edit of a record that is already in conflict is folded
+// into the open conflict instead of being replayed against the remote
+export function amendConflict<C extends CollectionName>(
+  conflictId: string,
+  changes: Partial<RecordOf<C>>
+): EditConflict | undefined {
+  const conflict = pendingConflicts.find(pending => pending.id === conflictId)
+  if (!conflict) return
+  conflict.local = { ...conflict.local, ...changes, id: conflict.recordId }
+  notify()
+  return conflict
+}
+
+export function findConflict(collection: CollectionName, recordId: string) {
+  return pendingConflicts.find(conflict =>
+    conflict.collection === collection && conflict.recordId === recordId
+  )
+}
+
+export function dismissConflict(conflictId: string) {
+  const index = pendingConflicts.findIndex(conflict => conflict.id === conflictId)
+  if (index === -1) return
+  pendingConflicts.splice(index, 1)
+  notify()
+}
+
+export function subscribeConflicts(listener: (conflicts: EditConflict[]) => void) {
+  listeners.add(listener)
+  listener([...pendingConflicts])
+  return () => {
+    listeners.delete(listener)
+  }
+}
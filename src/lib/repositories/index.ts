@@ -0,0 +1,110 @@
+import { blink } from '../../blink/client'
+import { mockTrips, mockTripEntries, mockPackingItems, mockExpenses, mockTripMembers, mockShareLinks } from '../mock-data'
+import { BlinkTripRepository } from './blink'
+import { IndexedDbStore } from './indexeddb'
+import { LocalTripRepository } from './local'
+import { MemoryTripRepository } from './memory'
+import { OfflineFirstTripRepository } from './offline'
+import type { StorageBackendInfo, StorageBackendKind, TripRepository } from './types'
+
+export type * from './types'
+export {
+  ConflictError,
+  dismissConflict,
+  getConflictingFields,
+  subscribeConflicts,
+  type EditConflict
+} from './conflicts'
+export {
+  describeRejectedWrite,
+  dismissRejectedWrite,
+  subscribeRejectedWrites,
+  type RejectedWrite
+} from './rejected'
+export { BlinkTripRepository, LocalTripRepository, MemoryTripRepository, OfflineFirstTripRepository }
+
+export interface SelectedRepository {
+  repository: TripRepository
+  info: StorageBackendInfo
+}
+
+const BACKEND_KINDS: StorageBackendKind[] = ['blink', 'local', 'memory']
+
+function getConfiguredBackend(): StorageBackendKind | null {
+  const configured = import.meta.env.VITE_STORAGE_BACKEND as string | undefined
+  if (!configured) return null
+  if (BACKEND_KINDS.includes(configured as StorageBackendKind)) {
+    return configured as StorageBackendKind
+  }
+  console.warn(`Unknown VITE_STORAGE_BACKEND "${configured}", ignoring it`)
+  return null
+}
+
+async function isBlinkReachable(userId: string): Promise<boolean> {
+  try {
+    await blink.db.table('trips').list({ where: { userId }, limit: 1 })
+    return true
+  } catch (error) {
+    console.log('Blink database not available:', error)
+    return false
+  }
+}
+
+// userId is null for visitors of a public share link
+function createRepository(kind: StorageBackendKind, userId: string | null): TripRepository {
+  switch (kind) {
+    case 'blink':
+      // Queue writes in IndexedDB so edits made offline are replayed later.
+      // Visitors have nothing to queue, nor a session to replay it with.
+      return userId && IndexedDbStore.isSupported()
+        ? new OfflineFirstTripRepository(new BlinkTripRepository())
+        : new BlinkTripRepository()
+    case 'local':
+      return new LocalTripRepository()
+    case 'memory': {
+      // Demo data is re-owned by the signed-in user so userId filters match
+      const owner = userId ?? 'mock-user'
+      return new MemoryTripRepository({
+        trips: mockTrips.map(trip => ({ ...trip, userId: owner })),
+        tripEntries: mockTripEntries.map(entry => ({ ...entry, userId: owner })),
+        packingItems: mockPackingItems.map(item => ({ ...item, userId: owner })),
+        expenses: mockExpenses.map(expense => ({ ...expense, userId: owner })),
+        tripMembers: mockTripMembers.map(member => ({ ...member, invitedBy: owner })),
+        shareLinks: mockShareLinks.map(link => ({ ...link, userId: owner }))
+      })
+    }
+  }
+}
+
+// An explicit VITE_STORAGE_BACKEND always wins. Otherwise Blink is used when
+// it answers or when the device is simply offline (its writes are queued),
+// and browser-local storage when Blink is online but not set up.
+export async function selectRepository(userId: string | null): Promise<SelectedRepository> {
+  const configured = getConfiguredBackend()
+  let kind: StorageBackendKind
+  let reason: string | undefined
+
+  if (configured) {
+    kind = configured
+    reason = 'Configured with VITE_STORAGE_BACKEND'
+  } else if (!userId) {
+    // Visitors of a public link read no tables; their link is resolved by
+    // the shared-itinerary function
+    kind = 'blink'
+    reason = 'Signed out: only public share links can be opened'
+  } else if (await isBlinkReachable(userId)) {
+    kind = 'blink'
+  } else if (typeof navigator !== 'undefined' && !navigator.onLine && IndexedDbStore.isSupported()) {
+    kind = 'blink'
+    reason = 'Offline: changes are saved on this device and synced later'
+  } else {
+    kind = 'local'
+    reason = 'Blink database is unreachable'
+  }
+
+  const repository = createRepository(kind, userId)
+  return {
+    repository,
+    info: { kind, label: repository.label, reason }
+  }
+}
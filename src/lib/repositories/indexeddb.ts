@@ -0,0 +1,170 @@
+import type { EditConflict } from './conflicts'
+import type { CollectionName, RecordOf } from './types'
+
+const DB_NAME = 'travelplan'
+const DB_VERSION = 2
+const RECORDS_STORE = 'records'
+const OUTBOX_STORE = 'outbox'
+const CONFLICTS_STORE = 'conflicts'
+
+export type QueuedWrite =
+  | { type: 'create'; collection: CollectionName; id: string; record: RecordOf<CollectionName> }
+  | {
+      type: 'update'
+      collection: CollectionName
+      id: string
+      changes: Partial<RecordOf<CollectionName>>
+      ifUpdatedAt?: string | null
+    }
+  | { type: 'delete'; collection: CollectionName; id: string }
+
+export type OutboxEntry = QueuedWrite & {
+  key: number
+  queuedAt: string
+}
+
+interface StoredRecord {
+  collection: CollectionName
+  id: string
+  record: RecordOf<CollectionName>
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// All collections share one object store keyed by [collection, id], so new
+// collections never need a schema upgrade. Queued writes live in an
+// auto-incrementing outbox, which keeps them in the order they were made.
+// Replayed writes that ran into a conflict are kept in their own store until
+// the user resolves them.
+export class IndexedDbStore {
+  private db: Promise<IDBDatabase> | null = null
+
+  static isSupported() {
+    return typeof indexedDB !== 'undefined'
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+            const records = db.createObjectStore(RECORDS_STORE, { keyPath: ['collection', 'id'] })
+            records.createIndex('collection', 'collection')
+          }
+          if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+            db.createObjectStore(OUTBOX_STORE, { keyPath: 'key', autoIncrement: true })
+          }
+          if (!db.objectStoreNames.contains(CONFLICTS_STORE)) {
+            db.createObjectStore(CONFLICTS_STORE, { keyPath: 'id' })
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.db
+  }
+
+  private async store(name: string, mode: IDBTransactionMode) {
+    const db = await this.open()
+    const transaction = db.transaction(name, mode)
+    return { store: transaction.objectStore(name), done: transactionDone(transaction) }
+  }
+
+  // Waits for the transaction as well as the request, so an abort rejects
+  // here instead of going unhandled
+  private async read<T>(name: string, query: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const { store, done } = await this.store(name, 'readonly')
+    const [result] = await Promise.all([promisify(query(store)), done])
+    return result
+  }
+
+  async getAll<C extends CollectionName>(collection: C): Promise<RecordOf<C>[]> {
+    const rows = await this.read(RECORDS_STORE, store => store.index('collection').getAll(collection)) as StoredRecord[]
+    return rows.map(row => row.record as RecordOf<C>)
+  }
+
+  async get<C extends CollectionName>(collection: C, id: string): Promise<RecordOf<C> | null> {
+    const row = await this.read(RECORDS_STORE, store => store.get([collection, id])) as StoredRecord | undefined
+    return row ? row.record as RecordOf<C> : null
+  }
+
+  async putMany<C extends CollectionName>(collection: C, records: RecordOf<C>[]) {
+    const { store, done } = await this.store(RECORDS_STORE, 'readwrite')
+    for (const record of records) {
+      store.put({ collection, id: record.id, record } satisfies StoredRecord)
+    }
+    await done
+  }
+
+  async put<C extends CollectionName>(collection: C, record: RecordOf<C>) {
+    await this.putMany(collection, [record])
+  }
+
+  async deleteMany(collection: CollectionName, ids: string[]) {
+    const { store, done } = await this.store(RECORDS_STORE, 'readwrite')
+    for (const id of ids) {
+      store.delete([collection, id])
+    }
+    await done
+  }
+
+  async delete(collection: CollectionName, id: string) {
+    await this.deleteMany(collection, [id])
+  }
+
+  async enqueue(write: QueuedWrite) {
+    const { store, done } = await this.store(OUTBOX_STORE, 'readwrite')
+    store.add({ ...write, queuedAt: new Date().toISOString() })
+    await done
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    return this.read(OUTBOX_STORE, store => store.getAll()) as Promise<OutboxEntry[]>
+  }
+
+  async countOutbox(): Promise<number> {
+    return this.read(OUTBOX_STORE, store => store.count())
+  }
+
+  async dequeue(key: number) {
+    const { store, done } = await this.store(OUTBOX_STORE, 'readwrite')
+    store.delete(key)
+    await done
+  }
+
+  async getConflicts(): Promise<EditConflict[]> {
+    return this.read(CONFLICTS_STORE, store => store.getAll()) as Promise<EditConflict[]>
+  }
+
+  async putConflict(conflict: EditConflict) {
+    const { store, done } = await this.store(CONFLICTS_STORE, 'readwrite')
+    store.put(conflict)
+    await done
+  }
+
+  // Swaps the stored conflicts for these in one go
+  async replaceConflicts(conflicts: EditConflict[]) {
+    const { store, done } = await this.store(CONFLICTS_STORE, 'readwrite')
+    store.clear()
+    for (const conflict of conflicts) {
+      store.put(conflict)
+    }
+    await done
+  }
+}
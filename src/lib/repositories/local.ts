@@ -0,0 +1,33 @@
+import { MemoryTripRepository } from './memory'
+import type { CollectionName, RecordOf, StorageBackendKind } from './types'
+
+const STORAGE_PREFIX = 'travelplan:'
+
+// Persists each collection as a JSON array in localStorage so data survives
+// reloads on this device, but is never shared with other devices.
+export class LocalTripRepository extends MemoryTripRepository {
+  readonly kind: StorageBackendKind = 'local'
+  readonly label: string = 'This browser only'
+
+  private storage: Storage
+
+  constructor(storage: Storage = window.localStorage) {
+    super()
+    this.storage = storage
+  }
+
+  protected load<C extends CollectionName>(collection: C): RecordOf<C>[] {
+    const raw = this.storage.getItem(STORAGE_PREFIX + collection)
+    if (!raw) return []
+    try {
+      return JSON.parse(raw) as RecordOf<C>[]
+    } catch (error) {
+      console.error(`Corrupt local ${collection} data, ignoring it:`, error)
+      return []
+    }
+  }
+
+  protected save<C extends CollectionName>(collection: C, records: RecordOf<C>[]) {
+    this.storage.setItem(STORAGE_PREFIX + collection, JSON.stringify(records))
+  }
+}
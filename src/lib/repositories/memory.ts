@@ -0,0 +1,72 @@
+import { assertUnchanged } from './conflicts'
+import { applyListOptions } from './query'
+import type {
+  CollectionName,
+  CollectionRecords,
+  ListOptions,
+  RecordOf,
+  StorageBackendKind,
+  TripRepository,
+  UpdateOptions
+} from './types'
+
+export type RepositorySeed = { [C in CollectionName]?: RecordOf<C>[] }
+
+// Keeps everything in a plain object for the lifetime of the page. Also the
+// base for the browser-local backend, which only swaps out load/save.
+export class MemoryTripRepository implements TripRepository {
+  readonly kind: StorageBackendKind = 'memory'
+  readonly label: string = 'In-memory (demo data)'
+
+  private collections: { [C in CollectionName]?: RecordOf<C>[] }
+
+  constructor(seed: RepositorySeed = {}) {
+    this.collections = { ...seed }
+  }
+
+  protected load<C extends CollectionName>(collection: C): RecordOf<C>[] {
+    return (this.collections[collection] ?? []) as CollectionRecords[C][]
+  }
+
+  protected save<C extends CollectionName>(collection: C, records: RecordOf<C>[]) {
+    this.collections[collection] = records as RepositorySeed[C]
+  }
+
+  async list<C extends CollectionName>(collection: C, options?: ListOptions<RecordOf<C>>) {
+    return applyListOptions(this.load(collection), options)
+  }
+
+  async get<C extends CollectionName>(collection: C, id: string) {
+    return this.load(collection).find(record => record.id === id) ?? null
+  }
+
+  async create<C extends CollectionName>(collection: C, record: RecordOf<C>) {
+    const records = this.load(collection)
+    if (records.some(existing => existing.id === record.id)) {
+      throw new Error(`${collection} record ${record.id} already exists`)
+    }
+    this.save(collection, [...records, record])
+    return record
+  }
+
+  async update<C extends CollectionName>(
+    collection: C,
+    id: string,
+    changes: Partial<RecordOf<C>>,
+    options: UpdateOptions = {}
+  ) {
+    const records = this.load(collection)
+    const existing = records.find(record => record.id === id)
+    if (!existing) {
+      throw new Error(`${collection} record ${id} not found`)
+    }
+    assertUnchanged(collection, existing, changes, options.ifUpdatedAt)
+    const updated = { ...existing, ...changes, id }
+    this.save(collection, records.map(record => record.id === id ? updated : record))
+    return updated
+  }
+
+  async delete<C extends CollectionName>(collection: C, id: string) {
+    this.save(collection, this.load(collection).filter(record => record.id !== id))
+  }
+}
@@ -0,0 +1,317 @@
+import {
+  amendConflict,
+  assertUnchanged,
+  ConflictError,
+  dismissConflict,
+  findConflict,
+  reportConflict,
+  subscribeConflicts,
+  type EditConflict
+} from './conflicts'
+import { IndexedDbStore, type OutboxEntry } from './indexeddb'
+import { reportRejectedWrite } from './rejected'
+import { applyListOptions } from './query'
+import type {
+  CollectionName,
+  ListOptions,
+  RecordOf,
+  StorageBackendKind,
+  SyncStatus,
+  TripRepository,
+  UpdateOptions
+} from './types'
+
+const RETRY_INTERVAL_MS = 30_000
+
+function isOnline() {
+  return typeof navigator === 'undefined' || navigator.onLine
+}
+
+// 4xx responses mean the backend understood and refused the write, so
+// retrying it would block the queue forever; those are handed to the user
+// instead. Anything else (no response, timeouts, 5xx) is treated as "try
+// again later".
+function isPermanentFailure(error: unknown) {
+  const status = (error as { status?: number } | null)?.status
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429
+}
+
+// A replayed create the backend already has: an earlier attempt got
+// through but its answer never came back
+function isDuplicateCreate(error: unknown) {
+  const { status, message } = (error ?? {}) as { status?: number; message?: string }
+  return status === 409 || /unique constraint|duplicate|already exists/i.test(message ?? '')
+}
+
+// Local-first wrapper around a remote backend. Every write lands in
+// IndexedDB straight away and is queued; the queue is replayed against the
+// remote, oldest first, whenever it is reachable. Reads refresh the cache
+// from the remote when nothing is pending and fall back to the cache
+// otherwise.
+export class OfflineFirstTripRepository implements TripRepository {
+  readonly kind: StorageBackendKind
+  readonly label: string
+
+  private remote: TripRepository
+  private cache: IndexedDbStore
+  private status: SyncStatus = { pending: 0, syncing: false, online: isOnline() }
+  private listeners = new Set<(status: SyncStatus) => void>()
+  private flushing: Promise<number> | null = null
+  private conflictsSaved: Promise<void> = Promise.resolve()
+
+  constructor(remote: TripRepository, cache: IndexedDbStore = new IndexedDbStore()) {
+    this.remote = remote
+    this.cache = cache
+    this.kind = remote.kind
+    this.label = remote.label
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.setStatus({ online: true })
+        this.syncInBackground()
+      })
+      window.addEventListener('offline', () => this.setStatus({ online: false }))
+      window.setInterval(() => this.syncInBackground(), RETRY_INTERVAL_MS)
+    }
+
+    this.cache.countOutbox()
+      .then(pending => {
+        this.setStatus({ pending })
+        if (pending > 0) this.syncInBackground()
+      })
+      .catch(error => console.error('Failed to read offline queue:', error))
+
+    // Conflicts left open before a reload come back first; from then on the
+    // stored copy follows the list, so resolved ones are dropped from it
+    this.cache.getConflicts()
+      .then(stored => {
+        stored.forEach(reportConflict)
+        subscribeConflicts(conflicts => this.saveConflicts(conflicts))
+      })
+      .catch(error => console.error('Failed to read open conflicts:', error))
+  }
+
+  // Saves run one after another, so an older list never lands last
+  private saveConflicts(conflicts: EditConflict[]) {
+    this.conflictsSaved = this.conflictsSaved
+      .then(() => this.cache.replaceConflicts(conflicts))
+      .catch(error => console.error('Failed to save open conflicts:', error))
+  }
+
+  subscribeSyncStatus(listener: (status: SyncStatus) => void) {
+    this.listeners.add(listener)
+    listener(this.status)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private setStatus(changes: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...changes }
+    this.listeners.forEach(listener => listener(this.status))
+  }
+
+  // Replays queued writes in order and resolves to how many are still pending
+  sync(): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.flush()
+        .catch(error => {
+          this.setStatus({ syncing: false, lastError: String(error) })
+          throw error
+        })
+        .finally(() => {
+          this.flushing = null
+        })
+    }
+    return this.flushing
+  }
+
+  // For syncs nobody waits on: a failing cache (a blocked or aborted
+  // IndexedDB transaction) is reported rather than left unhandled
+  private syncInBackground() {
+    this.sync().catch(error => console.error('Failed to sync offline changes:', error))
+  }
+
+  private async flush(): Promise<number> {
+    const outbox = await this.cache.getOutbox()
+    if (outbox.length === 0 || !isOnline()) {
+      this.setStatus({ pending: outbox.length })
+      return outbox.length
+    }
+
+    this.setStatus({ syncing: true, pending: outbox.length })
+    let remaining = outbox.length
+
+    for (const write of outbox) {
+      try {
+        await this.replay(write)
+      } catch (error) {
+        if (!isPermanentFailure(error)) {
+          console.log('Sync paused, will retry:', error)
+          this.setStatus({ syncing: false, pending: remaining, lastError: String(error) })
+          return remaining
+        }
+        console.error(`Backend refused queued ${write.type} of ${write.collection} ${write.id}:`, error)
+        await this.restoreFromRemote(write)
+        reportRejectedWrite(write, error)
+      }
+      await this.cache.dequeue(write.key)
+      remaining -= 1
+      this.setStatus({ pending: remaining })
+    }
+
+    this.setStatus({ syncing: false, pending: 0, lastError: undefined })
+    return 0
+  }
+
+  // Puts the cached record back the way the backend has it, undoing a write
+  // it refused
+  private async restoreFromRemote(write: OutboxEntry) {
+    try {
+      const record = await this.remote.get(write.collection, write.id)
+      if (record) {
+        await this.cache.put(write.collection, record)
+      } else {
+        await this.cache.delete(write.collection, write.id)
+      }
+    } catch (error) {
+      console.error(`Failed to restore ${write.collection} ${write.id}:`, error)
+    }
+  }
+
+  private async replay(write: OutboxEntry) {
+    switch (write.type) {
+      case 'create': {
+        try {
+          const created = await this.remote.create(write.collection, write.record)
+          await this.cache.put(write.collection, created)
+        } catch (error) {
+          if (!isDuplicateCreate(error)) throw error
+          // Only counts as saved when the record really is there; any other
+          // clash is still a refusal
+          const existing = await this.remote.get(write.collection, write.id)
+          if (!existing) throw error
+          await this.cache.put(write.collection, existing)
+        }
+        break
+      }
+      case 'update': {
+        const open = findConflict(write.collection, write.id)
+        if (open) {
+          const amended = amendConflict(open.id, write.changes)
+          // Stored before the write leaves the queue, so it can't be lost
+          if (amended) await this.cache.putConflict(amended)
+          break
+        }
+        try {
+          const updated = await this.remote.update(write.collection, write.id, write.changes, {
+            ifUpdatedAt: write.ifUpdatedAt
+          })
+          await this.cache.put(write.collection, updated)
+        } catch (error) {
+          if (!(error instanceof ConflictError)) throw error
+          // Show the remote version until the user picks what to keep. The
+          // conflict is stored before the write leaves the queue, so the
+          // edit survives a reload.
+          await this.cache.putConflict(error.conflict)
+          await this.cache.put(write.collection, error.conflict.remote)
+          reportConflict(error.conflict)
+        }
+        break
+      }
+      case 'delete': {
+        await this.remote.delete(write.collection, write.id)
+        const open = findConflict(write.collection, write.id)
+        if (open) dismissConflict(open.id)
+        break
+      }
+    }
+  }
+
+  // True when the remote can be read without clobbering unsynced local edits
+  private async canReadRemote() {
+    if (!isOnline()) return false
+    try {
+      return await this.sync() === 0
+    } catch (error) {
+      console.error('Failed to sync offline changes:', error)
+      return false
+    }
+  }
+
+  async list<C extends CollectionName>(collection: C, options: ListOptions<RecordOf<C>> = {}) {
+    if (await this.canReadRemote()) {
+      try {
+        const remoteRecords = await this.remote.list(collection, options)
+        await this.cache.putMany(collection, remoteRecords)
+
+        // Without a limit the remote result is the full set for this filter,
+        // so anything else cached under it was deleted elsewhere
+        if (options.limit === undefined) {
+          const remoteIds = new Set(remoteRecords.map(record => record.id))
+          const stale = applyListOptions(await this.cache.getAll(collection), { where: options.where })
+            .filter(record => !remoteIds.has(record.id))
+          await this.cache.deleteMany(collection, stale.map(record => record.id))
+        }
+      } catch (error) {
+        console.log(`Reading cached ${collection}:`, error)
+      }
+    }
+    return applyListOptions(await this.cache.getAll(collection), options)
+  }
+
+  async get<C extends CollectionName>(collection: C, id: string) {
+    if (await this.canReadRemote()) {
+      try {
+        const record = await this.remote.get(collection, id)
+        if (record) {
+          await this.cache.put(collection, record)
+        } else {
+          await this.cache.delete(collection, id)
+        }
+        return record
+      } catch (error) {
+        console.log(`Reading cached ${collection} ${id}:`, error)
+      }
+    }
+    return this.cache.get(collection, id)
+  }
+
+  async create<C extends CollectionName>(collection: C, record: RecordOf<C>) {
+    await this.cache.put(collection, record)
+    await this.queue({ type: 'create', collection, id: record.id, record })
+    return record
+  }
+
+  async update<C extends CollectionName>(
+    collection: C,
+    id: string,
+    changes: Partial<RecordOf<C>>,
+    options: UpdateOptions = {}
+  ) {
+    const existing = await this.cache.get(collection, id)
+    if (!existing) {
+      throw new Error(`${collection} record ${id} not found`)
+    }
+    assertUnchanged(collection, existing, changes, options.ifUpdatedAt)
+
+    const updated = { ...existing, ...changes, id }
+    await this.cache.put(collection, updated)
+    // The replay repeats the check against the remote, catching edits made
+    // on other devices while this one was offline
+    await this.queue({ type: 'update', collection, id, changes, ifUpdatedAt: options.ifUpdatedAt })
+    return updated
+  }
+
+  async delete<C extends CollectionName>(collection: C, id: string) {
+    await this.cache.delete(collection, id)
+    await this.queue({ type: 'delete', collection, id })
+  }
+
+  private async queue(write: Parameters<IndexedDbStore['enqueue']>[0]) {
+    await this.cache.enqueue(write)
+    this.setStatus({ pending: this.status.pending + 1 })
+    // Fire and forget: the caller already has its local result
+    this.syncInBackground()
+  }
+}
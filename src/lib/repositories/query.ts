@@ -0,0 +1,27 @@
+import type { ListOptions } from './types'
+
+// Mirrors the subset of Blink's list() semantics the app relies on:
+// equality filters, multi-key ordering and a limit.
+export function applyListOptions<T>(records: T[], options: ListOptions<T> = {}): T[] {
+  const { where, orderBy, limit } = options
+
+  let result = records.filter(record => {
+    if (!where) return true
+    return Object.entries(where).every(([key, value]) =>
+      value === undefined || record[key as keyof T] === value
+    )
+  })
+
+  if (orderBy) {
+    const keys = Object.entries(orderBy) as Array<[keyof T, 'asc' | 'desc']>
+    result = [...result].sort((a, b) => {
+      for (const [key, direction] of keys) {
+        const compare = String(a[key] ?? '').localeCompare(String(b[key] ?? ''))
+        if (compare !== 0) return direction === 'desc' ? -compare : compare
+      }
+      return 0
+    })
+  }
+
+  return limit !== undefined ? result.slice(0, limit) : result
+}
@@ -0,0 +1,73 @@
+import type { QueuedWrite } from './indexeddb'
+import type { CollectionName } from './types'
+
+// A queued offline write the backend refused outright (a 4xx). It can't be
+// retried as is, so it's taken off the queue and kept here until the user
+// has seen what didn't make it.
+export interface RejectedWrite {
+  id: string
+  write: QueuedWrite
+  reason: string
+  rejectedAt: string
+}
+
+const COLLECTION_LABELS: Record<CollectionName, string> = {
+  trips: 'trip',
+  tripEntries: 'itinerary entry',
+  packingItems: 'packing item',
+  categories: 'category',
+  expenses: 'expense',
+  tripMembers: 'trip member',
+  shareLinks: 'share link'
+}
+
+const rejectedWrites: RejectedWrite[] = []
+const listeners = new Set<(rejected: RejectedWrite[]) => void>()
+
+function notify() {
+  const snapshot = [...rejectedWrites]
+  listeners.forEach(listener => listener(snapshot))
+}
+
+function describeError(error: unknown) {
+  if (error instanceof Error && error.message) return error.message
+  const status = (error as { status?: number } | null)?.status
+  return typeof status === 'number' ? `The server answered ${status}` : String(error)
+}
+
+export function reportRejectedWrite(write: QueuedWrite, error: unknown) {
+  rejectedWrites.push({
+    id: `rejected_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    write,
+    reason: describeError(error),
+    rejectedAt: new Date().toISOString()
+  })
+  notify()
+}
+
+export function dismissRejectedWrite(id: string) {
+  const index = rejectedWrites.findIndex(rejected => rejected.id === id)
+  if (index === -1) return
+  rejectedWrites.splice(index, 1)
+  notify()
+}
+
+export function subscribeRejectedWrites(listener: (rejected: RejectedWrite[]) => void) {
+  listeners.add(listener)
+  listener([...rejectedWrites])
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// "Adding the itinerary entry "Senso-ji"", for telling the user what was lost
+export function describeRejectedWrite({ write }: RejectedWrite): string {
+  const label = COLLECTION_LABELS[write.collection]
+  const record = write.type === 'create' ? write.record : write.type === 'update' ? write.changes : null
+  const name = record && (
+    (record as { title?: string }).title ?? (record as { itemName?: string }).itemName
+  )
+  const verb = write.type === 'create' ? 'Adding' : write.type === 'update' ? 'Changing' : 'Deleting'
+  const article = /^[aeiou]/.test(label) ? 'an' : 'a'
+  return name ? `${verb} the ${label} "${name}"` : `${verb} ${article} ${label}`
+}
@@ -0,0 +1,65 @@
+import type { Trip, TripEntry, PackingItem, CustomCategory, Expense, TripMember, ShareLink } from '../database'
+
+export type StorageBackendKind = 'blink' | 'local' | 'memory'
+
+// Every table a backend has to be able to store, keyed by its Blink table name
+export interface CollectionRecords {
+  trips: Trip
+  tripEntries: TripEntry
+  packingItems: PackingItem
+  categories: CustomCategory
+  expenses: Expense
+  tripMembers: TripMember
+  shareLinks: ShareLink
+}
+
+export type CollectionName = keyof CollectionRecords
+
+export type RecordOf<C extends CollectionName> = CollectionRecords[C]
+
+export interface ListOptions<T> {
+  where?: Partial<T>
+  orderBy?: Partial<Record<keyof T, 'asc' | 'desc'>>
+  limit?: number
+}
+
+export interface UpdateOptions {
+  // Optimistic concurrency: reject with a ConflictError unless the stored
+  // record still carries this updatedAt (null = it had none)
+  ifUpdatedAt?: string | null
+}
+
+export interface TripRepository {
+  readonly kind: StorageBackendKind
+  readonly label: string
+
+  list<C extends CollectionName>(collection: C, options?: ListOptions<RecordOf<C>>): Promise<RecordOf<C>[]>
+  get<C extends CollectionName>(collection: C, id: string): Promise<RecordOf<C> | null>
+  create<C extends CollectionName>(collection: C, record: RecordOf<C>): Promise<RecordOf<C>>
+  update<C extends CollectionName>(
+    collection: C,
+    id: string,
+    changes: Partial<RecordOf<C>>,
+    options?: UpdateOptions
+  ): Promise<RecordOf<C>>
+  delete<C extends CollectionName>(collection: C, id: string): Promise<void>
+
+  // Only backends that queue writes locally implement these
+  subscribeSyncStatus?(listener: (status: SyncStatus) => void): () => void
+  sync?(): Promise<number>
+}
+
+export interface SyncStatus {
+  // Writes saved locally but not yet accepted by the remote backend
+  pending: number
+  syncing: boolean
+  online: boolean
+  lastError?: string
+}
+
+export interface StorageBackendInfo {
+  kind: StorageBackendKind
+  label: string
+  // Why this backend was picked, e.g. the Blink probe failed
+  reason?: string
+}
@@ -0,0 +1,75 @@
+import { addDaysToKey, daysBetween, formatDate, formatTime } from './dates'
+import { MINUTES_PER_DAY, toMinutes } from './calendar'
+import type { NewTripEntry, Trip, TripEntry } from './database'
+
+// Dragged times land on the quarter hour
+export const SNAP_MINUTES = 15
+
+export type EntryMove = Partial<Pick<NewTripEntry, 'date' | 'endDate' | 'startTime' | 'endTime'>>
+
+// Where a dragged entry was let go: a day, or a day's all-day lane in the
+// week grid
+export interface EntryDropTarget {
+  date: string
+  allDay?: boolean
+}
+
+// 870 -> "14:30"
+export function fromMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+export function snapMinutes(minutes: number): number {
+  const snapped = Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES
+  return Math.min(MINUTES_PER_DAY - SNAP_MINUTES, Math.max(0, snapped))
+}
+
+// Moves an entry to another day; multi-day entries keep their length
+export function moveToDate(entry: TripEntry, date: string): EntryMove {
+  const move: EntryMove = { date }
+  if (entry.endDate) move.endDate = addDaysToKey(entry.endDate, daysBetween(entry.date, date))
+  return move
+}
+
+// Moves an entry to a day and start time, keeping how long it lasts
+export function moveToTime(entry: TripEntry, date: string, start: number): EntryMove {
+  const move: EntryMove = { ...moveToDate(entry, date), startTime: fromMinutes(start) }
+  if (entry.startTime && entry.endTime) {
+    const duration = toMinutes(entry.endTime) - toMinutes(entry.startTime)
+    // Overnight entries keep their end time as it was
+    if (duration > 0) move.endTime = fromMinutes(Math.min(MINUTES_PER_DAY - 1, start + duration))
+  }
+  return move
+}
+
+export function resizeTo(entry: TripEntry, end: number): EntryMove {
+  const start = entry.startTime ? toMinutes(entry.startTime) : 0
+  return { endTime: fromMinutes(Math.min(MINUTES_PER_DAY - 1, Math.max(start + SNAP_MINUTES, end))) }
+}
+
+export function isMoveNoop(entry: TripEntry, move: EntryMove): boolean {
+  return (Object.keys(move) as Array<keyof EntryMove>).every(field => entry[field] === move[field])
+}
+
+// Whether the moved entry still sits within the trip's days
+export function isWithinTrip(trip: Pick<Trip, 'startDate' | 'endDate'>, entry: TripEntry, move: EntryMove): boolean {
+  const date = move.date || entry.date
+  const endDate = move.endDate || entry.endDate || date
+  return trip.startDate <= date && endDate <= trip.endDate
+}
+
+// "Mar 16 at 2:30 PM", for the toast after a move
+export function describeMove(entry: Pick<TripEntry, 'date' | 'startTime'>): string {
+  const day = formatDate(entry.date, 'short')
+  return entry.startTime ? `${day} at ${formatTime(entry.startTime)}` : day
+}
+
+// The fields a move replaces, as they were before it, for undo. Fields that
+// were empty are sent as '', the way the entry forms clear them; undefined
+// would be dropped from the write and leave the moved value in place.
+export function getMoveUndo(entry: TripEntry, move: EntryMove): EntryMove {
+  return Object.fromEntries(
+    Object.keys(move).map(field => [field, entry[field as keyof EntryMove] ?? ''])
+  ) as EntryMove
+}
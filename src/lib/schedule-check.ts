@@ -0,0 +1,232 @@
+import { addDaysToKey, formatDate, formatDateRange, formatDuration, formatTime, getEntryInstants } from './dates'
+import { distanceKm, estimateTravelMinutes, type Coordinates } from './geocoding'
+import { formatLegPlace, getEntryLeg } from './legs'
+import { findStayForNight, isStay } from './stays'
+import { getTripTimeZone } from './time-zones'
+import type { Trip, TripEntry } from './database'
+
+export type ScheduleIssueKind =
+  | 'end-before-start'
+  | 'overlap'
+  | 'outside-trip'
+  | 'no-accommodation'
+  | 'tight-transition'
+
+export interface ScheduleIssue {
+  // Stable across runs, for React keys
+  id: string
+  kind: ScheduleIssueKind
+  // Errors can't happen as written; warnings might just be tight
+  severity: 'error' | 'warning'
+  // Day the issue is shown under in the timeline
+  date: string
+  entryIds: string[]
+  message: string
+}
+
+// Places closer than this are treated as the same spot
+const SAME_PLACE_KM = 0.2
+
+// What to geocode for an entry: its address, else its location with the
+// city it's in, so "Central Station" finds the right one
+export function getPlaceQuery(trip: Trip, entry: TripEntry): string | null {
+  if (entry.address) return entry.address
+  if (!entry.location) return null
+  const leg = getEntryLeg(trip.legs, entry)
+  const area = leg ? formatLegPlace(leg) : trip.destination
+  return area && !entry.location.toLowerCase().includes(area.toLowerCase())
+    ? `${entry.location}, ${area}`
+    : entry.location
+}
+
+interface Interval {
+  entry: TripEntry
+  start: number
+  // Entries without an end time are a moment, not a span
+  end: number
+}
+
+// Real start and end instants, reading zoneless entries in the trip's zone
+function toInterval(entry: TripEntry, fallbackZone: string): Interval | null {
+  if (!entry.startTime || isStay(entry)) return null
+  const instants = getEntryInstants({ ...entry, timeZone: entry.timeZone || fallbackZone })
+  if (!instants?.start) return null
+  const start = instants.start.getTime()
+  return { entry, start, end: instants.end ? Math.max(start, instants.end.getTime()) : start }
+}
+
+// Entries for different travellers can happen at once; an empty list is
+// the whole group
+function sharesTravellers(a: TripEntry, b: TripEntry) {
+  if (!a.travellerIds?.length || !b.travellerIds?.length) return true
+  return a.travellerIds.some(id => b.travellerIds!.includes(id))
+}
+
+function overlaps(a: Interval, b: Interval) {
+  if (a.start === b.start) return true
+  return a.start < b.end && b.start < a.end
+}
+
+function describeSpan(entry: TripEntry) {
+  return entry.endTime
+    ? `${formatTime(entry.startTime!)} - ${formatTime(entry.endTime)}`
+    : formatTime(entry.startTime!)
+}
+
+// Clocks that read backwards on a same-day, same-zone entry. Everywhere
+// else the app reads these as running past midnight, so they're only a
+// mistake when nobody meant that.
+function checkEndBeforeStart(entries: TripEntry[]): ScheduleIssue[] {
+  return entries
+    .filter(entry => entry.startTime && entry.endTime && entry.endTime < entry.startTime)
+    .filter(entry => !entry.endDate || entry.endDate === entry.date)
+    .filter(entry => !entry.endTimeZone || entry.endTimeZone === entry.timeZone)
+    .map(entry => ({
+      id: `end-before-start:${entry.id}`,
+      kind: 'end-before-start' as const,
+      severity: 'error' as const,
+      date: entry.date,
+      entryIds: [entry.id],
+      message: `${entry.title} ends at ${formatTime(entry.endTime!)}, before it starts at ${formatTime(entry.startTime!)}. ` +
+        'If it runs past midnight, give it an end date.'
+    }))
+}
+
+function checkOverlaps(intervals: Interval[]): ScheduleIssue[] {
+  const issues: ScheduleIssue[] = []
+  intervals.forEach((a, index) => {
+    for (const b of intervals.slice(index + 1)) {
+      if (b.start >= a.end && b.start !== a.start) break
+      if (!overlaps(a, b) || !sharesTravellers(a.entry, b.entry)) continue
+      issues.push({
+        id: `overlap:${a.entry.id}:${b.entry.id}`,
+        kind: 'overlap',
+        severity: 'error',
+        date: b.entry.date,
+        entryIds: [a.entry.id, b.entry.id],
+        message: `${a.entry.title} (${describeSpan(a.entry)}) overlaps ${b.entry.title} (${describeSpan(b.entry)}).`
+      })
+    }
+  })
+  return issues
+}
+
+function checkOutsideTrip(trip: Trip, entries: TripEntry[]): ScheduleIssue[] {
+  return entries
+    .filter(entry => entry.date < trip.startDate || (entry.endDate || entry.date) > trip.endDate)
+    .map(entry => ({
+      id: `outside-trip:${entry.id}`,
+      kind: 'outside-trip' as const,
+      severity: 'warning' as const,
+      date: entry.date,
+      entryIds: [entry.id],
+      message: `${entry.title} is on ${formatDate(entry.date, 'short')}, outside the trip ` +
+        `(${formatDateRange(trip.startDate, trip.endDate)}).`
+    }))
+}
+
+// Nights between arrival and departure with no stay booked and nothing
+// overnight (a red-eye, a sleeper train) to cover them. Runs of nights are
+// reported together.
+function checkAccommodation(trip: Trip, entries: TripEntry[]): ScheduleIssue[] {
+  const covered = (night: string) => !!findStayForNight(entries, night) ||
+    entries.some(entry => !isStay(entry) && entry.endDate && entry.date <= night && night < entry.endDate)
+
+  const runs: string[][] = []
+  let run: string[] = []
+  for (let night = trip.startDate; night < trip.endDate; night = addDaysToKey(night, 1)) {
+    if (covered(night)) {
+      if (run.length) runs.push(run)
+      run = []
+    } else {
+      run.push(night)
+    }
+  }
+  if (run.length) runs.push(run)
+
+  return runs.map(nights => ({
+    id: `no-accommodation:${nights[0]}`,
+    kind: 'no-accommodation',
+    severity: 'warning',
+    date: nights[0],
+    entryIds: [],
+    message: nights.length === 1
+      ? `Nowhere to stay booked for the night of ${formatDate(nights[0], 'short')}.`
+      : `Nowhere to stay booked for ${nights.length} nights, ` +
+        `${formatDateRange(nights[0], addDaysToKey(nights[nights.length - 1], 1))}.`
+  }))
+}
+
+// Back-to-back entries in different places with less time between them
+// than it takes to get across. Transport entries are the getting across,
+// so they're left out.
+function checkTransitions(
+  trip: Trip,
+  intervals: Interval[],
+  coordinates: Map<string, Coordinates>
+): ScheduleIssue[] {
+  const issues: ScheduleIssue[] = []
+  const stops = intervals.filter(interval => interval.entry.entryType !== 'transport')
+
+  for (let index = 1; index < stops.length; index++) {
+    const previous = stops[index - 1]
+    const next = stops[index]
+    if (previous.entry.date !== next.entry.date || overlaps(previous, next)) continue
+    if (!sharesTravellers(previous.entry, next.entry)) continue
+
+    const from = getPlaceQuery(trip, previous.entry)
+    const to = getPlaceQuery(trip, next.entry)
+    const fromCoordinates = from && coordinates.get(from)
+    const toCoordinates = to && coordinates.get(to)
+    if (!fromCoordinates || !toCoordinates) continue
+
+    const km = distanceKm(fromCoordinates, toCoordinates)
+    if (km < SAME_PLACE_KM) continue
+    const needed = estimateTravelMinutes(km)
+    const available = Math.round((next.start - previous.end) / 60000)
+    if (available >= needed) continue
+
+    issues.push({
+      id: `tight-transition:${previous.entry.id}:${next.entry.id}`,
+      kind: 'tight-transition',
+      severity: 'warning',
+      date: next.entry.date,
+      entryIds: [previous.entry.id, next.entry.id],
+      message: `${available > 0 ? `Only ${formatDuration(available)}` : 'No time'} to get from ` +
+        `${previous.entry.location || previous.entry.title} to ${next.entry.location || next.entry.title}, ` +
+        `about ${km < 10 ? km.toFixed(1) : Math.round(km)} km apart (roughly ${formatDuration(needed)}).`
+    })
+  }
+  return issues
+}
+
+// Everything that looks wrong with a trip's schedule. `coordinates` maps
+// getPlaceQuery results to where they are; travel times are only checked
+// between places found there.
+export function analyzeSchedule(
+  trip: Trip,
+  entries: TripEntry[],
+  coordinates: Map<string, Coordinates> = new Map()
+): ScheduleIssue[] {
+  const zone = getTripTimeZone(trip)
+  const intervals = entries
+    .map(entry => toInterval(entry, zone))
+    .filter((interval): interval is Interval => interval !== null)
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+
+  return [
+    ...checkEndBeforeStart(entries),
+    ...checkOverlaps(intervals),
+    ...checkOutsideTrip(trip, entries),
+    ...checkAccommodation(trip, entries),
+    ...checkTransitions(trip, intervals, coordinates)
+  ]
+}
+
+// Issues to show under each day of the timeline
+export function groupIssuesByDate(issues: ScheduleIssue[]): Record<string, ScheduleIssue[]> {
+  return issues.reduce((groups, issue) => {
+    (groups[issue.date] ??= []).push(issue)
+    return groups
+  }, {} as Record<string, ScheduleIssue[]>)
+}
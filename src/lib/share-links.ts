@@ -0,0 +1,73 @@
+import type { PublicItinerary, ShareLink, Traveller, Trip, TripEntry } from './database'
+
+// 128 bits from the platform CSPRNG, so tokens can't be guessed or enumerated
+export function createShareToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+export function getShareUrl(token: string) {
+  return `${window.location.origin}/share/${token}`
+}
+
+export function isShareLinkExpired(link: Pick<ShareLink, 'expiresAt'>, now = new Date()) {
+  return !!link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime()
+}
+
+// Only the name of each traveller leaves the account; passports, birthdays
+// and loyalty numbers never do
+function toPublicTraveller({ id, name }: Traveller): Traveller {
+  return { id, name }
+}
+
+// Who added an entry and which travellers it's assigned to stay in the
+// account. userId is blanked rather than left out, so the page can render
+// entries with the same components as the app.
+function toPublicEntry(entry: TripEntry, hidePrivate: boolean): TripEntry {
+  const shared = { ...entry, userId: '', travellerIds: undefined }
+  if (!hidePrivate) return shared
+  return {
+    ...shared,
+    description: undefined,
+    ...(entry.flight ? { flight: { ...entry.flight, bookingReference: undefined } } : {}),
+    ...(entry.stay ? { stay: { ...entry.stay, confirmationNumber: undefined } } : {}),
+    ...(entry.transport ? { transport: { ...entry.transport, bookingReference: undefined } } : {})
+  }
+}
+
+// What a public link shows: the itinerary, minus its owner, the budget,
+// traveller details and, when the link asks for it, notes and confirmation
+// numbers
+export function toPublicItinerary(trip: Trip, entries: TripEntry[], link: ShareLink): PublicItinerary {
+  // SQLite hands booleans back as 0/1
+  const hidePrivate = Number(link.hidePrivate) > 0
+  return {
+    trip: {
+      ...trip,
+      userId: '',
+      description: hidePrivate ? undefined : trip.description,
+      budget: undefined,
+      travellers: trip.travellers?.map(toPublicTraveller)
+    },
+    entries: entries.map(entry => toPublicEntry(entry, hidePrivate)),
+    hidePrivate,
+    expiresAt: link.expiresAt
+  }
+}
+
+// Asks the shared-itinerary function for what a token shows. Null when it
+// doesn't resolve to anything.
+export async function fetchPublicItinerary(token: string): Promise<PublicItinerary | null> {
+  const endpoint = import.meta.env.VITE_SHARE_ENDPOINT
+  if (!endpoint) throw new Error('VITE_SHARE_ENDPOINT is not set')
+
+  const url = new URL(endpoint)
+  url.searchParams.set('token', token)
+  const response = await fetch(url)
+  if (response.status === 404) return null
+  if (!response.ok) throw new Error(`Share link lookup answered ${response.status}`)
+  return response.json()
+}
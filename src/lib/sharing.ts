@@ -0,0 +1,62 @@
+import type { TripMember, TripRole } from './database'
+
+export const TRIP_ROLES: Array<{ value: TripRole; label: string; description: string }> = [
+  { value: 'owner', label: 'Owner', description: 'Can edit, share and delete the trip' },
+  { value: 'editor', label: 'Editor', description: 'Can change the itinerary, packing and budget' },
+  { value: 'viewer', label: 'Viewer', description: 'Can see everything but change nothing' }
+]
+
+const ROLE_RANK: Record<TripRole, number> = { viewer: 0, editor: 1, owner: 2 }
+
+export function getRoleLabel(role: TripRole) {
+  return TRIP_ROLES.find(option => option.value === role)?.label ?? role
+}
+
+// Whether `role` allows what `required` allows; no role allows nothing
+export function hasRole(role: TripRole | null | undefined, required: TripRole) {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+// Name to show for a member; invites nobody has picked up yet only have an email
+export function getMemberName(member: Pick<TripMember, 'email' | 'displayName'>) {
+  return member.displayName || member.email
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+export function isEmail(email: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+}
+
+export class PermissionError extends Error {
+  tripId: string
+  required: TripRole
+  // What the account actually has; null when the trip isn't shared with it
+  role: TripRole | null
+
+  constructor(tripId: string, required: TripRole, role: TripRole | null) {
+    super(role
+      ? `Trip ${tripId} needs ${required} access, you are a ${role}`
+      : `Trip ${tripId} is not shared with you`)
+    this.name = 'PermissionError'
+    this.tripId = tripId
+    this.required = required
+    this.role = role
+  }
+}
+
+const listeners = new Set<(tripId: string) => void>()
+
+export function notifyMembersChanged(tripId: string) {
+  listeners.forEach(listener => listener(tripId))
+}
+
+// Lets views outside the share dialog, like the sidebar, refresh their members
+export function subscribeMembersChanged(listener: (tripId: string) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,282 @@
+import type { Expense, ExpenseSplit, SplitMethod } from './database'
+import { formatMoney, getCurrencyDecimals } from './currency'
+
+export const SPLIT_METHODS: Array<{ value: SplitMethod; label: string }> = [
+  { value: 'equal', label: 'Equally' },
+  { value: 'shares', label: 'By shares' },
+  { value: 'exact', label: 'Exact amounts' }
+]
+
+// Form-side split: 'none' means the payer covered it, and part values stay
+// as typed text until the expense is saved
+export interface SplitDraft {
+  method: SplitMethod | 'none'
+  parts: Record<string, string>
+}
+
+export function toSplitDraft(split?: ExpenseSplit | null): SplitDraft {
+  if (!split) return { method: 'none', parts: {} }
+  return {
+    method: split.method,
+    parts: Object.fromEntries(Object.entries(split.parts).map(([person, value]) => [person, String(value)]))
+  }
+}
+
+export function fromSplitDraft(draft: SplitDraft): ExpenseSplit | null {
+  if (draft.method === 'none') return null
+  const method = draft.method
+  return {
+    method,
+    parts: Object.fromEntries(
+      Object.entries(draft.parts).map(([person, value]) => [person, method === 'equal' ? 1 : Number(value)])
+    )
+  }
+}
+
+// Splitting happens in minor units (cents, or whole yen) so the parts
+// always add back up to the amount paid
+function toMinor(amount: number, currency: string) {
+  return Math.round(amount * 10 ** getCurrencyDecimals(currency))
+}
+
+function fromMinor(amount: number, currency: string) {
+  return amount / 10 ** getCurrencyDecimals(currency)
+}
+
+// What each person owes for an expense, in its own currency
+export function getSplitAmounts(expense: Pick<Expense, 'amount' | 'currency' | 'paidBy' | 'split'>): Record<string, number> {
+  const { split, currency } = expense
+  const people = Object.keys(split?.parts ?? {})
+  if (!split || people.length === 0) return { [expense.paidBy]: expense.amount }
+  if (split.method === 'exact') return { ...split.parts }
+
+  const weights = people.map(person => (split.method === 'equal' ? 1 : Math.max(0, split.parts[person])))
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  if (totalWeight === 0) return { [expense.paidBy]: expense.amount }
+
+  // Largest remainders get the leftover cents; ties go in name order
+  const total = toMinor(expense.amount, currency)
+  const exact = weights.map(weight => (total * weight) / totalWeight)
+  const minor = exact.map(Math.floor)
+  let leftover = total - minor.reduce((sum, part) => sum + part, 0)
+  const order = people
+    .map((person, index) => ({ person, index, remainder: exact[index] - minor[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.person.localeCompare(b.person))
+  for (const { index } of order) {
+    if (leftover <= 0) break
+    minor[index] += 1
+    leftover -= 1
+  }
+
+  return Object.fromEntries(people.map((person, index) => [person, fromMinor(minor[index], currency)]))
+}
+
+// Returns a message describing what's wrong, or null when the split works
+export function validateSplit(split: ExpenseSplit, amount: number, currency: string): string | null {
+  const values = Object.values(split.parts)
+  if (values.length === 0) return 'Pick at least one person to split with'
+  if (split.method === 'shares' && values.some(value => !(value > 0))) {
+    return 'Shares must be above zero'
+  }
+  if (split.method === 'exact') {
+    if (values.some(value => !(value >= 0))) return 'Amounts can\'t be negative'
+    const sum = values.reduce((total, value) => total + toMinor(value, currency), 0)
+    if (sum !== toMinor(amount, currency)) {
+      return `Amounts add up to ${formatMoney(fromMinor(sum, currency), currency)}, not ${formatMoney(amount, currency)}`
+    }
+  }
+  return null
+}
+
+export interface PersonBalance {
+  person: string
+  paid: number
+  share: number
+  // Positive when the group owes this person money
+  net: number
+}
+
+export interface Transfer {
+  from: string
+  to: string
+  amount: number
+}
+
+export interface CurrencyBalances {
+  currency: string
+  people: PersonBalance[]
+  transfers: Transfer[]
+}
+
+interface Debt {
+  person: string
+  // Minor units; positive when owed money, negative when owing it
+  net: number
+}
+
+// Largest debtor pays the largest creditor until everyone is even. Each
+// transfer clears at least one person and the last clears two, so a group
+// of n that adds up to zero needs at most n - 1.
+function settleGroup(group: Debt[]): Transfer[] {
+  const debtors = group.filter(({ net }) => net < 0).map(({ person, net }) => ({ person, amount: -net }))
+  const creditors = group.filter(({ net }) => net > 0).map(({ person, net }) => ({ person, amount: net }))
+  const transfers: Transfer[] = []
+
+  const byAmount = (a: { amount: number; person: string }, b: { amount: number; person: string }) =>
+    b.amount - a.amount || a.person.localeCompare(b.person)
+  for (;;) {
+    const debtor = debtors.filter(d => d.amount > 0).sort(byAmount)[0]
+    const creditor = creditors.filter(c => c.amount > 0).sort(byAmount)[0]
+    if (!debtor || !creditor) break
+    const amount = Math.min(debtor.amount, creditor.amount)
+    transfers.push({ from: debtor.person, to: creditor.person, amount })
+    debtor.amount -= amount
+    creditor.amount -= amount
+  }
+  return transfers
+}
+
+// The search below looks at every subset of people, which stays quick up to
+// this many; bigger groups are settled greedily in one go
+const MAX_EXACT_PEOPLE = 16
+
+// Splits people into as many groups that add up to zero as possible. Each
+// group settles in one transfer fewer than its size, so this is what makes
+// the total the fewest possible.
+function splitIntoEvenGroups(debts: Debt[]): Debt[][] {
+  const count = debts.length
+  if (count > MAX_EXACT_PEOPLE) return [debts]
+
+  const full = (1 << count) - 1
+  const sums = new Array<number>(full + 1).fill(0)
+  // Most even groups a subset can be split into, counting it as the last
+  // group when it adds up to zero itself
+  const best = new Array<number>(full + 1).fill(0)
+  for (let mask = 1; mask <= full; mask++) {
+    const lowest = mask & -mask
+    sums[mask] = sums[mask ^ lowest] + debts[Math.log2(lowest)].net
+    let most = 0
+    for (let i = 0; i < count; i++) {
+      if (mask & (1 << i)) most = Math.max(most, best[mask ^ (1 << i)])
+    }
+    best[mask] = most + (sums[mask] === 0 ? 1 : 0)
+  }
+
+  // Walk back down, one person at a time, along a path that keeps the best
+  // count; every even subset passed on the way closes off a group
+  const groups: Debt[][] = []
+  let mask = full
+  let groupMask = full
+  while (mask) {
+    const even = sums[mask] === 0 ? 1 : 0
+    let i = 0
+    while (!(mask & (1 << i)) || best[mask ^ (1 << i)] + even !== best[mask]) i++
+    mask ^= 1 << i
+    if (mask === 0 || sums[mask] === 0) {
+      const group = groupMask ^ mask
+      groups.push(debts.filter((_, index) => group & (1 << index)))
+      groupMask = mask
+    }
+  }
+  return groups
+}
+
+// Pays off debts with the fewest transfers possible. Amounts are in minor
+// units.
+function settleUp(nets: Map<string, number>): Transfer[] {
+  const debts = [...nets]
+    .filter(([, net]) => net !== 0)
+    .map(([person, net]) => ({ person, net }))
+    .sort((a, b) => a.person.localeCompare(b.person))
+  return splitIntoEvenGroups(debts).flatMap(settleGroup)
+}
+
+// Balances are kept per currency; converting would bake in the user's rates
+export function computeBalances(expenses: Expense[]): CurrencyBalances[] {
+  const byCurrency = new Map<string, Map<string, { paid: number; share: number }>>()
+
+  const ledger = (currency: string, person: string) => {
+    let people = byCurrency.get(currency)
+    if (!people) {
+      people = new Map()
+      byCurrency.set(currency, people)
+    }
+    let entry = people.get(person)
+    if (!entry) {
+      entry = { paid: 0, share: 0 }
+      people.set(person, entry)
+    }
+    return entry
+  }
+
+  for (const expense of expenses) {
+    ledger(expense.currency, expense.paidBy).paid += toMinor(expense.amount, expense.currency)
+    for (const [person, share] of Object.entries(getSplitAmounts(expense))) {
+      ledger(expense.currency, person).share += toMinor(share, expense.currency)
+    }
+  }
+
+  return [...byCurrency.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, people]) => {
+      const nets = new Map([...people].map(([person, { paid, share }]) => [person, paid - share]))
+      return {
+        currency,
+        people: [...people.entries()]
+          .map(([person, { paid, share }]) => ({
+            person,
+            paid: fromMinor(paid, currency),
+            share: fromMinor(share, currency),
+            net: fromMinor(paid - share, currency)
+          }))
+          .sort((a, b) => a.person.localeCompare(b.person)),
+        transfers: settleUp(nets).map(transfer => ({
+          ...transfer,
+          amount: fromMinor(transfer.amount, currency)
+        }))
+      }
+    })
+}
+
+function csvCell(value: string | number) {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvRow(values: Array<string | number>) {
+  return values.map(csvCell).join(',')
+}
+
+// Two tables, balances then transfers, separated by a blank line
+export function balancesToCsv(balances: CurrencyBalances[]): string {
+  const fixed = (amount: number, currency: string) => amount.toFixed(getCurrencyDecimals(currency))
+  const lines = [csvRow(['Currency', 'Person', 'Paid', 'Share', 'Balance'])]
+  for (const { currency, people } of balances) {
+    for (const person of people) {
+      lines.push(csvRow([
+        currency,
+        person.person,
+        fixed(person.paid, currency),
+        fixed(person.share, currency),
+        fixed(person.net, currency)
+      ]))
+    }
+  }
+  lines.push('', csvRow(['Currency', 'From', 'To', 'Amount']))
+  for (const { currency, transfers } of balances) {
+    for (const transfer of transfers) {
+      lines.push(csvRow([currency, transfer.from, transfer.to, fixed(transfer.amount, currency)]))
+    }
+  }
+  return lines.join('\n') + '\n'
+}
+
+// Everyone named on a trip's expenses, as payer or in a split
+export function listCompanions(expenses: Expense[]): string[] {
+  const names = new Set<string>()
+  for (const expense of expenses) {
+    names.add(expense.paidBy)
+    for (const person of Object.keys(expense.split?.parts ?? {})) names.add(person)
+  }
+  return [...names].sort()
+}
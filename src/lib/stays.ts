@@ -0,0 +1,90 @@
+import { addDaysToKey, daysBetween } from './dates'
+
+// The fields stay logic needs, so calendar entries can use it too
+interface DatedEntry {
+  id: string
+  date: string
+  endDate?: string
+  entryType?: string
+}
+
+export function isStay<T extends DatedEntry>(entry: T): entry is T & { endDate: string } {
+  return entry.entryType === 'stay' && !!entry.endDate && entry.endDate > entry.date
+}
+
+export function countNights(entry: DatedEntry): number {
+  return entry.endDate ? Math.max(0, daysBetween(entry.date, entry.endDate)) : 0
+}
+
+// The stay you go to sleep in on `dateKey`: checked in that day or earlier,
+// checking out on a later day
+export function findStayForNight<T extends DatedEntry>(entries: T[], dateKey: string): T | undefined {
+  return entries.find(entry => isStay(entry) && entry.date <= dateKey && dateKey < entry.endDate)
+}
+
+export function findCheckOut<T extends DatedEntry>(entries: T[], dateKey: string): T | undefined {
+  return entries.find(entry => isStay(entry) && entry.endDate === dateKey)
+}
+
+export interface StaySegment<T> {
+  entry: T
+  // 0-based columns within the week, inclusive
+  startColumn: number
+  endColumn: number
+  // The stay carries on from the previous week / into the next one
+  continuesBefore: boolean
+  continuesAfter: boolean
+  // Row the bar is drawn in, so overlapping stays don't cover each other
+  lane: number
+}
+
+// Cuts stays into per-week bars running from check-in to check-out day.
+// `week` is the week's seven day keys, with null for padding days outside
+// the month being shown.
+export function layoutStaySegments<T extends DatedEntry>(
+  entries: T[],
+  week: Array<string | null>
+): StaySegment<T>[] {
+  const days = week.filter((day): day is string => day !== null)
+  if (days.length === 0) return []
+  const first = days[0]
+  const last = days[days.length - 1]
+
+  const segments: StaySegment<T>[] = []
+  const laneEnds: number[] = []
+  const stays = entries
+    .filter(isStay)
+    .filter(entry => entry.date <= last && entry.endDate >= first)
+    .sort((a, b) => a.date.localeCompare(b.date) || b.endDate.localeCompare(a.endDate))
+
+  for (const entry of stays) {
+    const startColumn = week.indexOf(entry.date < first ? first : entry.date)
+    const endColumn = week.indexOf(entry.endDate > last ? last : entry.endDate)
+
+    let lane = laneEnds.findIndex(end => end < startColumn)
+    if (lane === -1) lane = laneEnds.length
+    laneEnds[lane] = endColumn
+
+    segments.push({
+      entry,
+      startColumn,
+      endColumn,
+      continuesBefore: entry.date < first,
+      continuesAfter: entry.endDate > last,
+      lane
+    })
+  }
+  return segments
+}
+
+// Every day from check-in to check-out of each stay, so the timeline can
+// show where you're sleeping even on days with nothing else planned
+export function listStayDays(entries: DatedEntry[]): string[] {
+  const days = new Set<string>()
+  for (const entry of entries.filter(isStay)) {
+    for (let day = entry.date; day <= entry.endDate; day = addDaysToKey(day, 1)) {
+      days.add(day)
+    }
+  }
+  return [...days]
+}
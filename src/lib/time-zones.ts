@@ -0,0 +1,113 @@
+import type { Trip } from './database'
+import { getHomeTimeZone, isValidTimeZone } from './dates'
+
+// Places travellers type that aren't the city in an IANA zone name.
+// Cities that are (Tokyo, Paris, New York, ...) are found without a table.
+const PLACE_TIME_ZONES: Record<string, string> = {
+  // Countries with a single zone
+  japan: 'Asia/Tokyo',
+  'south korea': 'Asia/Seoul',
+  korea: 'Asia/Seoul',
+  china: 'Asia/Shanghai',
+  thailand: 'Asia/Bangkok',
+  vietnam: 'Asia/Ho_Chi_Minh',
+  singapore: 'Asia/Singapore',
+  india: 'Asia/Kolkata',
+  uae: 'Asia/Dubai',
+  'united arab emirates': 'Asia/Dubai',
+  turkey: 'Europe/Istanbul',
+  greece: 'Europe/Athens',
+  italy: 'Europe/Rome',
+  france: 'Europe/Paris',
+  spain: 'Europe/Madrid',
+  portugal: 'Europe/Lisbon',
+  germany: 'Europe/Berlin',
+  netherlands: 'Europe/Amsterdam',
+  belgium: 'Europe/Brussels',
+  switzerland: 'Europe/Zurich',
+  austria: 'Europe/Vienna',
+  'czech republic': 'Europe/Prague',
+  czechia: 'Europe/Prague',
+  iceland: 'Atlantic/Reykjavik',
+  ireland: 'Europe/Dublin',
+  uk: 'Europe/London',
+  'united kingdom': 'Europe/London',
+  england: 'Europe/London',
+  scotland: 'Europe/London',
+  egypt: 'Africa/Cairo',
+  morocco: 'Africa/Casablanca',
+  peru: 'America/Lima',
+  'new zealand': 'Pacific/Auckland',
+  // Cities that share a zone with a bigger neighbour
+  kyoto: 'Asia/Tokyo',
+  osaka: 'Asia/Tokyo',
+  hiroshima: 'Asia/Tokyo',
+  beijing: 'Asia/Shanghai',
+  bali: 'Asia/Makassar',
+  phuket: 'Asia/Bangkok',
+  'chiang mai': 'Asia/Bangkok',
+  hanoi: 'Asia/Bangkok',
+  florence: 'Europe/Rome',
+  venice: 'Europe/Rome',
+  milan: 'Europe/Rome',
+  naples: 'Europe/Rome',
+  barcelona: 'Europe/Madrid',
+  seville: 'Europe/Madrid',
+  nice: 'Europe/Paris',
+  lyon: 'Europe/Paris',
+  munich: 'Europe/Berlin',
+  edinburgh: 'Europe/London',
+  santorini: 'Europe/Athens',
+  'san francisco': 'America/Los_Angeles',
+  'las vegas': 'America/Los_Angeles',
+  seattle: 'America/Los_Angeles',
+  'washington dc': 'America/New_York',
+  boston: 'America/New_York',
+  miami: 'America/New_York',
+  orlando: 'America/New_York',
+  hawaii: 'Pacific/Honolulu',
+  'rio de janeiro': 'America/Sao_Paulo',
+  cancun: 'America/Cancun',
+  cusco: 'America/Lima',
+  queenstown: 'Pacific/Auckland',
+  cairns: 'Australia/Brisbane'
+}
+
+// Intl.supportedValuesOf isn't in the ES2022 lib typings yet
+const supportedValuesOf = (Intl as { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf
+
+let zoneNames: string[] | null = null
+
+export function listTimeZones(): string[] {
+  if (!zoneNames) {
+    zoneNames = supportedValuesOf ? supportedValuesOf('timeZone') : [getHomeTimeZone(), 'UTC']
+  }
+  return zoneNames
+}
+
+function lookupPlace(place: string): string | undefined {
+  const key = place.trim().toLowerCase()
+  if (!key) return undefined
+  if (PLACE_TIME_ZONES[key]) return PLACE_TIME_ZONES[key]
+
+  const city = key.replace(/\s+/g, '_')
+  return listTimeZones().find(zone => zone.toLowerCase().split('/').pop() === city)
+}
+
+// Best guess at the zone of a free-text destination such as "Kyoto, Japan"
+// or "Paris, Rome, Barcelona" (the first place that resolves wins). Falls
+// back to the traveller's own zone.
+export function guessTimeZone(destination?: string | null): string {
+  const places = (destination ?? '').split(/,|\/|&|\band\b|→|-/)
+  for (const place of places) {
+    const zone = lookupPlace(place)
+    if (zone) return zone
+  }
+  return getHomeTimeZone()
+}
+
+// Trips created before zones were stored fall back to a guess from the
+// destination
+export function getTripTimeZone(trip: Pick<Trip, 'timeZone' | 'destination'>): string {
+  return isValidTimeZone(trip.timeZone) ? trip.timeZone : guessTimeZone(trip.destination)
+}
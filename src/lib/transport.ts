@@ -0,0 +1,43 @@
+import type { ComponentType } from 'react'
+import { Bus, Car, Ship, TrainFront } from 'lucide-react'
+import type { TransportDetails, TransportMode } from './database'
+import { getDirectionsUrl } from './maps'
+
+export interface TransportModeDefinition {
+  value: TransportMode
+  label: string
+  icon: ComponentType<{ className?: string }>
+  // What the two ends of a leg are called for this mode
+  originLabel: string
+  destinationLabel: string
+}
+
+export const TRANSPORT_MODES: TransportModeDefinition[] = [
+  { value: 'train', label: 'Train', icon: TrainFront, originLabel: 'From', destinationLabel: 'To' },
+  { value: 'ferry', label: 'Ferry', icon: Ship, originLabel: 'From', destinationLabel: 'To' },
+  { value: 'bus', label: 'Bus', icon: Bus, originLabel: 'From', destinationLabel: 'To' },
+  { value: 'car', label: 'Rental car', icon: Car, originLabel: 'Pick-up', destinationLabel: 'Drop-off' }
+]
+
+export function getTransportMode(mode?: TransportMode | null): TransportModeDefinition {
+  return TRANSPORT_MODES.find(definition => definition.value === mode) ?? TRANSPORT_MODES[0]
+}
+
+// "Train ICE 592: Munich → Berlin", "Rental car: Hertz, Naples Airport"
+export function getTransportTitle(details: TransportDetails): string {
+  const mode = getTransportMode(details.mode)
+  if (details.mode === 'car') {
+    return `${mode.label}: ${[details.carrier, details.origin].filter(Boolean).join(', ')}`
+  }
+  const service = [mode.label, details.serviceNumber].filter(Boolean).join(' ')
+  return `${service}: ${details.origin} → ${details.destination}`
+}
+
+// Route between the two ends of a leg, or null for a rental returned where
+// it was picked up
+export function getTransportDirectionsUrl(details: TransportDetails): string | null {
+  const from = details.originAddress || details.origin
+  const to = details.destinationAddress || details.destination
+  if (!from || !to || from === to) return null
+  return getDirectionsUrl(from, to)
+}
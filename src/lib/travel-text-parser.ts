@@ -0,0 +1,396 @@
+import type { ParsedTrip, ParsedTripEntry } from './parsed-trip'
+
+// Rule-based counterpart to the AI parser. It only understands common
+// patterns, but it is deterministic and works without a network.
+
+const MONTH_NAMES = [
+  'jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'
+]
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)'
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?'
+const RANGE_SEPARATOR = '\\s*(?:-|–|to|until|through)\\s*'
+const YEAR = '(?:,?\\s*(\\d{4}))?'
+
+// "March 15", "Mar 15-22", "March 15 - April 2, 2024"
+const MONTH_FIRST = new RegExp(`\\b${MONTH}\\.?\\s+${DAY}(?:${RANGE_SEPARATOR}(?:${MONTH}\\.?\\s+)?${DAY})?${YEAR}\\b`, 'i')
+// "15 March", "15-22 March 2024"
+const DAY_FIRST = new RegExp(`\\b${DAY}(?:${RANGE_SEPARATOR}${DAY})?\\s+${MONTH}\\b${YEAR}`, 'i')
+// "15/03", "15/03/2024", "15/03-22/03"
+const NUMERIC = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?(?:\s*(?:-|–)\s*(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?)?\b/
+const ISO = /\b(\d{4})-(\d{2})-(\d{2})(?:\s*(?:-|–|to)\s*(\d{4})-(\d{2})-(\d{2}))?\b/
+const DAY_NUMBER = /^day\s+(\d{1,2})\b\s*[:.-]?/i
+
+const TIME = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)|\b([01]?\d|2[0-3]):([0-5]\d)\b/gi
+const TIME_RANGE_GAP = /^\s*(?:-|–|to|until)\s*$/i
+
+const FLIGHT_NUMBER = /\b(?!AM\b|PM\b)([A-Z]{2}|[A-Z]\d|\d[A-Z])\s?(\d{2,4})\b/
+const FLIGHT_WORDS = /\b(flights?|fly(?:ing)?|airlines?|airways|boarding)\b/i
+// Busy carriers, enough to spot a flight number written on its own. Codes
+// that read as something else ("US 101", "CA 1", "LA", Scoot's "TR") are
+// left out; those still count next to a word like "flight".
+const AIRLINE_CODES = new Set([
+  'AA', 'AC', 'AF', 'AI', 'AY', 'AZ', 'B6', 'BA', 'BR', 'CI', 'CX', 'CZ', 'DL', 'EI', 'EK', 'ET', 'EY',
+  'FR', 'IB', 'JL', 'KE', 'KL', 'LH', 'LX', 'MH', 'MU', 'NH', 'NZ', 'OS', 'OZ', 'QF', 'QR', 'SK', 'SN',
+  'SQ', 'TG', 'TK', 'TP', 'U2', 'UA', 'VS', 'WN', '6E'
+])
+const BULLET = /^\s*(?:[-*•·–]|\d+[.)])\s+/
+const HEADER_WORDS = /\b(trip|vacation|holiday|journey|travel|itinerary|getaway)\b/i
+
+const CATEGORY_KEYWORDS: Array<[string, RegExp]> = [
+  ['accommodation', /\b(hotel|hostel|airbnb|ryokan|resort|inn|check[- ]?in|check[- ]?out|stay(?:ing)?|accommodation|lodging)\b/i],
+  ['transportation', /\b(flight|fly|airport|depart(?:s|ure)?|arriv(?:e|es|al)|train|rail|bus|ferry|taxi|transfer|shuttle|car rental|rental car|drive|metro)\b/i],
+  ['dining', /\b(breakfast|brunch|lunch|dinner|restaurant|caf[eé]|coffee|bar|sushi|ramen|food|eat|tasting|market)\b/i],
+  ['shopping', /\b(shopping|shop|mall|boutique|outlet|souvenirs?)\b/i],
+  ['entertainment', /\b(concert|show|theat(?:er|re)|musical|opera|club|nightlife|festival|disneyland|theme park|match|game)\b/i],
+]
+
+interface DateMatch {
+  start: string
+  end?: string
+  index: number
+  length: number
+  hasYear: boolean
+}
+
+interface TimeMatch {
+  time: string
+  index: number
+  length: number
+}
+
+export interface TravelTextParserOptions {
+  // Used to fill in the year when the text doesn't mention one
+  referenceDate?: Date
+}
+
+function monthIndex(name: string) {
+  return MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase())
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month, day))
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+function normalizeYear(year: string | undefined, fallback: number) {
+  if (!year) return fallback
+  const value = Number(year)
+  return value < 100 ? 2000 + value : value
+}
+
+function addDays(isoDate: string, days: number) {
+  const date = new Date(`${isoDate}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+// Same month and day in a later year; Feb 29 falls back to Feb 28
+function addYears(isoDate: string, years: number) {
+  const [year, month, day] = isoDate.split('-').map(Number)
+  return toIsoDate(year + years, month - 1, day) ?? toIsoDate(year + years, month - 1, day - 1)!
+}
+
+function buildRange(
+  year: number,
+  startMonth: number,
+  startDay: number,
+  endMonth: number | null,
+  endDay: number | null
+): { start: string; end?: string } | null {
+  const start = toIsoDate(year, startMonth, startDay)
+  if (!start) return null
+  if (endDay === null) return { start }
+
+  const month = endMonth ?? startMonth
+  // "Dec 28 - Jan 3" rolls into the next year
+  const end = toIsoDate(month < startMonth ? year + 1 : year, month, endDay)
+  return end && end >= start ? { start, end } : { start }
+}
+
+export function findDate(text: string, defaultYear: number): DateMatch | null {
+  const candidates: DateMatch[] = []
+
+  const iso = text.match(ISO)
+  if (iso && iso.index !== undefined) {
+    const start = toIsoDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    const end = iso[4] ? toIsoDate(Number(iso[4]), Number(iso[5]) - 1, Number(iso[6])) : null
+    if (start) candidates.push({ start, end: end ?? undefined, index: iso.index, length: iso[0].length, hasYear: true })
+  }
+
+  const monthFirst = text.match(MONTH_FIRST)
+  if (monthFirst && monthFirst.index !== undefined) {
+    const year = normalizeYear(monthFirst[5], defaultYear)
+    const range = buildRange(
+      year,
+      monthIndex(monthFirst[1]),
+      Number(monthFirst[2]),
+      monthFirst[3] ? monthIndex(monthFirst[3]) : null,
+      monthFirst[4] ? Number(monthFirst[4]) : null
+    )
+    if (range) {
+      candidates.push({ ...range, index: monthFirst.index, length: monthFirst[0].length, hasYear: !!monthFirst[5] })
+    }
+  }
+
+  const dayFirst = text.match(DAY_FIRST)
+  if (dayFirst && dayFirst.index !== undefined) {
+    const year = normalizeYear(dayFirst[4], defaultYear)
+    const month = monthIndex(dayFirst[3])
+    const range = buildRange(year, month, Number(dayFirst[1]), dayFirst[2] ? month : null, dayFirst[2] ? Number(dayFirst[2]) : null)
+    if (range) {
+      candidates.push({ ...range, index: dayFirst.index, length: dayFirst[0].length, hasYear: !!dayFirst[4] })
+    }
+  }
+
+  const numeric = text.match(NUMERIC)
+  if (numeric && numeric.index !== undefined) {
+    // Day/month by default; fall back to month/day when that is the only
+    // reading that makes sense ("03/15")
+    const readPair = (a: string, b: string) => {
+      const first = Number(a)
+      const second = Number(b)
+      return second > 12 && first <= 12 ? { day: second, month: first - 1 } : { day: first, month: second - 1 }
+    }
+    const startPart = readPair(numeric[1], numeric[2])
+    const year = normalizeYear(numeric[3], defaultYear)
+    const start = toIsoDate(year, startPart.month, startPart.day)
+    let end: string | null = null
+    if (numeric[4]) {
+      const endPart = readPair(numeric[4], numeric[5])
+      end = toIsoDate(normalizeYear(numeric[6], year), endPart.month, endPart.day)
+    }
+    if (start) {
+      candidates.push({
+        start,
+        end: end && end >= start ? end : undefined,
+        index: numeric.index,
+        length: numeric[0].length,
+        hasYear: !!numeric[3]
+      })
+    }
+  }
+
+  // The earliest match in the text wins; ties go to the longest match
+  candidates.sort((a, b) => a.index - b.index || b.length - a.length)
+  return candidates[0] ?? null
+}
+
+function toClock(hours: number, minutes: number, meridiem?: string) {
+  const suffix = meridiem?.toLowerCase().replace(/\./g, '')
+  if (suffix === 'pm' && hours < 12) hours += 12
+  if (suffix === 'am' && hours === 12) hours = 0
+  if (hours > 23 || minutes > 59) return null
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+}
+
+export function findTimes(text: string): TimeMatch[] {
+  const matches: TimeMatch[] = []
+  for (const match of text.matchAll(TIME)) {
+    const time = match[3]
+      ? toClock(Number(match[1]), Number(match[2] ?? 0), match[3])
+      : toClock(Number(match[4]), Number(match[5]))
+    if (time && match.index !== undefined) {
+      matches.push({ time, index: match.index, length: match[0].length })
+    }
+  }
+  return matches
+}
+
+function detectCategory(text: string) {
+  for (const [category, pattern] of CATEGORY_KEYWORDS) {
+    if (pattern.test(text)) return category
+  }
+  return 'activity'
+}
+
+function removeSpans(text: string, spans: Array<{ index: number; length: number }>) {
+  return [...spans]
+    .sort((a, b) => b.index - a.index)
+    .reduce((result, span) => result.slice(0, span.index) + ' ' + result.slice(span.index + span.length), text)
+}
+
+// Strips the words left dangling once dates and times are cut out,
+// e.g. "Flight arrives on  at " -> "Flight arrives"
+function cleanTitle(text: string) {
+  let title = text.replace(/\(\s*\)/g, ' ').replace(/\s+/g, ' ').trim()
+  let previous = ''
+  while (previous !== title) {
+    previous = title
+    title = title
+      .replace(/^[\s:;,.\-–@]+|[\s:;,.\-–@(]+$/g, '')
+      .replace(/\b(on|at|from|by|around|until|to|and|then|@)$/i, '')
+      .replace(/^(on|at|from|then|and)\b/i, '')
+      .trim()
+  }
+  return title.charAt(0).toUpperCase() + title.slice(1)
+}
+
+function findLocation(text: string) {
+  const match = text.match(/\b(?:at|in|to)\s+((?:the\s+)?[A-Z][\w'’.-]*(?:\s+(?:[A-Z][\w'’.-]*|of|de|du|la|le|del))*)/)
+  return match?.[1]
+}
+
+// Splits "Visit Senso-ji at 10 AM, lunch at Tsukiji at 12 PM" into two
+// activities, but keeps "Hotel in Paris, France" together
+function splitActivities(text: string) {
+  return text
+    .split(/;|,\s+(?=[a-z])|\s+then\s+/)
+    .map(part => part.trim())
+    .filter(Boolean)
+}
+
+function parseSegment(segment: string, date: string): ParsedTripEntry | null {
+  const times = findTimes(segment)
+  let time: string | undefined
+  let timeSpans: Array<{ index: number; length: number }> = []
+
+  if (times.length >= 2) {
+    const [first, second] = times
+    const gap = segment.slice(first.index + first.length, second.index)
+    if (TIME_RANGE_GAP.test(gap)) {
+      time = `${first.time}-${second.time}`
+      timeSpans = [{ index: first.index, length: second.index + second.length - first.index }]
+    }
+  }
+  if (!time && times.length > 0) {
+    time = times[0].time
+    timeSpans = [times[0]]
+  }
+
+  const withoutTimes = removeSpans(segment, timeSpans)
+  const title = cleanTitle(withoutTimes)
+  if (!title) return null
+
+  const entry: ParsedTripEntry = {
+    title,
+    date,
+    time,
+    location: findLocation(title),
+    category: detectCategory(title)
+  }
+
+  // The title stays as written; the flight number goes in the notes
+  const flight = withoutTimes.match(FLIGHT_NUMBER)
+  if (flight && (FLIGHT_WORDS.test(segment) || AIRLINE_CODES.has(flight[1]))) {
+    entry.category = 'transportation'
+    entry.description = `Flight ${flight[1]}${flight[2]}`
+  }
+
+  return entry
+}
+
+// "Hotel: Park Hyatt Tokyo (March 15-22)" becomes a check-in and a check-out
+function parseStay(text: string, range: { start: string; end?: string }): ParsedTripEntry[] | null {
+  if (!range.end || detectCategory(text) !== 'accommodation') return null
+  const name = cleanTitle(
+    text
+      .replace(/\b(hotel|accommodation|stay(?:ing)?(?:\s+at)?|check[- ]?in)\s*:\s*/i, '')
+      .replace(/^\s*(stay(?:ing)?\s+at|check[- ]?in\s+at)\s+/i, '')
+      .replace(/\b(from|between)\s*$/i, '')
+  )
+  if (!name) return null
+
+  return [
+    { title: `Check-in: ${name}`, date: range.start, location: name, category: 'accommodation' },
+    { title: `Check-out: ${name}`, date: range.end, location: name, category: 'accommodation' }
+  ]
+}
+
+function findDestination(header: string) {
+  const match = header.match(/\b(?:to|in|visiting|around)\s+([A-Z][\w'’.-]*(?:(?:\s+|,\s*)[A-Z][\w'’.-]*)*)/)
+  if (match) return match[1].trim()
+
+  // "Barcelona getaway", "Japan 2024 itinerary"
+  const named = cleanTitle(header.replace(HEADER_WORDS, ' ').replace(/\b(19|20)\d{2}\b/, ' '))
+  return /^[A-Z]/.test(named) ? named : undefined
+}
+
+export function parseTravelText(text: string, options: TravelTextParserOptions = {}): ParsedTrip {
+  const reference = options.referenceDate ?? new Date()
+  const explicitYear = text.match(/\b(19|20)\d{2}\b/)
+  let year = explicitYear ? Number(explicitYear[0]) : reference.getFullYear()
+
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  let title = ''
+  let destination = ''
+  let tripStart: string | undefined
+  let tripEnd: string | undefined
+
+  // A leading non-bullet line that names the trip or gives its range is a
+  // header, not an itinerary entry
+  const first = lines[0]
+  if (first && !BULLET.test(first) && findTimes(first).length === 0) {
+    const range = findDate(first, year)
+    if (HEADER_WORDS.test(first) || range?.end) {
+      lines.shift()
+      if (range) {
+        tripStart = range.start
+        tripEnd = range.end
+        year = Number(range.start.slice(0, 4))
+      }
+      const withoutDate = range ? removeSpans(first, [range]) : first
+      title = cleanTitle(withoutDate)
+      destination = findDestination(withoutDate) ?? ''
+    }
+  }
+
+  const entries: ParsedTripEntry[] = []
+  let currentDate = tripStart
+  let lastDate = tripStart
+
+  for (const rawLine of lines) {
+    let line = rawLine.replace(BULLET, '')
+
+    const dayNumber = line.match(DAY_NUMBER)
+    if (dayNumber && tripStart) {
+      currentDate = addDays(tripStart, Number(dayNumber[1]) - 1)
+      line = line.slice(dayNumber[0].length)
+    }
+
+    const dateMatch = findDate(line, year)
+    if (dateMatch) {
+      let { start, end } = dateMatch
+      // A yearless date far before the previous one belongs to next year
+      if (!dateMatch.hasYear && lastDate && start < addDays(lastDate, -180)) {
+        start = addYears(start, 1)
+        end = end ? addYears(end, 1) : undefined
+      }
+
+      const stay = parseStay(removeSpans(line, [dateMatch]), { start, end })
+      if (stay) {
+        entries.push(...stay)
+        lastDate = start
+        continue
+      }
+
+      currentDate = start
+      lastDate = start
+      line = removeSpans(line, [dateMatch])
+    }
+
+    for (const segment of splitActivities(line)) {
+      const entry = parseSegment(segment, currentDate ?? '')
+      if (entry) entries.push(entry)
+    }
+  }
+
+  const datedEntries = entries.map(entry => entry.date).filter(Boolean).sort()
+  tripStart = tripStart ?? datedEntries[0] ?? ''
+  tripEnd = tripEnd ?? datedEntries[datedEntries.length - 1] ?? tripStart
+
+  if (!destination) {
+    destination = entries.map(entry => entry.location).find(Boolean) ?? ''
+  }
+  if (!title) {
+    title = destination ? `${destination} Trip` : 'My Trip'
+  }
+
+  return {
+    title,
+    destination,
+    startDate: tripStart,
+    endDate: tripEnd,
+    entries: entries.map(entry => ({ ...entry, date: entry.date || tripStart! }))
+  }
+}
@@ -0,0 +1,65 @@
+import type { Traveller } from './database'
+import { todayKey } from './dates'
+
+export function createTravellerId() {
+  return `traveller_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function getTravellerInitials(name: string) {
+  const words = name.trim().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return '?'
+  const first = words[0][0]
+  const last = words.length > 1 ? words[words.length - 1][0] : ''
+  return `${first}${last}`.toUpperCase()
+}
+
+export function findTravellerForAccount(travellers: Traveller[] | undefined, accountId: string | undefined) {
+  if (!accountId) return undefined
+  return travellers?.find(traveller => traveller.accountId === accountId)
+}
+
+// Travellers an entry or packing item is assigned to. Ids of travellers who
+// have since been removed are ignored, so an empty result means everyone.
+export function getAssignedTravellers(
+  travellers: Traveller[] | undefined,
+  item: { travellerIds?: string[] }
+): Traveller[] {
+  const ids = new Set(item.travellerIds ?? [])
+  return (travellers ?? []).filter(traveller => ids.has(traveller.id))
+}
+
+export function isAssignedTo(
+  travellers: Traveller[] | undefined,
+  item: { travellerIds?: string[] },
+  travellerId: string
+) {
+  const assigned = getAssignedTravellers(travellers, item)
+  return assigned.length === 0 || assigned.some(traveller => traveller.id === travellerId)
+}
+
+// Checks travellers against each other. Problems are keyed by index in
+// `travellers`, so forms can point at the right row.
+export function validateTravellers(
+  travellers: Array<Pick<Traveller, 'name' | 'accountId' | 'dateOfBirth'>>
+): Record<number, string> {
+  const issues: Record<number, string> = {}
+  const names = new Map<string, number>()
+  const accounts = new Map<string, number>()
+
+  travellers.forEach((traveller, index) => {
+    const name = traveller.name.trim()
+    if (!name) {
+      issues[index] = 'Name is required'
+    } else if (traveller.dateOfBirth && traveller.dateOfBirth > todayKey()) {
+      issues[index] = 'Date of birth can\'t be in the future'
+    } else if (names.has(name.toLowerCase())) {
+      issues[index] = `${name} is already on the trip`
+    } else if (traveller.accountId && accounts.has(traveller.accountId)) {
+      issues[index] = `Already linked to ${travellers[accounts.get(traveller.accountId)!].name.trim()}`
+    }
+    names.set(name.toLowerCase(), index)
+    if (traveller.accountId) accounts.set(traveller.accountId, index)
+  })
+
+  return issues
+}
@@ -0,0 +1,134 @@
+import type { TripEntry } from './database'
+import { toNewTripEntry, type ParsedTripEntry } from './parsed-trip'
+
+export type EntryMatchStatus = 'new' | 'update' | 'duplicate'
+
+export type ImportedEntry = ReturnType<typeof toNewTripEntry>
+
+// Fields an import may change. The title is what the match is based on, and
+// the user's own wording is usually better than the parsed one, so it stays.
+const MERGEABLE_FIELDS = ['startTime', 'endTime', 'location', 'description', 'category'] as const
+
+export type MergeableField = typeof MERGEABLE_FIELDS[number]
+
+export interface EntryMatch {
+  key: string
+  status: EntryMatchStatus
+  incoming: ImportedEntry
+  existing?: TripEntry
+  // Only set for updates: the fields that would change on `existing`
+  changes?: Partial<Pick<TripEntry, MergeableField>>
+  score: number
+}
+
+// Below this a same-day entry is treated as unrelated
+const MATCH_THRESHOLD = 0.5
+
+function normalizeTitle(title: string) {
+  return title
+    .toLowerCase()
+    .replace(/\b(check[- ]?in|check[- ]?out|visit|the|at|to|and|in|of)\b/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function bigrams(value: string) {
+  const compact = value.replace(/\s+/g, '')
+  const pairs = new Map<string, number>()
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2)
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1)
+  }
+  return pairs
+}
+
+// Dice coefficient over character bigrams, so "Senso-ji Temple" and
+// "Sensoji temple visit" still score as the same thing
+export function titleSimilarity(a: string, b: string) {
+  const left = normalizeTitle(a)
+  const right = normalizeTitle(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  const leftPairs = bigrams(left)
+  const rightPairs = bigrams(right)
+  let overlap = 0
+  let total = 0
+  for (const count of leftPairs.values()) total += count
+  for (const [pair, count] of rightPairs) {
+    total += count
+    overlap += Math.min(count, leftPairs.get(pair) ?? 0)
+  }
+  return total === 0 ? 0 : (2 * overlap) / total
+}
+
+function minutesOf(time?: string) {
+  if (!time) return null
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function scoreMatch(incoming: ImportedEntry, existing: TripEntry) {
+  if (incoming.date !== existing.date) return 0
+
+  let score = titleSimilarity(incoming.title, existing.title)
+  const incomingStart = minutesOf(incoming.startTime)
+  const existingStart = minutesOf(existing.startTime)
+  if (incomingStart !== null && existingStart !== null) {
+    const gap = Math.abs(incomingStart - existingStart)
+    // Same slot makes a loose title match convincing; far apart times make
+    // a close title less likely to be the same booking
+    if (gap === 0) score += 0.3
+    else if (gap > 180) score -= 0.2
+  }
+  if (incoming.category === existing.category) score += 0.1
+  return score
+}
+
+function diffEntry(incoming: ImportedEntry, existing: TripEntry) {
+  const changes: Partial<Pick<TripEntry, MergeableField>> = {}
+  for (const field of MERGEABLE_FIELDS) {
+    const value = incoming[field]
+    // Blank parsed values never wipe out what is already on the trip
+    if (value && value !== (existing[field] ?? '')) {
+      changes[field] = value
+    }
+  }
+  return changes
+}
+
+// Pairs every parsed row with at most one existing entry, best scores
+// first, and classifies it as new, an update or a duplicate
+export function matchParsedEntries(parsed: ParsedTripEntry[], existing: TripEntry[]): EntryMatch[] {
+  const incoming = parsed.map((entry, index) => ({
+    key: entry.key ?? String(index),
+    entry: toNewTripEntry(entry)
+  }))
+
+  const candidates: Array<{ row: number; existing: TripEntry; score: number }> = []
+  incoming.forEach(({ entry }, row) => {
+    for (const current of existing) {
+      const score = scoreMatch(entry, current)
+      if (score >= MATCH_THRESHOLD) candidates.push({ row, existing: current, score })
+    }
+  })
+  candidates.sort((a, b) => b.score - a.score)
+
+  const pairedRows = new Map<number, { existing: TripEntry; score: number }>()
+  const usedEntries = new Set<string>()
+  for (const candidate of candidates) {
+    if (pairedRows.has(candidate.row) || usedEntries.has(candidate.existing.id)) continue
+    pairedRows.set(candidate.row, candidate)
+    usedEntries.add(candidate.existing.id)
+  }
+
+  return incoming.map(({ key, entry }, row) => {
+    const pair = pairedRows.get(row)
+    if (!pair) return { key, status: 'new', incoming: entry, score: 0 }
+
+    const changes = diffEntry(entry, pair.existing)
+    return Object.keys(changes).length === 0
+      ? { key, status: 'duplicate', incoming: entry, existing: pair.existing, score: pair.score }
+      : { key, status: 'update', incoming: entry, existing: pair.existing, changes, score: pair.score }
+  })
+}
@@ -1,126 +1,126 @@
-import { useState, useEffect } from 'react'
-import { Calendar, ChevronLeft, ChevronRight, MapPin, Clock } from 'lucide-react'
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
+import { BedDouble, Calendar, ChevronLeft, ChevronRight, MapPin, Clock } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
-import { Badge } from '../components/ui/badge'
+import { CategoryBadge } from '../components/trips/CategoryBadge'
+import { formatDate, formatDateRange, formatTime, parseDateKey } from '../lib/dates'
+import { isStay, layoutStaySegments } from '../lib/stays'
+import { findLegForDate } from '../lib/legs'
+import { DatabaseService, type Trip, type TripEntry, type TripRole } from '../lib/database'
+import { hasRole } from '../lib/sharing'
+import { moveToDate, type EntryMove } from '../lib/reschedule'
+import {
+  TRIP_COLORS,
+  getMonthRange,
+  getMonthRanges,
+  getTripColor,
+  getWeekDays,
+  layoutTripBands,
+  overlapsRange,
+  toCalendarEntries,
+  type CalendarEntry
+} from '../lib/calendar'
+import { TripRoute } from '../components/trips/TripRoute'
+import { TimeGrid } from '../components/calendar/TimeGrid'
+import { DraggableEntry, DroppableDay, EntryDndContext } from '../components/calendar/DragAndDrop'
+import { OutOfRangeMoveDialog } from '../components/calendar/OutOfRangeMoveDialog'
+import { useReschedule } from '../hooks/use-reschedule'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths } from 'date-fns'
-
-interface TripEntry {
-  id: string
-  tripId: string
-  tripTitle: string
-  title: string
-  description?: string
-  location?: string
-  date: string
-  startTime?: string
-  endTime?: string
-  category: string
-}
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, getDay, isSameMonth, isSameDay, addMonths, addWeeks, addDays } from 'date-fns'
+
+type CalendarViewMode = 'month' | 'week' | 'day' | 'agenda'
+
+// Height of one row of stay bars in a week, in rem
+const STAY_LANE_HEIGHT = 1.5
 
 export function CalendarView() {
   const [currentDate, setCurrentDate] = useState(new Date())
-  const [entries, setEntries] = useState<TripEntry[]>([])
-  const [loading, setLoading] = useState(true)
+  const [view, setView] = useState<CalendarViewMode>('month')
+  // Null until the trip list has loaded
+  const [trips, setTrips] = useState<Trip[] | null>(null)
+  const [roles, setRoles] = useState<Record<string, TripRole>>({})
+  // Entries are fetched a month at a time, as the user pages to it
+  const [entriesByMonth, setEntriesByMonth] = useState<Record<string, CalendarEntry[]>>({})
+  const requestedMonths = useRef(new Set<string>())
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
 
   useEffect(() => {
-    loadCalendarEntries()
+    DatabaseService.getAccessibleTrips()
+      .then(access => {
+        setRoles(Object.fromEntries(access.map(({ trip, role }) => [trip.id, role])))
+        setTrips(access.map(({ trip }) => trip))
+      })
+      .catch(error => {
+        console.error('Failed to load trips:', error)
+        setTrips([])
+      })
   }, [])
 
-  const loadCalendarEntries = async () => {
-    try {
-      setLoading(true)
-      
-      // Mock data since database is not available
-      const mockEntries: TripEntry[] = [
-        {
-          id: '1',
-          tripId: '1',
-          tripTitle: 'Tokyo Adventure',
-          title: 'Arrival at Narita Airport',
-          description: 'Flight JAL123 arrives from New York',
-          location: 'Narita International Airport',
-          date: '2024-03-15',
-          startTime: '14:30',
-          category: 'transportation'
-        },
-        {
-          id: '2',
-          tripId: '1',
-          tripTitle: 'Tokyo Adventure',
-          title: 'Check-in at Park Hyatt Tokyo',
-          description: 'Luxury hotel in Shinjuku with amazing city views',
-          location: 'Park Hyatt Tokyo',
-          date: '2024-03-15',
-          startTime: '16:00',
-          category: 'accommodation'
-        },
-        {
-          id: '3',
-          tripId: '1',
-          tripTitle: 'Tokyo Adventure',
-          title: 'Visit Senso-ji Temple',
-          description: 'Ancient Buddhist temple in Asakusa district',
-          location: 'Senso-ji Temple',
-          date: '2024-03-16',
-          startTime: '10:00',
-          category: 'activity'
-        },
-        {
-          id: '4',
-          tripId: '2',
-          tripTitle: 'European Summer',
-          title: 'Flight to Paris',
-          description: 'Departure from JFK Airport',
-          location: 'JFK Airport',
-          date: '2024-06-10',
-          startTime: '20:00',
-          category: 'transportation'
-        },
-        {
-          id: '5',
-          tripId: '2',
-          tripTitle: 'European Summer',
-          title: 'Louvre Museum',
-          description: 'Visit the world-famous art museum',
-          location: 'Louvre Museum, Paris',
-          date: '2024-06-11',
-          startTime: '10:00',
-          category: 'activity'
-        }
-      ]
-      
-      setEntries(mockEntries)
-    } catch (error) {
-      console.error('Failed to load calendar entries:', error)
-    } finally {
-      setLoading(false)
+  // A week can straddle two months; both are loaded
+  const visibleMonths = getMonthRanges(view === 'week' ? getWeekDays(currentDate) : [currentDate])
+
+  useEffect(() => {
+    if (!trips) return
+    for (const range of getMonthRanges(view === 'week' ? getWeekDays(currentDate) : [currentDate])) {
+      if (requestedMonths.current.has(range.key)) continue
+      requestedMonths.current.add(range.key)
+
+      DatabaseService.getTripEntriesInRange(trips, range)
+        .then(tripEntries => {
+          setEntriesByMonth(prev => ({ ...prev, [range.key]: toCalendarEntries(trips, tripEntries) }))
+        })
+        .catch(error => {
+          console.error('Failed to load calendar entries:', error)
+          // Try again next time the month is shown
+          requestedMonths.current.delete(range.key)
+          setEntriesByMonth(prev => ({ ...prev, [range.key]: [] }))
+        })
     }
+  }, [trips, view, currentDate])
+
+  // Stays and overnight entries show up in every month they touch, once
+  const entries = useMemo(() => {
+    const byId = new Map<string, CalendarEntry>()
+    Object.values(entriesByMonth).flat().forEach(entry => byId.set(entry.id, entry))
+    return [...byId.values()]
+  }, [entriesByMonth])
+
+  // Moved entries keep the trip title and colour they were loaded with
+  const replaceEntry = useCallback((entry: TripEntry) => {
+    setEntriesByMonth(prev => Object.fromEntries(Object.entries(prev).map(([key, monthEntries]) => [
+      key,
+      monthEntries.map(e => (e.id === entry.id ? { ...e, ...entry } : e))
+    ])))
+  }, [])
+  const { reschedule, outOfRange, confirmOutOfRange, cancelOutOfRange } = useReschedule(replaceEntry)
+
+  // Only editors can drag a trip's entries around
+  const canMove = (entry: TripEntry) => hasRole(roles[entry.tripId], 'editor')
+  const moveEntry = (entry: TripEntry, move: EntryMove) => {
+    reschedule({ entry, move, trip: trips?.find(trip => trip.id === entry.tripId) })
   }
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'accommodation': return 'bg-blue-100 text-blue-800 border-blue-200'
-      case 'transportation': return 'bg-green-100 text-green-800 border-green-200'
-      case 'activity': return 'bg-purple-100 text-purple-800 border-purple-200'
-      case 'dining': return 'bg-orange-100 text-orange-800 border-orange-200'
-      default: return 'bg-gray-100 text-gray-600 border-gray-200'
-    }
+  const month = getMonthRange(currentDate)
+  const monthLoading = visibleMonths.some(range => !(range.key in entriesByMonth))
+  const monthTrips = (trips ?? []).filter(trip => overlapsRange(trip.startDate, trip.endDate, month))
+
+  // Stays are drawn as bars across the grid rather than listed in a day
+  const getEntriesForDate = (date: Date) => {
+    const dateString = format(date, 'yyyy-MM-dd')
+    return entries.filter(entry => entry.date === dateString && !isStay(entry))
   }
 
-  const formatTime = (timeString: string) => {
-    return new Date(`2000-01-01T${timeString}`).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
+  // Where each multi-stop trip is on a given day
+  const getLegsForDate = (dateString: string) => {
+    return (trips ?? []).flatMap(trip => {
+      const leg = findLegForDate(trip.legs, dateString)
+      return leg ? [{ trip, leg }] : []
     })
   }
 
-  const getEntriesForDate = (date: Date) => {
+  const getStaysForDate = (date: Date) => {
     const dateString = format(date, 'yyyy-MM-dd')
-    return entries.filter(entry => entry.date === dateString)
+    return entries.filter(entry => isStay(entry) && entry.date <= dateString && dateString <= entry.endDate!)
   }
 
   const getEntriesForMonth = (date: Date) => {
@@ -128,7 +128,7 @@ export function CalendarView() {
     const end = endOfMonth(date)
     
     return entries.filter(entry => {
-      const entryDate = new Date(entry.date)
+      const entryDate = parseDateKey(entry.date)
       return entryDate >= start && entryDate <= end
     })
   }
@@ -138,9 +138,121 @@ export function CalendarView() {
     end: endOfMonth(currentDate)
   })
 
-  const selectedDateEntries = selectedDate ? getEntriesForDate(selectedDate) : []
+  // Pad the month out to whole weeks so stay bars can run along each row
+  const calendarCells: Array<Date | null> = [
+    ...Array<null>(getDay(monthDays[0])).fill(null),
+    ...monthDays
+  ]
+  while (calendarCells.length % 7 !== 0) calendarCells.push(null)
+  const weeks = Array.from({ length: calendarCells.length / 7 }, (_, i) => calendarCells.slice(i * 7, i * 7 + 7))
+
+  const monthEntries = getEntriesForMonth(currentDate)
+
+  const weekDays = getWeekDays(currentDate)
+
+  // Month and agenda page by month, the hourly views by week or day
+  const step = (direction: 1 | -1) => {
+    if (view === 'week') setCurrentDate(addWeeks(currentDate, direction))
+    else if (view === 'day') setCurrentDate(addDays(currentDate, direction))
+    else setCurrentDate(addMonths(currentDate, direction))
+  }
+
+  const viewTitle = view === 'week'
+    ? `${format(weekDays[0], 'MMM d')} - ${format(weekDays[6], 'MMM d, yyyy')}`
+    : view === 'day'
+      ? format(currentDate, 'EEEE, MMMM d, yyyy')
+      : format(currentDate, 'MMMM yyyy')
 
-  if (loading) {
+  const monthNav = (
+    <div className="flex items-center gap-2">
+      {monthLoading && <span className="text-xs text-muted-foreground">Loading...</span>}
+      <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())}>
+        Today
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => step(-1)} aria-label={`Previous ${view === 'agenda' ? 'month' : view}`}>
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => step(1)} aria-label={`Next ${view === 'agenda' ? 'month' : view}`}>
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+
+  const detailDate = view === 'day' ? currentDate : selectedDate
+
+  const selectedDateEntries = detailDate
+    ? [...getStaysForDate(detailDate), ...getEntriesForDate(detailDate)]
+    : []
+
+  // Everything on the selected day; the day view always shows its own day
+  const selectedDateDetails = (
+    <div>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            {detailDate ? format(detailDate, 'EEEE, MMMM d') : 'Select a date'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {detailDate && getLegsForDate(format(detailDate, 'yyyy-MM-dd')).map(({ trip, leg }) => (
+            <div key={trip.id} className="mb-4 space-y-2">
+              <p className="text-xs text-muted-foreground">{trip.title}</p>
+              <TripRoute legs={trip.legs!} activeLegId={leg.id} />
+            </div>
+          ))}
+          {detailDate ? (
+            selectedDateEntries.length > 0 ? (
+              <div className="space-y-3">
+                {selectedDateEntries
+                  .sort((a, b) => (a.startTime || '').localeCompare(b.startTime || ''))
+                  .map((entry) => (
+                    <div key={entry.id} className="border-l-4 border-l-primary/20 pl-3">
+                      <div className="flex items-center gap-2 mb-1">
+                        <CategoryBadge category={entry.category} />
+                        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                          <span className={`h-2 w-2 rounded-full ${TRIP_COLORS[entry.tripColor].dot}`} />
+                          {entry.tripTitle}
+                        </span>
+                      </div>
+                      <h4 className="font-medium text-sm">{entry.title}</h4>
+                      {isStay(entry) && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                          <BedDouble className="h-3 w-3" />
+                          {formatDateRange(entry.date, entry.endDate)}
+                        </div>
+                      )}
+                      {entry.startTime && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                          <Clock className="h-3 w-3" />
+                          {formatTime(entry.startTime)}
+                        </div>
+                      )}
+                      {entry.location && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                          <MapPin className="h-3 w-3" />
+                          {entry.location}
+                        </div>
+                      )}
+                      {entry.description && (
+                        <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                          {entry.description}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No events scheduled for this date.</p>
+            )
+          ) : (
+            <p className="text-sm text-muted-foreground">Click on a date to view events.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+
+  if (!trips) {
     return (
       <div className="p-8">
         <div className="animate-pulse space-y-6">
@@ -163,9 +275,11 @@ export function CalendarView() {
         </div>
       </div>
 
-      <Tabs defaultValue="month" className="space-y-6">
+      <Tabs value={view} onValueChange={(value) => setView(value as CalendarViewMode)} className="space-y-6">
         <TabsList>
           <TabsTrigger value="month">Month View</TabsTrigger>
+          <TabsTrigger value="week">Week View</TabsTrigger>
+          <TabsTrigger value="day">Day View</TabsTrigger>
           <TabsTrigger value="agenda">Agenda View</TabsTrigger>
         </TabsList>
 
@@ -176,26 +290,19 @@ export function CalendarView() {
               <Card>
                 <CardHeader>
                   <div className="flex items-center justify-between">
-                    <CardTitle className="text-xl font-semibold">
-                      {format(currentDate, 'MMMM yyyy')}
-                    </CardTitle>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setCurrentDate(subMonths(currentDate, 1))}
-                      >
-                        <ChevronLeft className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setCurrentDate(addMonths(currentDate, 1))}
-                      >
-                        <ChevronRight className="h-4 w-4" />
-                      </Button>
-                    </div>
+                    <CardTitle className="text-xl font-semibold">{viewTitle}</CardTitle>
+                    {monthNav}
                   </div>
+                  {monthTrips.length > 0 && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 pt-2">
+                      {monthTrips.map(trip => (
+                        <span key={trip.id} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                          <span className={`h-2 w-2 rounded-full ${TRIP_COLORS[getTripColor(trip.id)].dot}`} />
+                          {trip.title}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </CardHeader>
                 <CardContent>
                   {/* Calendar Grid */}
@@ -207,120 +314,193 @@ export function CalendarView() {
                     ))}
                   </div>
                   
-                  <div className="grid grid-cols-7 gap-1">
-                    {monthDays.map((day) => {
-                      const dayEntries = getEntriesForDate(day)
-                      const isSelected = selectedDate && isSameDay(day, selectedDate)
-                      const isCurrentMonth = isSameMonth(day, currentDate)
-                      const isToday = isSameDay(day, new Date())
-                      
-                      return (
-                        <button
-                          key={day.toISOString()}
-                          onClick={() => setSelectedDate(day)}
-                          className={`
-                            p-2 min-h-[80px] text-left border rounded-lg transition-colors
-                            ${isSelected ? 'bg-primary text-primary-foreground border-primary' : 'border-border hover:bg-muted'}
-                            ${!isCurrentMonth ? 'text-muted-foreground' : ''}
-                            ${isToday && !isSelected ? 'bg-accent' : ''}
-                          `}
-                        >
-                          <div className={`text-sm font-medium mb-1 ${isToday && !isSelected ? 'text-primary' : ''}`}>
-                            {format(day, 'd')}
-                          </div>
-                          <div className="space-y-1">
-                            {dayEntries.slice(0, 2).map((entry) => (
+                  <EntryDndContext onDrop={(entry, target) => moveEntry(entry, moveToDate(entry, target.date))}>
+                    <div className="space-y-1">
+                      {weeks.map((week, weekIndex) => {
+                        const segments = layoutStaySegments(
+                          entries,
+                          week.map(day => day && format(day, 'yyyy-MM-dd'))
+                        )
+                        const lanes = segments.reduce((count, segment) => Math.max(count, segment.lane + 1), 0)
+                        const bands = layoutTripBands(
+                          monthTrips,
+                          week.map(day => day && format(day, 'yyyy-MM-dd'))
+                        )
+                        const bandLanes = bands.reduce((count, band) => Math.max(count, band.lane + 1), 0)
+  
+                        return (
+                          <div key={weekIndex} className="relative">
+                            {/* Trip spans, tinted behind the day cells */}
+                            {bands.length > 0 && (
                               <div
-                                key={entry.id}
-                                className={`text-xs p-1 rounded truncate ${
-                                  isSelected ? 'bg-primary-foreground/20' : 'bg-primary/10'
-                                }`}
+                                className="pointer-events-none absolute inset-0 grid grid-cols-7 gap-x-1"
+                                style={{ gridTemplateRows: `repeat(${bandLanes}, 1fr)` }}
                               >
-                                {entry.startTime && formatTime(entry.startTime)} {entry.title}
-                              </div>
-                            ))}
-                            {dayEntries.length > 2 && (
-                              <div className="text-xs text-muted-foreground">
-                                +{dayEntries.length - 2} more
+                                {bands.map((band) => (
+                                  <div
+                                    key={band.trip.id}
+                                    className={`
+                                      border ${TRIP_COLORS[getTripColor(band.trip.id)].band}
+                                      ${band.continuesBefore ? 'border-l-0' : 'rounded-l-lg'}
+                                      ${band.continuesAfter ? 'border-r-0' : 'rounded-r-lg'}
+                                    `}
+                                    style={{
+                                      gridColumn: `${band.startColumn + 1} / ${band.endColumn + 2}`,
+                                      gridRow: band.lane + 1
+                                    }}
+                                  />
+                                ))}
                               </div>
                             )}
-                          </div>
-                        </button>
-                      )
-                    })}
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-
-            {/* Selected Date Details */}
-            <div>
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">
-                    {selectedDate ? format(selectedDate, 'EEEE, MMMM d') : 'Select a date'}
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  {selectedDate ? (
-                    selectedDateEntries.length > 0 ? (
-                      <div className="space-y-3">
-                        {selectedDateEntries
-                          .sort((a, b) => (a.startTime || '').localeCompare(b.startTime || ''))
-                          .map((entry) => (
-                            <div key={entry.id} className="border-l-4 border-l-primary/20 pl-3">
-                              <div className="flex items-center gap-2 mb-1">
-                                <Badge className={getCategoryColor(entry.category)} size="sm">
-                                  {entry.category}
-                                </Badge>
-                                <span className="text-xs text-muted-foreground">
-                                  {entry.tripTitle}
-                                </span>
-                              </div>
-                              <h4 className="font-medium text-sm">{entry.title}</h4>
-                              {entry.startTime && (
-                                <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
-                                  <Clock className="h-3 w-3" />
-                                  {formatTime(entry.startTime)}
-                                </div>
-                              )}
-                              {entry.location && (
-                                <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
-                                  <MapPin className="h-3 w-3" />
-                                  {entry.location}
+  
+                            <div className="relative grid grid-cols-7 gap-1">
+                              {week.map((day, dayIndex) => {
+                                if (!day) return <div key={`pad-${dayIndex}`} />
+  
+                                const dayEntries = getEntriesForDate(day)
+                                const isSelected = selectedDate && isSameDay(day, selectedDate)
+                                const isCurrentMonth = isSameMonth(day, currentDate)
+                                const isToday = isSameDay(day, new Date())
+  
+                                return (
+                                  <DroppableDay key={day.toISOString()} date={format(day, 'yyyy-MM-dd')} className="relative">
+                                    {/* Picks the day; entries sit over it, not inside, so they can be dragged on their own */}
+                                    <button
+                                      onClick={() => setSelectedDate(day)}
+                                      aria-label={format(day, 'EEEE, MMMM d')}
+                                      aria-pressed={!!isSelected}
+                                      className={`
+                                        absolute inset-0 border rounded-lg transition-colors
+                                        ${isSelected ? 'bg-primary border-primary' : 'border-border hover:bg-muted'}
+                                        ${isToday && !isSelected ? 'bg-accent' : ''}
+                                      `}
+                                    />
+                                    <div
+                                      className={`
+                                        pointer-events-none relative p-2 min-h-[80px] text-left
+                                        ${isSelected ? 'text-primary-foreground' : ''}
+                                        ${!isCurrentMonth ? 'text-muted-foreground' : ''}
+                                      `}
+                                    >
+                                      <div className={`text-sm font-medium mb-1 ${isToday && !isSelected ? 'text-primary' : ''}`}>
+                                        {format(day, 'd')}
+                                      </div>
+                                      <div className="space-y-1" style={{ marginTop: `${lanes * STAY_LANE_HEIGHT}rem` }}>
+                                        {dayEntries.slice(0, 2).map((entry) => (
+                                          <DraggableEntry
+                                            key={entry.id}
+                                            entry={entry}
+                                            disabled={!canMove(entry)}
+                                            onClick={() => setSelectedDate(day)}
+                                            className={`pointer-events-auto text-xs p-1 rounded truncate ${
+                                              isSelected ? 'bg-primary-foreground/20' : TRIP_COLORS[entry.tripColor].chip
+                                            }`}
+                                          >
+                                            {entry.startTime && formatTime(entry.startTime)} {entry.title}
+                                          </DraggableEntry>
+                                        ))}
+                                        {dayEntries.length > 2 && (
+                                          <div className="text-xs text-muted-foreground">
+                                            +{dayEntries.length - 2} more
+                                          </div>
+                                        )}
+                                      </div>
+                                    </div>
+                                  </DroppableDay>
+                                )
+                              })}
+                            </div>
+  
+                            {/* Stay bars, laid over the day cells below the day numbers */}
+                            <div
+                              className="pointer-events-none absolute inset-x-0 top-8 grid grid-cols-7 gap-x-1"
+                              style={{ gridAutoRows: `${STAY_LANE_HEIGHT}rem` }}
+                            >
+                              {segments.map((segment) => (
+                                <div
+                                  key={segment.entry.id}
+                                  title={segment.entry.title}
+                                  className={`
+                                    flex items-center gap-1 h-5 px-2 text-xs truncate bg-blue-100 text-blue-800 border border-blue-200
+                                    ${segment.continuesBefore ? 'border-l-0' : 'ml-1 rounded-l-full'}
+                                    ${segment.continuesAfter ? 'border-r-0' : 'mr-1 rounded-r-full'}
+                                  `}
+                                  style={{
+                                    gridColumn: `${segment.startColumn + 1} / ${segment.endColumn + 2}`,
+                                    gridRow: segment.lane + 1
+                                  }}
+                                >
+                                  <BedDouble className="h-3 w-3 shrink-0" />
+                                  <span className="truncate">{segment.entry.title}</span>
                                 </div>
-                              )}
-                              {entry.description && (
-                                <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
-                                  {entry.description}
-                                </p>
-                              )}
+                              ))}
                             </div>
-                          ))}
-                      </div>
-                    ) : (
-                      <p className="text-sm text-muted-foreground">No events scheduled for this date.</p>
-                    )
-                  ) : (
-                    <p className="text-sm text-muted-foreground">Click on a date to view events.</p>
-                  )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </EntryDndContext>
                 </CardContent>
               </Card>
             </div>
+
+            {selectedDateDetails}
           </div>
         </TabsContent>
 
+        {(['week', 'day'] as const).map(mode => (
+          <TabsContent key={mode} value={mode} className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-xl font-semibold">{viewTitle}</CardTitle>
+                      {monthNav}
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <TimeGrid
+                      days={mode === 'week' ? weekDays : [currentDate]}
+                      entries={entries}
+                      canMove={canMove}
+                      onReschedule={moveEntry}
+                      selectedDate={detailDate}
+                      onSelectDate={(day) => {
+                        // Picking the selected day again opens it in the day view
+                        if (mode === 'week' && detailDate && isSameDay(day, detailDate)) {
+                          setCurrentDate(day)
+                          setView('day')
+                        }
+                        setSelectedDate(day)
+                      }}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+
+              {selectedDateDetails}
+            </div>
+          </TabsContent>
+        ))}
+
         <TabsContent value="agenda" className="space-y-4">
-          {entries.length === 0 ? (
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold">{viewTitle}</h2>
+            {monthNav}
+          </div>
+          {monthEntries.length === 0 ? (
             <div className="text-center py-12">
               <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold text-foreground mb-2">No events scheduled</h3>
-              <p className="text-muted-foreground">Create some trips to see your travel schedule here.</p>
+              <p className="text-muted-foreground">
+                {monthLoading ? 'Loading this month...' : 'Nothing is planned this month. Try another month or create a trip.'}
+              </p>
             </div>
           ) : (
             <div className="space-y-6">
               {Object.entries(
-                entries
+                monthEntries
                   .sort((a, b) => a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || ''))
                   .reduce((groups, entry) => {
                     const date = entry.date
@@ -329,12 +509,20 @@ export function CalendarView() {
                     }
                     groups[date].push(entry)
                     return groups
-                  }, {} as Record<string, TripEntry[]>)
+                  }, {} as Record<string, CalendarEntry[]>)
               ).map(([date, dayEntries]) => (
                 <div key={date}>
-                  <h3 className="text-lg font-semibold text-foreground mb-3">
-                    {format(new Date(date), 'EEEE, MMMM d, yyyy')}
-                  </h3>
+                  <div className="flex items-center gap-3 mb-3">
+                    <h3 className="text-lg font-semibold text-foreground">
+                      {formatDate(date, 'full')}
+                    </h3>
+                    {getLegsForDate(date).map(({ trip, leg }) => (
+                      <span key={trip.id} className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <MapPin className="h-3 w-3" />
+                        {leg.city}
+                      </span>
+                    ))}
+                  </div>
                   <div className="space-y-3">
                     {dayEntries.map((entry) => (
                       <Card key={entry.id}>
@@ -343,13 +531,14 @@ export function CalendarView() {
                             <div className="flex-1">
                               <div className="flex items-center gap-2 mb-2">
                                 <h4 className="font-medium text-foreground">{entry.title}</h4>
-                                <Badge className={getCategoryColor(entry.category)}>
-                                  {entry.category}
-                                </Badge>
+                                <CategoryBadge category={entry.category} />
                               </div>
                               
                               <div className="flex items-center gap-4 text-sm text-muted-foreground mb-2">
-                                <span className="font-medium text-primary">{entry.tripTitle}</span>
+                                <span className="flex items-center gap-1.5 font-medium text-foreground">
+                                  <span className={`h-2 w-2 rounded-full ${TRIP_COLORS[entry.tripColor].dot}`} />
+                                  {entry.tripTitle}
+                                </span>
                                 {entry.startTime && (
                                   <div className="flex items-center gap-1">
                                     <Clock className="h-3 w-3" />
@@ -382,6 +571,8 @@ export function CalendarView() {
           )}
         </TabsContent>
       </Tabs>
+
+      <OutOfRangeMoveDialog request={outOfRange} onConfirm={confirmOutOfRange} onCancel={cancelOutOfRange} />
     </div>
   )
 }
\ No newline at end of file
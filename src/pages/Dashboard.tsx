@@ -7,22 +7,40 @@ import {
   Plus, 
   MoreVertical,
   Package,
-  Sparkles
+  Sparkles,
+  Users
 } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Badge } from '../components/ui/badge'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '../components/ui/alert-dialog'
 import { CreateTripDialog } from '../components/trips/CreateTripDialog'
 import { TextParserDialog } from '../components/trips/TextParserDialog'
+import { useToast } from '../hooks/use-toast'
 import { blink } from '../blink/client'
-import { DatabaseService, type Trip } from '../lib/database'
+import { DatabaseService, type SharedTrip, type Trip, type TripRole } from '../lib/database'
+import { daysBetween, formatDateRange, todayKey } from '../lib/dates'
+import { formatRoute } from '../lib/legs'
+import { getRoleLabel } from '../lib/sharing'
 
 export function Dashboard() {
   const [trips, setTrips] = useState<Trip[]>([])
+  const [sharedTrips, setSharedTrips] = useState<SharedTrip[]>([])
   const [loading, setLoading] = useState(true)
   const [showCreateTrip, setShowCreateTrip] = useState(false)
   const [showTextParser, setShowTextParser] = useState(false)
+  const [tripToDelete, setTripToDelete] = useState<Trip | null>(null)
+  const { toast } = useToast()
 
   useEffect(() => {
     loadTrips()
@@ -32,51 +50,150 @@ export function Dashboard() {
     try {
       setLoading(true)
       const user = await blink.auth.me()
-      
-      // Use DatabaseService which handles fallback automatically
-      const userTrips = await DatabaseService.getTrips(user.id)
+      const [userTrips, shared] = await Promise.all([
+        DatabaseService.getTrips(user.id),
+        DatabaseService.getSharedTrips()
+      ])
       setTrips(userTrips)
+      setSharedTrips(shared)
     } catch (error) {
       console.error('Failed to load trips:', error)
       setTrips([]) // Set empty array on error
+      setSharedTrips([])
     } finally {
       setLoading(false)
     }
   }
 
-  const formatDateRange = (startDate: string, endDate: string) => {
-    const start = new Date(startDate)
-    const end = new Date(endDate)
-    const options: Intl.DateTimeFormatOptions = { 
-      month: 'short', 
-      day: 'numeric' 
-    }
-    
-    if (start.getFullYear() !== end.getFullYear()) {
-      return `${start.toLocaleDateString('en-US', { ...options, year: 'numeric' })} - ${end.toLocaleDateString('en-US', { ...options, year: 'numeric' })}`
+  const deleteTrip = async (trip: Trip) => {
+    try {
+      await DatabaseService.deleteTrip(trip.id)
+      setTrips(prev => prev.filter(t => t.id !== trip.id))
+      toast({
+        title: 'Trip deleted',
+        description: `${trip.title} and its itinerary have been removed.`,
+      })
+    } catch (error) {
+      console.error('Failed to delete trip:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to delete trip. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setTripToDelete(null)
     }
-    
-    return `${start.toLocaleDateString('en-US', options)} - ${end.toLocaleDateString('en-US', options)}, ${end.getFullYear()}`
   }
 
   const getDaysUntilTrip = (startDate: string) => {
-    const start = new Date(startDate)
-    const today = new Date()
-    const diffTime = start.getTime() - today.getTime()
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24))
-    return diffDays
+    return daysBetween(todayKey(), startDate)
   }
 
   const getTripStatus = (startDate: string, endDate: string) => {
-    const today = new Date()
-    const start = new Date(startDate)
-    const end = new Date(endDate)
+    const today = todayKey()
     
-    if (today < start) return 'upcoming'
-    if (today >= start && today <= end) return 'active'
+    if (today < startDate) return 'upcoming'
+    if (today <= endDate) return 'active'
     return 'completed'
   }
 
+  // Trips shared with this account carry the role they were shared with
+  const renderTripCard = (trip: Trip, sharedAs?: TripRole) => {
+    const status = getTripStatus(trip.startDate, trip.endDate)
+    const daysUntil = getDaysUntilTrip(trip.startDate)
+    
+    return (
+      <Card key={trip.id} className="group hover:shadow-lg transition-all duration-200 border-border/50 hover:border-primary/20">
+        <CardHeader className="pb-3">
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <CardTitle className="text-lg font-semibold text-foreground group-hover:text-primary transition-colors">
+                {trip.title}
+              </CardTitle>
+              <div className="flex items-center gap-2 mt-2">
+                <Badge 
+                  variant={status === 'active' ? 'default' : status === 'upcoming' ? 'secondary' : 'outline'}
+                  className={
+                    status === 'active' ? 'bg-green-100 text-green-800 border-green-200' :
+                    status === 'upcoming' ? 'bg-blue-100 text-blue-800 border-blue-200' :
+                    'bg-gray-100 text-gray-600 border-gray-200'
+                  }
+                >
+                  {status === 'active' ? 'Active' : status === 'upcoming' ? 'Upcoming' : 'Completed'}
+                </Badge>
+                {sharedAs && (
+                  <Badge variant="outline" className="gap-1">
+                    <Users className="h-3 w-3" />
+                    {getRoleLabel(sharedAs)}
+                  </Badge>
+                )}
+                {status === 'upcoming' && daysUntil > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    in {daysUntil} days
+                  </span>
+                )}
+              </div>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100 transition-opacity">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <Link to={`/trip/${trip.id}`}>View Details</Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to={`/packing/${trip.id}`}>Packing List</Link>
+                </DropdownMenuItem>
+                {!sharedAs && (
+                  <DropdownMenuItem
+                    className="text-destructive"
+                    onSelect={() => setTripToDelete(trip)}
+                  >
+                    Delete Trip
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <MapPin className="h-4 w-4" />
+            <span className="truncate">{formatRoute(trip)}</span>
+          </div>
+          
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Calendar className="h-4 w-4" />
+            <span>{formatDateRange(trip.startDate, trip.endDate)}</span>
+          </div>
+
+          {trip.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2">
+              {trip.description}
+            </p>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button asChild size="sm" className="flex-1">
+              <Link to={`/trip/${trip.id}`}>
+                <Clock className="h-4 w-4 mr-2" />
+                View Itinerary
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/packing/${trip.id}`}>
+                <Package className="h-4 w-4" />
+              </Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
   if (loading) {
     return (
       <div className="p-8">
@@ -147,90 +264,21 @@ export function Dashboard() {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {trips.map((trip) => {
-            const status = getTripStatus(trip.startDate, trip.endDate)
-            const daysUntil = getDaysUntilTrip(trip.startDate)
-            
-            return (
-              <Card key={trip.id} className="group hover:shadow-lg transition-all duration-200 border-border/50 hover:border-primary/20">
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <CardTitle className="text-lg font-semibold text-foreground group-hover:text-primary transition-colors">
-                        {trip.title}
-                      </CardTitle>
-                      <div className="flex items-center gap-2 mt-2">
-                        <Badge 
-                          variant={status === 'active' ? 'default' : status === 'upcoming' ? 'secondary' : 'outline'}
-                          className={
-                            status === 'active' ? 'bg-green-100 text-green-800 border-green-200' :
-                            status === 'upcoming' ? 'bg-blue-100 text-blue-800 border-blue-200' :
-                            'bg-gray-100 text-gray-600 border-gray-200'
-                          }
-                        >
-                          {status === 'active' ? 'Active' : status === 'upcoming' ? 'Upcoming' : 'Completed'}
-                        </Badge>
-                        {status === 'upcoming' && daysUntil > 0 && (
-                          <span className="text-xs text-muted-foreground">
-                            in {daysUntil} days
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100 transition-opacity">
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem asChild>
-                          <Link to={`/trip/${trip.id}`}>View Details</Link>
-                        </DropdownMenuItem>
-                        <DropdownMenuItem asChild>
-                          <Link to={`/packing/${trip.id}`}>Packing List</Link>
-                        </DropdownMenuItem>
-                        <DropdownMenuItem className="text-destructive">
-                          Delete Trip
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <MapPin className="h-4 w-4" />
-                    <span>{trip.destination}</span>
-                  </div>
-                  
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Calendar className="h-4 w-4" />
-                    <span>{formatDateRange(trip.startDate, trip.endDate)}</span>
-                  </div>
-
-                  {trip.description && (
-                    <p className="text-sm text-muted-foreground line-clamp-2">
-                      {trip.description}
-                    </p>
-                  )}
+          {trips.map(trip => renderTripCard(trip))}
+        </div>
+      )}
 
-                  <div className="flex gap-2 pt-2">
-                    <Button asChild size="sm" className="flex-1">
-                      <Link to={`/trip/${trip.id}`}>
-                        <Clock className="h-4 w-4 mr-2" />
-                        View Itinerary
-                      </Link>
-                    </Button>
-                    <Button asChild variant="outline" size="sm">
-                      <Link to={`/packing/${trip.id}`}>
-                        <Package className="h-4 w-4" />
-                      </Link>
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            )
-          })}
+      {sharedTrips.length > 0 && (
+        <div className="mt-12">
+          <div className="mb-6">
+            <h2 className="text-xl font-semibold text-foreground">Shared with me</h2>
+            <p className="text-muted-foreground mt-1">
+              Trips other travellers have invited you to
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {sharedTrips.map(({ trip, role }) => renderTripCard(trip, role))}
+          </div>
         </div>
       )}
 
@@ -245,6 +293,25 @@ export function Dashboard() {
         onOpenChange={setShowTextParser}
         onTripCreated={loadTrips}
       />
+      <AlertDialog open={!!tripToDelete} onOpenChange={(open) => !open && setTripToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {tripToDelete?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the trip along with all of its itinerary entries and packing items.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => tripToDelete && deleteTrip(tripToDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Trip
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
\ No newline at end of file
@@ -4,7 +4,6 @@ import {
   ArrowLeft, 
   Package, 
   Plus, 
-  Check, 
   X, 
   Sparkles,
   Shirt,
@@ -18,10 +17,18 @@ import { Badge } from '../components/ui/badge'
 import { Checkbox } from '../components/ui/checkbox'
 import { Input } from '../components/ui/input'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
+import { ToggleGroup, ToggleGroupItem } from '../components/ui/toggle-group'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '../components/ui/dialog'
+import { TravellerPicker } from '../components/travellers/TravellerPicker'
+import { ChangeAttribution } from '../components/realtime/ChangeAttribution'
 import { useToast } from '../hooks/use-toast'
+import { useTripChanges } from '../hooks/use-trip-changes'
 import { blink } from '../blink/client'
-import { DatabaseService } from '../lib/database'
+import { DatabaseService, type PackingItem as StoredPackingItem, type Traveller, type TripRole } from '../lib/database'
+import { daysBetween, formatDate, formatDateRange } from '../lib/dates'
+import { findTravellerForAccount, isAssignedTo } from '../lib/travellers'
+import { hasRole } from '../lib/sharing'
+import { CHANGE_HIGHLIGHT_CLASS, describeChange, type TripChange } from '../lib/realtime'
 
 interface PackingItem {
   id: string
@@ -30,6 +37,7 @@ interface PackingItem {
   isPacked: boolean
   quantity: number
   notes?: string
+  travellerIds: string[]
 }
 
 interface Trip {
@@ -38,6 +46,20 @@ interface Trip {
   destination: string
   startDate: string
   endDate: string
+  travellers?: Traveller[]
+}
+
+// Convert database format to component format
+function toViewItem(item: StoredPackingItem): PackingItem {
+  return {
+    id: item.id,
+    itemName: item.itemName,
+    category: item.category || 'general',
+    isPacked: Number(item.isPacked) > 0, // Convert SQLite boolean
+    quantity: 1, // Default quantity
+    notes: item.notes,
+    travellerIds: item.travellerIds ?? []
+  }
 }
 
 export function PackingList() {
@@ -47,6 +69,10 @@ export function PackingList() {
   const [loading, setLoading] = useState(true)
   const [newItemName, setNewItemName] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('general')
+  const [newItemTravellerIds, setNewItemTravellerIds] = useState<string[]>([])
+  const [accountId, setAccountId] = useState<string>()
+  const [role, setRole] = useState<TripRole | null>(null)
+  const [onlyMine, setOnlyMine] = useState(false)
   const [showAISuggestions, setShowAISuggestions] = useState(false)
   const [aiLoading, setAiLoading] = useState(false)
   const { toast } = useToast()
@@ -59,36 +85,23 @@ export function PackingList() {
     { id: 'general', name: 'General', icon: Package, color: 'bg-gray-100 text-gray-600' }
   ]
 
-  useEffect(() => {
-    loadPackingList()
-  }, [tripId, loadPackingList])
-
   const loadPackingList = useCallback(async () => {
     try {
       setLoading(true)
       const user = await blink.auth.me()
-      
-      // Get all trips and find the one we need
-      const allTrips = await DatabaseService.getTrips(user.id)
-      const foundTrip = allTrips.find(t => t.id === tripId)
+      setAccountId(user.id)
+      const [foundTrip, tripRole] = await Promise.all([
+        DatabaseService.getTripById(tripId!),
+        DatabaseService.getTripRole(tripId!)
+      ])
+      setRole(tripRole)
       
       if (foundTrip) {
         setTrip(foundTrip)
         
         // Load packing items
-        const packingItems = await DatabaseService.getPackingItems(tripId!, user.id)
-        
-        // Convert database format to component format
-        const formattedItems: PackingItem[] = packingItems.map(item => ({
-          id: item.id,
-          itemName: item.itemName,
-          category: item.category || 'general',
-          isPacked: Number(item.isPacked) > 0, // Convert SQLite boolean
-          quantity: 1, // Default quantity
-          notes: item.notes
-        }))
-        
-        setItems(formattedItems)
+        const packingItems = await DatabaseService.getPackingItems(tripId!)
+        setItems(packingItems.map(toViewItem))
       } else {
         // Trip not found, set to null
         setTrip(null)
@@ -103,40 +116,118 @@ export function PackingList() {
     }
   }, [tripId])
 
-  const addItem = async () => {
-    if (!newItemName.trim()) return
-
-    const newItem: PackingItem = {
-      id: Date.now().toString(),
-      itemName: newItemName.trim(),
-      category: selectedCategory,
-      isPacked: false,
-      quantity: 1
+  useEffect(() => {
+    loadPackingList()
+  }, [loadPackingList])
+
+  const applyChange = useCallback((change: TripChange) => {
+    if (change.collection !== 'packingItems') return
+    const item = toViewItem(change.record)
+    if (change.kind === 'deleted') {
+      setItems(prev => prev.filter(i => i.id !== item.id))
+      toast({ title: `${describeChange(change)} ${item.itemName}` })
+      return
     }
+    // Merge so view-only fields such as AI priority survive the update
+    setItems(prev => prev.some(i => i.id === item.id)
+      ? prev.map(i => (i.id === item.id ? { ...i, ...item } : i))
+      : [...prev, item])
+  }, [toast])
+
+  const changes = useTripChanges(trip?.id, applyChange)
 
-    setItems(prev => [...prev, newItem])
-    setNewItemName('')
-    
-    toast({
-      title: 'Item added',
-      description: `${newItem.itemName} has been added to your packing list.`,
-    })
+  const addItem = async () => {
+    if (!newItemName.trim() || !trip) return
+
+    try {
+      const user = await blink.auth.me()
+      const created = await DatabaseService.createPackingItem({
+        tripId: trip.id,
+        userId: user.id,
+        itemName: newItemName.trim(),
+        category: selectedCategory,
+        isPacked: false,
+        travellerIds: newItemTravellerIds
+      })
+
+      setItems(prev => [...prev, toViewItem(created)])
+      setNewItemName('')
+      
+      toast({
+        title: 'Item added',
+        description: `${created.itemName} has been added to your packing list.`,
+      })
+    } catch (error) {
+      console.error('Failed to add item:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to add item. Please try again.',
+        variant: 'destructive',
+      })
+    }
   }
 
   const togglePacked = async (itemId: string) => {
-    setItems(prev => prev.map(item => 
-      item.id === itemId 
-        ? { ...item, isPacked: !item.isPacked }
-        : item
+    const item = items.find(i => i.id === itemId)
+    if (!item) return
+
+    // Flip optimistically so the checkbox feels instant, revert on failure
+    const setPacked = (isPacked: boolean) => setItems(prev => prev.map(i =>
+      i.id === itemId ? { ...i, isPacked } : i
+    ))
+    setPacked(!item.isPacked)
+
+    try {
+      await DatabaseService.updatePackingItem(itemId, { isPacked: !item.isPacked })
+    } catch (error) {
+      console.error('Failed to update item:', error)
+      setPacked(item.isPacked)
+      toast({
+        title: 'Error',
+        description: 'Failed to update item. Please try again.',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const assignItem = async (itemId: string, travellerIds: string[]) => {
+    const item = items.find(i => i.id === itemId)
+    if (!item) return
+
+    const setAssigned = (ids: string[]) => setItems(prev => prev.map(i =>
+      i.id === itemId ? { ...i, travellerIds: ids } : i
     ))
+    setAssigned(travellerIds)
+
+    try {
+      await DatabaseService.updatePackingItem(itemId, { travellerIds })
+    } catch (error) {
+      console.error('Failed to assign item:', error)
+      setAssigned(item.travellerIds)
+      toast({
+        title: 'Error',
+        description: 'Failed to assign item. Please try again.',
+        variant: 'destructive',
+      })
+    }
   }
 
   const removeItem = async (itemId: string) => {
-    setItems(prev => prev.filter(item => item.id !== itemId))
-    toast({
-      title: 'Item removed',
-      description: 'Item has been removed from your packing list.',
-    })
+    try {
+      await DatabaseService.deletePackingItem(itemId)
+      setItems(prev => prev.filter(item => item.id !== itemId))
+      toast({
+        title: 'Item removed',
+        description: 'Item has been removed from your packing list.',
+      })
+    } catch (error) {
+      console.error('Failed to remove item:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to remove item. Please try again.',
+        variant: 'destructive',
+      })
+    }
   }
 
   const generateAISuggestions = async () => {
@@ -177,18 +268,25 @@ export function PackingList() {
 
       const suggestions = (object as any).suggestions
       const existingItemNames = new Set(items.map(item => item.itemName.toLowerCase()))
+      const user = await blink.auth.me()
       
-      const newSuggestions = suggestions
+      const newSuggestions = await Promise.all(suggestions
         .filter((suggestion: any) => !existingItemNames.has(suggestion.itemName.toLowerCase()))
-        .map((suggestion: any) => ({
-          id: `ai-${Date.now()}-${Math.random()}`,
-          itemName: suggestion.itemName,
-          category: suggestion.category,
-          isPacked: false,
-          quantity: suggestion.quantity,
-          notes: suggestion.notes,
-          priority: suggestion.priority,
-          isAISuggestion: true
+        .map(async (suggestion: any) => {
+          const created = await DatabaseService.createPackingItem({
+            tripId: trip.id,
+            userId: user.id,
+            itemName: suggestion.itemName,
+            category: suggestion.category,
+            isPacked: false,
+            notes: suggestion.notes
+          })
+          return {
+            ...toViewItem(created),
+            quantity: suggestion.quantity,
+            priority: suggestion.priority,
+            isAISuggestion: true
+          }
         }))
 
       setItems(prev => [...prev, ...newSuggestions])
@@ -220,14 +318,21 @@ export function PackingList() {
     return category?.color || 'bg-gray-100 text-gray-600'
   }
 
+  const canEdit = hasRole(role, 'editor')
+  const me = findTravellerForAccount(trip?.travellers, accountId)
+  // "My bag" keeps shared items and the ones assigned to you
+  const visibleItems = onlyMine && me
+    ? items.filter(item => isAssignedTo(trip?.travellers, item, me.id))
+    : items
+
   const getItemsByCategory = (categoryId: string) => {
-    return items.filter(item => item.category === categoryId)
+    return visibleItems.filter(item => item.category === categoryId)
   }
 
   const getPackingProgress = () => {
-    if (items.length === 0) return 0
-    const packedItems = items.filter(item => item.isPacked).length
-    return Math.round((packedItems / items.length) * 100)
+    if (visibleItems.length === 0) return 0
+    const packedItems = visibleItems.filter(item => item.isPacked).length
+    return Math.round((packedItems / visibleItems.length) * 100)
   }
 
   const getPriorityColor = (priority?: string) => {
@@ -293,13 +398,13 @@ export function PackingList() {
                 Packing List - {trip.title}
               </CardTitle>
               <p className="text-muted-foreground">
-                {trip.destination} • {new Date(trip.startDate).toLocaleDateString()} - {new Date(trip.endDate).toLocaleDateString()}
+                {trip.destination} • {formatDateRange(trip.startDate, trip.endDate)}
               </p>
             </div>
             <div className="text-right">
               <div className="text-3xl font-bold text-primary mb-1">{progress}%</div>
               <div className="text-sm text-muted-foreground">
-                {items.filter(item => item.isPacked).length} of {items.length} packed
+                {visibleItems.filter(item => item.isPacked).length} of {visibleItems.length} packed
               </div>
               <div className="w-32 bg-muted rounded-full h-2 mt-2">
                 <div 
@@ -313,131 +418,169 @@ export function PackingList() {
       </Card>
 
       {/* Add Item & AI Suggestions */}
-      <Card className="mb-6">
-        <CardContent className="p-4">
-          <div className="flex gap-3">
-            <div className="flex-1 flex gap-2">
-              <Input
-                placeholder="Add new item..."
-                value={newItemName}
-                onChange={(e) => setNewItemName(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && addItem()}
-                className="flex-1"
-              />
-              <select
-                value={selectedCategory}
-                onChange={(e) => setSelectedCategory(e.target.value)}
-                className="px-3 py-2 border border-input rounded-md bg-background text-sm"
-              >
-                {categories.map(category => (
-                  <option key={category.id} value={category.id}>
-                    {category.name}
-                  </option>
-                ))}
-              </select>
-              <Button onClick={addItem} disabled={!newItemName.trim()}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add
-              </Button>
-            </div>
-            
-            <Dialog open={showAISuggestions} onOpenChange={setShowAISuggestions}>
-              <DialogTrigger asChild>
-                <Button variant="outline" className="border-primary/20 text-primary hover:bg-primary/5">
-                  <Sparkles className="h-4 w-4 mr-2" />
-                  AI Suggestions
+      {canEdit && (
+        <Card className="mb-6">
+          <CardContent className="p-4">
+            <div className="flex gap-3">
+              <div className="flex-1 flex gap-2">
+                <Input
+                  placeholder="Add new item..."
+                  value={newItemName}
+                  onChange={(e) => setNewItemName(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && addItem()}
+                  className="flex-1"
+                />
+                <select
+                  value={selectedCategory}
+                  onChange={(e) => setSelectedCategory(e.target.value)}
+                  className="px-3 py-2 border border-input rounded-md bg-background text-sm"
+                >
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+                {!!trip.travellers?.length && (
+                  <TravellerPicker
+                    travellers={trip.travellers}
+                    value={newItemTravellerIds}
+                    onChange={setNewItemTravellerIds}
+                    everyoneLabel="Shared"
+                  />
+                )}
+                <Button onClick={addItem} disabled={!newItemName.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
                 </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle className="flex items-center gap-2">
-                    <Sparkles className="h-5 w-5 text-primary" />
-                    AI Packing Suggestions
-                  </DialogTitle>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <p className="text-muted-foreground">
-                    Get personalized packing suggestions based on your destination, travel dates, and typical activities.
-                  </p>
-                  <div className="bg-muted/50 p-4 rounded-lg">
-                    <h4 className="font-medium mb-2">Trip Details:</h4>
-                    <ul className="text-sm text-muted-foreground space-y-1">
-                      <li>• Destination: {trip.destination}</li>
-                      <li>• Duration: {Math.ceil((new Date(trip.endDate).getTime() - new Date(trip.startDate).getTime()) / (1000 * 60 * 60 * 24))} days</li>
-                      <li>• Season: {new Date(trip.startDate).toLocaleDateString('en-US', { month: 'long' })}</li>
-                    </ul>
-                  </div>
-                  <div className="flex gap-3">
-                    <Button
-                      variant="outline"
-                      onClick={() => setShowAISuggestions(false)}
-                      className="flex-1"
-                    >
-                      Cancel
-                    </Button>
-                    <Button
-                      onClick={generateAISuggestions}
-                      disabled={aiLoading}
-                      className="flex-1 bg-primary hover:bg-primary/90"
-                    >
-                      {aiLoading ? (
-                        <>
-                          <Sparkles className="h-4 w-4 mr-2 animate-spin" />
-                          Generating...
-                        </>
-                      ) : (
-                        <>
-                          <Sparkles className="h-4 w-4 mr-2" />
-                          Generate Suggestions
-                        </>
-                      )}
-                    </Button>
+              </div>
+              
+              <Dialog open={showAISuggestions} onOpenChange={setShowAISuggestions}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" className="border-primary/20 text-primary hover:bg-primary/5">
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    AI Suggestions
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                      <Sparkles className="h-5 w-5 text-primary" />
+                      AI Packing Suggestions
+                    </DialogTitle>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <p className="text-muted-foreground">
+                      Get personalized packing suggestions based on your destination, travel dates, and typical activities.
+                    </p>
+                    <div className="bg-muted/50 p-4 rounded-lg">
+                      <h4 className="font-medium mb-2">Trip Details:</h4>
+                      <ul className="text-sm text-muted-foreground space-y-1">
+                        <li>• Destination: {trip.destination}</li>
+                        <li>• Duration: {daysBetween(trip.startDate, trip.endDate)} days</li>
+                        <li>• Season: {formatDate(trip.startDate, 'month')}</li>
+                      </ul>
+                    </div>
+                    <div className="flex gap-3">
+                      <Button
+                        variant="outline"
+                        onClick={() => setShowAISuggestions(false)}
+                        className="flex-1"
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        onClick={generateAISuggestions}
+                        disabled={aiLoading}
+                        className="flex-1 bg-primary hover:bg-primary/90"
+                      >
+                        {aiLoading ? (
+                          <>
+                            <Sparkles className="h-4 w-4 mr-2 animate-spin" />
+                            Generating...
+                          </>
+                        ) : (
+                          <>
+                            <Sparkles className="h-4 w-4 mr-2" />
+                            Generate Suggestions
+                          </>
+                        )}
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              </DialogContent>
-            </Dialog>
-          </div>
-        </CardContent>
-      </Card>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Packing List */}
       <Tabs defaultValue="all" className="space-y-6">
-        <TabsList>
-          <TabsTrigger value="all">All Items ({items.length})</TabsTrigger>
-          {categories.map(category => {
-            const categoryItems = getItemsByCategory(category.id)
-            return categoryItems.length > 0 ? (
-              <TabsTrigger key={category.id} value={category.id}>
-                {category.name} ({categoryItems.length})
-              </TabsTrigger>
-            ) : null
-          })}
-        </TabsList>
+        <div className="flex items-center justify-between gap-4">
+          <TabsList>
+            <TabsTrigger value="all">All Items ({visibleItems.length})</TabsTrigger>
+            {categories.map(category => {
+              const categoryItems = getItemsByCategory(category.id)
+              return categoryItems.length > 0 ? (
+                <TabsTrigger key={category.id} value={category.id}>
+                  {category.name} ({categoryItems.length})
+                </TabsTrigger>
+              ) : null
+            })}
+          </TabsList>
+          {!!trip.travellers?.length && (
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={onlyMine && me ? 'mine' : 'group'}
+              onValueChange={(value: string) => value && setOnlyMine(value === 'mine')}
+            >
+              <ToggleGroupItem value="group">Whole group</ToggleGroupItem>
+              <ToggleGroupItem
+                value="mine"
+                disabled={!me}
+                title={me ? undefined : 'Mark yourself in the trip\'s Travellers to see your own bag'}
+              >
+                My bag
+              </ToggleGroupItem>
+            </ToggleGroup>
+          )}
+        </div>
 
         <TabsContent value="all" className="space-y-4">
-          {items.length === 0 ? (
+          {visibleItems.length === 0 ? (
             <div className="text-center py-12">
               <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <h3 className="text-lg font-semibold text-foreground mb-2">No items yet</h3>
               <p className="text-muted-foreground mb-4">
-                Start adding items to your packing list or use AI suggestions
+                {canEdit
+                  ? 'Start adding items to your packing list or use AI suggestions'
+                  : 'Nothing has been added to this packing list yet'}
               </p>
-              <Button onClick={() => setShowAISuggestions(true)}>
-                <Sparkles className="h-4 w-4 mr-2" />
-                Get AI Suggestions
-              </Button>
+              {canEdit && (
+                <Button onClick={() => setShowAISuggestions(true)}>
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Get AI Suggestions
+                </Button>
+              )}
             </div>
           ) : (
             <div className="space-y-3">
-              {items.map((item) => {
+              {visibleItems.map((item) => {
                 const CategoryIcon = getCategoryIcon(item.category)
                 return (
-                  <Card key={item.id} className={`transition-all ${item.isPacked ? 'bg-muted/50' : ''}`}>
+                  <Card
+                    key={item.id}
+                    className={`transition-all ${item.isPacked ? 'bg-muted/50' : ''} ${changes[item.id] ? CHANGE_HIGHLIGHT_CLASS : ''}`}
+                  >
                     <CardContent className="p-4">
                       <div className="flex items-center gap-3">
                         <Checkbox
                           checked={item.isPacked}
                           onCheckedChange={() => togglePacked(item.id)}
+                          disabled={!canEdit}
                           className="mt-1"
                         />
                         
@@ -453,6 +596,7 @@ export function PackingList() {
                             <span className={`font-medium ${item.isPacked ? 'line-through text-muted-foreground' : 'text-foreground'}`}>
                               {item.itemName}
                             </span>
+                            {changes[item.id] && <ChangeAttribution change={changes[item.id]} />}
                             {item.quantity > 1 && (
                               <span className="text-sm text-muted-foreground">
                                 (x{item.quantity})
@@ -477,14 +621,27 @@ export function PackingList() {
                           )}
                         </div>
                         
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeItem(item.id)}
-                          className="text-destructive hover:text-destructive"
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
+                        {!!trip.travellers?.length && (
+                          <TravellerPicker
+                            travellers={trip.travellers}
+                            value={item.travellerIds}
+                            onChange={(travellerIds) => assignItem(item.id, travellerIds)}
+                            everyoneLabel="Shared"
+                            size="sm"
+                            disabled={!canEdit}
+                          />
+                        )}
+
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeItem(item.id)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -501,12 +658,16 @@ export function PackingList() {
               {categoryItems.map((item) => {
                 const CategoryIcon = category.icon
                 return (
-                  <Card key={item.id} className={`transition-all ${item.isPacked ? 'bg-muted/50' : ''}`}>
+                  <Card
+                    key={item.id}
+                    className={`transition-all ${item.isPacked ? 'bg-muted/50' : ''} ${changes[item.id] ? CHANGE_HIGHLIGHT_CLASS : ''}`}
+                  >
                     <CardContent className="p-4">
                       <div className="flex items-center gap-3">
                         <Checkbox
                           checked={item.isPacked}
                           onCheckedChange={() => togglePacked(item.id)}
+                          disabled={!canEdit}
                           className="mt-1"
                         />
                         
@@ -517,6 +678,7 @@ export function PackingList() {
                             <span className={`font-medium ${item.isPacked ? 'line-through text-muted-foreground' : 'text-foreground'}`}>
                               {item.itemName}
                             </span>
+                            {changes[item.id] && <ChangeAttribution change={changes[item.id]} />}
                             {item.quantity > 1 && (
                               <span className="text-sm text-muted-foreground">
                                 (x{item.quantity})
@@ -541,14 +703,27 @@ export function PackingList() {
                           )}
                         </div>
                         
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeItem(item.id)}
-                          className="text-destructive hover:text-destructive"
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
+                        {!!trip.travellers?.length && (
+                          <TravellerPicker
+                            travellers={trip.travellers}
+                            value={item.travellerIds}
+                            onChange={(travellerIds) => assignItem(item.id, travellerIds)}
+                            everyoneLabel="Shared"
+                            size="sm"
+                            disabled={!canEdit}
+                          />
+                        )}
+
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeItem(item.id)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -8,6 +8,9 @@ import { Label } from '../components/ui/label'
 import { Separator } from '../components/ui/separator'
 import { useToast } from '../hooks/use-toast'
 import { blink } from '../blink/client'
+import { formatTimestamp } from '../lib/dates'
+import { CategoryManager } from '../components/profile/CategoryManager'
+import { PlaceLookupSetting } from '../components/profile/PlaceLookupSetting'
 
 interface UserProfile {
   id: string
@@ -106,14 +109,6 @@ export function Profile() {
     return email.charAt(0).toUpperCase()
   }
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    })
-  }
-
   if (loading) {
     return (
       <div className="p-8">
@@ -217,7 +212,7 @@ export function Profile() {
                   <Label>Member Since</Label>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Calendar className="h-4 w-4" />
-                    {formatDate(user.createdAt)}
+                    {formatTimestamp(user.createdAt)}
                   </div>
                 </div>
               </div>
@@ -250,6 +245,10 @@ export function Profile() {
               </div>
             </CardContent>
           </Card>
+
+          <CategoryManager userId={user.id} />
+
+          <PlaceLookupSetting />
         </div>
 
         {/* Stats & Actions */}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { Calendar, Eye, Link2Off, MapPin, Plane } from 'lucide-react'
+import { Badge } from '../components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { TripRoute } from '../components/trips/TripRoute'
+import { TripTimeline } from '../components/trips/TripTimeline'
+import { TravellerAvatars } from '../components/travellers/TravellerAvatars'
+import { DatabaseService, type PublicItinerary } from '../lib/database'
+import { formatDate, formatTimestamp } from '../lib/dates'
+import { formatRoute } from '../lib/legs'
+
+// Read-only itinerary behind a public share link; rendered outside the auth gate
+export function SharedItinerary() {
+  const { token } = useParams<{ token: string }>()
+  const [itinerary, setItinerary] = useState<PublicItinerary | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    DatabaseService.getPublicItinerary(token!)
+      .then(result => !cancelled && setItinerary(result))
+      .catch(error => {
+        console.error('Failed to load shared itinerary:', error)
+        if (!cancelled) setItinerary(null)
+      })
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background p-8">
+        <div className="animate-pulse space-y-6 max-w-4xl mx-auto">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="h-32 bg-muted rounded"></div>
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-24 bg-muted rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!itinerary) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <div className="text-center max-w-md">
+          <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+            <Link2Off className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h2 className="text-2xl font-semibold text-foreground mb-2">Link not available</h2>
+          <p className="text-muted-foreground">
+            This itinerary link has expired or was turned off. Ask whoever sent it for a new one.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const { trip, entries } = itinerary
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="max-w-4xl mx-auto flex items-center gap-3 px-8 py-4">
+          <div className="flex items-center justify-center w-8 h-8 bg-primary rounded-lg">
+            <Plane className="h-5 w-5 text-primary-foreground" />
+          </div>
+          <span className="font-bold text-foreground">TravelPlan</span>
+          <Badge variant="outline" className="ml-auto gap-1">
+            <Eye className="h-3 w-3" />
+            Read-only
+          </Badge>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-8">
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="text-2xl font-bold text-foreground mb-2">{trip.title}</CardTitle>
+                <div className="flex flex-wrap items-center gap-4 text-muted-foreground mb-3">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4" />
+                    <span>{formatRoute(trip)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4" />
+                    <span>
+                      {formatDate(trip.startDate, 'full')} - {formatDate(trip.endDate, 'full')}
+                    </span>
+                  </div>
+                </div>
+                {trip.description && <p className="text-muted-foreground">{trip.description}</p>}
+                {trip.legs && trip.legs.length > 1 && (
+                  <div className="mt-4">
+                    <TripRoute legs={trip.legs} />
+                  </div>
+                )}
+              </div>
+              {!!trip.travellers?.length && <TravellerAvatars travellers={trip.travellers} size="md" />}
+            </div>
+          </CardHeader>
+        </Card>
+
+        {entries.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              Nothing has been planned for this trip yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <TripTimeline trip={trip} entries={entries} />
+        )}
+
+        <p className="mt-8 text-center text-xs text-muted-foreground">
+          {itinerary.hidePrivate && 'Notes and confirmation numbers are hidden on this link. '}
+          {itinerary.expiresAt && `This link stops working on ${formatTimestamp(itinerary.expiresAt, 'full')}.`}
+        </p>
+      </main>
+    </div>
+  )
+}
@@ -1,49 +1,99 @@
 import { useState, useEffect, useCallback } from 'react'
-import { useParams, Link } from 'react-router-dom'
+import { useParams, Link, useNavigate } from 'react-router-dom'
 import { 
   ArrowLeft, 
   MapPin, 
   Calendar, 
-  Clock, 
   Plus, 
   ExternalLink,
-  Navigation,
-  MoreVertical
+  MoreVertical,
+  Share2,
+  Sparkles,
+  Users
 } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
-import { Badge } from '../components/ui/badge'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../components/ui/dropdown-menu'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
+import { ToggleGroup, ToggleGroupItem } from '../components/ui/toggle-group'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '../components/ui/alert-dialog'
+import { useToast } from '../hooks/use-toast'
+import { useTripChanges } from '../hooks/use-trip-changes'
+import { useReschedule } from '../hooks/use-reschedule'
+import { useScheduleIssues } from '../hooks/use-schedule-issues'
 import { blink } from '../blink/client'
-import { DatabaseService, type Trip, type TripEntry } from '../lib/database'
+import { DatabaseService, type Trip, type TripEntry, type TripRole } from '../lib/database'
+import { subscribeConflicts } from '../lib/repositories'
+import { CHANGE_HIGHLIGHT_CLASS, describeChange, type TripChange } from '../lib/realtime'
 import { CreateEntryDialog } from '../components/trips/CreateEntryDialog'
+import { CategoryBadge } from '../components/trips/CategoryBadge'
+import { TextParserDialog } from '../components/trips/TextParserDialog'
+import { FlightCard } from '../components/trips/FlightCard'
+import { StayCard } from '../components/trips/StayCard'
+import { TransportCard } from '../components/trips/TransportCard'
+import { TripRoute } from '../components/trips/TripRoute'
+import { TripTimeline } from '../components/trips/TripTimeline'
+import { FillGapDialog } from '../components/trips/FillGapDialog'
+import { OutOfRangeMoveDialog } from '../components/calendar/OutOfRangeMoveDialog'
+import { BudgetTab } from '../components/budget/BudgetTab'
+import { BalancesTab } from '../components/budget/BalancesTab'
+import { TravellerAvatars } from '../components/travellers/TravellerAvatars'
+import { TravellersDialog } from '../components/travellers/TravellersDialog'
+import { ShareTripDialog } from '../components/sharing/ShareTripDialog'
+import { ChangeAttribution } from '../components/realtime/ChangeAttribution'
+import { describeEntryTime, formatDate } from '../lib/dates'
+import { getTripTimeZone } from '../lib/time-zones'
+import { getGoogleMapsUrl } from '../lib/maps'
+import { formatRoute, getEntryLeg } from '../lib/legs'
+import { findTravellerForAccount, getAssignedTravellers, isAssignedTo } from '../lib/travellers'
+import { hasRole } from '../lib/sharing'
+import { moveToDate } from '../lib/reschedule'
+import { groupIssuesByDate } from '../lib/schedule-check'
+import { findFreeTime, type FreeTimeGap } from '../lib/free-time'
 
 export function TripDetails() {
   const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
   const [trip, setTrip] = useState<Trip | null>(null)
   const [entries, setEntries] = useState<TripEntry[]>([])
   const [loading, setLoading] = useState(true)
   const [showCreateEntry, setShowCreateEntry] = useState(false)
-
-  useEffect(() => {
-    loadTripDetails()
-  }, [id, loadTripDetails])
+  const [editingEntry, setEditingEntry] = useState<TripEntry | null>(null)
+  const [entryToDelete, setEntryToDelete] = useState<TripEntry | null>(null)
+  const [showTextParser, setShowTextParser] = useState(false)
+  const [showTravellers, setShowTravellers] = useState(false)
+  const [showShare, setShowShare] = useState(false)
+  const [accountId, setAccountId] = useState<string>()
+  const [role, setRole] = useState<TripRole | null>(null)
+  const [onlyMine, setOnlyMine] = useState(false)
+  const [gapToFill, setGapToFill] = useState<FreeTimeGap | null>(null)
+  const { toast } = useToast()
 
   const loadTripDetails = useCallback(async () => {
     try {
       setLoading(true)
       const user = await blink.auth.me()
-      
-      // Get all trips and find the one we need
-      const allTrips = await DatabaseService.getTrips(user.id)
-      const foundTrip = allTrips.find(t => t.id === id)
+      setAccountId(user.id)
+      const [foundTrip, tripRole] = await Promise.all([
+        DatabaseService.getTripById(id!),
+        DatabaseService.getTripRole(id!)
+      ])
+      setRole(tripRole)
       
       if (foundTrip) {
         setTrip(foundTrip)
         
         // Load trip entries
-        const tripEntries = await DatabaseService.getTripEntries(id!, user.id)
+        const tripEntries = await DatabaseService.getTripEntries(id!)
         setEntries(tripEntries)
       } else {
         // Trip not found, set to null
@@ -59,53 +109,100 @@ export function TripDetails() {
     }
   }, [id])
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'accommodation': return 'bg-blue-100 text-blue-800 border-blue-200'
-      case 'transportation': return 'bg-green-100 text-green-800 border-green-200'
-      case 'activity': return 'bg-purple-100 text-purple-800 border-purple-200'
-      case 'dining': return 'bg-orange-100 text-orange-800 border-orange-200'
-      default: return 'bg-gray-100 text-gray-600 border-gray-200'
-    }
-  }
+  useEffect(() => {
+    loadTripDetails()
+  }, [loadTripDetails])
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
+  // Offline edits that conflicted are shown with the remote values until the
+  // user merges them, so reload whenever that set changes
+  useEffect(() => {
+    let initial = true
+    return subscribeConflicts(() => {
+      if (initial) {
+        initial = false
+        return
+      }
+      loadTripDetails()
     })
-  }
+  }, [loadTripDetails])
 
-  const formatTime = (timeString: string) => {
-    return new Date(`2000-01-01T${timeString}`).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    })
-  }
+  // Collaborators' edits land in place, without reloading the whole trip
+  const applyChange = useCallback((change: TripChange) => {
+    if (change.collection !== 'tripEntries') return
+    const entry = change.record
+    if (change.kind === 'deleted') {
+      setEntries(prev => prev.filter(e => e.id !== entry.id))
+      toast({ title: `${describeChange(change)} ${entry.title}` })
+      return
+    }
+    setEntries(prev => prev.some(e => e.id === entry.id)
+      ? prev.map(e => (e.id === entry.id ? entry : e))
+      : [...prev, entry])
+  }, [toast])
 
-  const getGoogleMapsUrl = (address?: string, location?: string) => {
-    const query = encodeURIComponent(address || location || '')
-    return `https://www.google.com/maps/search/?api=1&query=${query}`
-  }
+  const changes = useTripChanges(trip?.id, applyChange)
+
+  const replaceEntry = useCallback((entry: TripEntry) => {
+    setEntries(prev => prev.map(e => (e.id === entry.id ? entry : e)))
+  }, [])
+  const { reschedule, outOfRange, confirmOutOfRange, cancelOutOfRange } = useReschedule(replaceEntry)
+  // Checked against the whole group's plans, whatever the filter shows
+  const scheduleIssues = useScheduleIssues(trip, entries)
+  const highlight = (entry: TripEntry) => (changes[entry.id] ? CHANGE_HIGHLIGHT_CLASS : '')
+
+  // Viewers get the same itinerary without any of the editing controls
+  const canEdit = hasRole(role, 'editor')
 
-  const getDirectionsUrl = (fromAddress: string, toAddress: string) => {
-    const origin = encodeURIComponent(fromAddress)
-    const destination = encodeURIComponent(toAddress)
-    return `https://www.google.com/maps/dir/?api=1&origin=${origin}&destination=${destination}`
+  const openEntryEditor = (entry: TripEntry | null) => {
+    setEditingEntry(entry)
+    setShowCreateEntry(true)
   }
 
-  const groupEntriesByDate = (entries: TripEntry[]) => {
-    return entries.reduce((groups, entry) => {
-      const date = entry.date
-      if (!groups[date]) {
-        groups[date] = []
-      }
-      groups[date].push(entry)
-      return groups
-    }, {} as Record<string, TripEntry[]>)
+  const renderEntryMenu = (entry: TripEntry) => (
+    <div className="flex items-center gap-2">
+      {changes[entry.id] && <ChangeAttribution change={changes[entry.id]} />}
+      <TravellerAvatars travellers={getAssignedTravellers(trip?.travellers, entry)} max={3} />
+      {canEdit && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <MoreVertical className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => openEntryEditor(entry)}>
+              Edit Entry
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="text-destructive"
+              onSelect={() => setEntryToDelete(entry)}
+            >
+              Delete Entry
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  )
+
+  const deleteEntry = async (entry: TripEntry) => {
+    try {
+      await DatabaseService.deleteTripEntry(entry.id)
+      setEntries(prev => prev.filter(e => e.id !== entry.id))
+      toast({
+        title: 'Entry deleted',
+        description: `${entry.title} has been removed from your itinerary.`,
+      })
+    } catch (error) {
+      console.error('Failed to delete entry:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to delete entry. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setEntryToDelete(null)
+    }
   }
 
   if (loading) {
@@ -139,8 +236,12 @@ export function TripDetails() {
     )
   }
 
-  const groupedEntries = groupEntriesByDate(entries)
-  const sortedDates = Object.keys(groupedEntries).sort()
+  const tripTimeZone = getTripTimeZone(trip)
+  const me = findTravellerForAccount(trip.travellers, accountId)
+  // "My itinerary" keeps group entries and the ones assigned to you
+  const visibleEntries = onlyMine && me
+    ? entries.filter(entry => isAssignedTo(trip.travellers, entry, me.id))
+    : entries
 
   return (
     <div className="p-8 max-w-6xl mx-auto">
@@ -165,29 +266,60 @@ export function TripDetails() {
               <div className="flex items-center gap-4 text-muted-foreground mb-3">
                 <div className="flex items-center gap-2">
                   <MapPin className="h-4 w-4" />
-                  <span>{trip.destination}</span>
+                  <span>{formatRoute(trip)}</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <Calendar className="h-4 w-4" />
                   <span>
-                    {formatDate(trip.startDate)} - {formatDate(trip.endDate)}
+                    {formatDate(trip.startDate, 'full')} - {formatDate(trip.endDate, 'full')}
                   </span>
                 </div>
               </div>
               {trip.description && (
                 <p className="text-muted-foreground">{trip.description}</p>
               )}
+              {trip.legs && trip.legs.length > 1 && (
+                <div className="mt-4">
+                  <TripRoute legs={trip.legs} />
+                </div>
+              )}
             </div>
             <div className="flex gap-2">
+              {role && (
+                <Button variant="outline" onClick={() => setShowShare(true)}>
+                  <Share2 className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+              )}
+              {canEdit ? (
+                <Button variant="outline" onClick={() => setShowTravellers(true)} className="gap-2">
+                  {trip.travellers?.length ? (
+                    <TravellerAvatars travellers={trip.travellers} />
+                  ) : (
+                    <Users className="h-4 w-4" />
+                  )}
+                  Travellers
+                </Button>
+              ) : !!trip.travellers?.length && (
+                <TravellerAvatars travellers={trip.travellers} size="md" className="self-center" />
+              )}
               <Button asChild variant="outline">
                 <Link to={`/packing/${trip.id}`}>
                   Packing List
                 </Link>
               </Button>
-              <Button onClick={() => setShowCreateEntry(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Entry
-              </Button>
+              {canEdit && (
+                <>
+                  <Button variant="outline" onClick={() => setShowTextParser(true)}>
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    Parse Text
+                  </Button>
+                  <Button onClick={() => openEntryEditor(null)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Entry
+                  </Button>
+                </>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -195,147 +327,83 @@ export function TripDetails() {
 
       {/* Itinerary */}
       <Tabs defaultValue="timeline" className="space-y-6">
-        <TabsList>
-          <TabsTrigger value="timeline">Timeline View</TabsTrigger>
-          <TabsTrigger value="list">List View</TabsTrigger>
-        </TabsList>
+        <div className="flex items-center justify-between gap-4">
+          <TabsList>
+            <TabsTrigger value="timeline">Timeline View</TabsTrigger>
+            <TabsTrigger value="list">List View</TabsTrigger>
+            <TabsTrigger value="budget">Budget</TabsTrigger>
+            <TabsTrigger value="balances">Balances</TabsTrigger>
+          </TabsList>
+          {!!trip.travellers?.length && (
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={onlyMine && me ? 'mine' : 'group'}
+              onValueChange={(value: string) => value && setOnlyMine(value === 'mine')}
+            >
+              <ToggleGroupItem value="group">Whole group</ToggleGroupItem>
+              <ToggleGroupItem
+                value="mine"
+                disabled={!me}
+                title={me ? undefined : 'Mark yourself in Travellers to see your own itinerary'}
+              >
+                My itinerary
+              </ToggleGroupItem>
+            </ToggleGroup>
+          )}
+        </div>
 
         <TabsContent value="timeline" className="space-y-6">
-          {sortedDates.map((date) => (
-            <div key={date} className="space-y-4">
-              <div className="flex items-center gap-3">
-                <div className="w-3 h-3 bg-primary rounded-full"></div>
-                <h3 className="text-lg font-semibold text-foreground">
-                  {formatDate(date)}
-                </h3>
-              </div>
-              
-              <div className="ml-6 space-y-3 border-l-2 border-border pl-6">
-                {groupedEntries[date]
-                  .sort((a, b) => (a.startTime || '').localeCompare(b.startTime || ''))
-                  .map((entry, index) => (
-                    <Card key={entry.id} className="relative">
-                      <div className="absolute -left-8 top-6 w-3 h-3 bg-background border-2 border-primary rounded-full"></div>
-                      <CardContent className="p-4">
-                        <div className="flex items-start justify-between gap-3">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-2">
-                              <h4 className="font-medium text-foreground">{entry.title}</h4>
-                              <Badge className={getCategoryColor(entry.category)}>
-                                {entry.category}
-                              </Badge>
-                            </div>
-                            
-                            {(entry.startTime || entry.endTime) && (
-                              <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
-                                <Clock className="h-4 w-4" />
-                                <span>
-                                  {entry.startTime && formatTime(entry.startTime)}
-                                  {entry.endTime && ` - ${formatTime(entry.endTime)}`}
-                                </span>
-                              </div>
-                            )}
-                            
-                            {entry.location && (
-                              <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
-                                <MapPin className="h-4 w-4" />
-                                <span>{entry.location}</span>
-                              </div>
-                            )}
-                            
-                            {entry.description && (
-                              <p className="text-sm text-muted-foreground mb-3">
-                                {entry.description}
-                              </p>
-                            )}
-                            
-                            <div className="flex gap-2">
-                              {entry.address && (
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  asChild
-                                >
-                                  <a
-                                    href={getGoogleMapsUrl(entry.address, entry.location)}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                  >
-                                    <MapPin className="h-3 w-3 mr-1" />
-                                    View on Maps
-                                    <ExternalLink className="h-3 w-3 ml-1" />
-                                  </a>
-                                </Button>
-                              )}
-                              
-                              {index > 0 && groupedEntries[date][index - 1].address && entry.address && (
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  asChild
-                                >
-                                  <a
-                                    href={getDirectionsUrl(
-                                      groupedEntries[date][index - 1].address!,
-                                      entry.address
-                                    )}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                  >
-                                    <Navigation className="h-3 w-3 mr-1" />
-                                    Directions
-                                    <ExternalLink className="h-3 w-3 ml-1" />
-                                  </a>
-                                </Button>
-                              )}
-                            </div>
-                          </div>
-                          
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="sm">
-                                <MoreVertical className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem>Edit Entry</DropdownMenuItem>
-                              <DropdownMenuItem className="text-destructive">
-                                Delete Entry
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-              </div>
-            </div>
-          ))}
+          <TripTimeline
+            trip={trip}
+            entries={visibleEntries}
+            renderActions={renderEntryMenu}
+            highlightedIds={new Set(Object.keys(changes))}
+            onMoveEntry={canEdit ? (entry, date) => reschedule({ entry, move: moveToDate(entry, date), trip }) : undefined}
+            issuesByDate={groupIssuesByDate(scheduleIssues)}
+            // Free time follows the filter: yours, or when nobody has plans
+            gapsByDate={findFreeTime(trip, visibleEntries)}
+            onFillGap={canEdit ? setGapToFill : undefined}
+          />
         </TabsContent>
 
         <TabsContent value="list" className="space-y-4">
-          {entries
+          {[...visibleEntries]
             .sort((a, b) => {
               const dateCompare = a.date.localeCompare(b.date)
               if (dateCompare !== 0) return dateCompare
               return (a.startTime || '').localeCompare(b.startTime || '')
             })
-            .map((entry) => (
-              <Card key={entry.id}>
+            .map((entry) => entry.entryType === 'stay' ? (
+              <StayCard key={entry.id} entry={entry} actions={renderEntryMenu(entry)} className={highlight(entry)} />
+            ) : entry.entryType === 'transport' ? (
+              <TransportCard key={entry.id} entry={entry} actions={renderEntryMenu(entry)} className={highlight(entry)} />
+            ) : entry.entryType === 'flight' ? (
+              <FlightCard
+                key={entry.id}
+                entry={entry}
+                fallbackTimeZone={tripTimeZone}
+                actions={renderEntryMenu(entry)}
+                className={highlight(entry)}
+              />
+            ) : (
+              <Card key={entry.id} className={highlight(entry)}>
                 <CardContent className="p-4">
                   <div className="flex items-start justify-between gap-3">
                     <div className="flex-1">
                       <div className="flex items-center gap-2 mb-2">
                         <h4 className="font-medium text-foreground">{entry.title}</h4>
-                        <Badge className={getCategoryColor(entry.category)}>
-                          {entry.category}
-                        </Badge>
+                        <CategoryBadge category={entry.category} />
                       </div>
                       
                       <div className="flex items-center gap-4 text-sm text-muted-foreground mb-2">
-                        <span>📅 {formatDate(entry.date)}</span>
+                        <span>📅 {formatDate(entry.date, 'full')}</span>
+                        {getEntryLeg(trip.legs, entry) && (
+                          <span>🗺️ {getEntryLeg(trip.legs, entry)!.city}</span>
+                        )}
                         {entry.startTime && (
-                          <span>🕐 {formatTime(entry.startTime)}</span>
+                          <span>🕐 {describeEntryTime({ ...entry, timeZone: entry.timeZone || tripTimeZone })?.local}</span>
                         )}
                       </div>
                       
@@ -371,36 +439,97 @@ export function TripDetails() {
                         </Button>
                       )}
                       
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="sm">
-                            <MoreVertical className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem>Edit Entry</DropdownMenuItem>
-                          <DropdownMenuItem className="text-destructive">
-                            Delete Entry
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                      {renderEntryMenu(entry)}
                     </div>
                   </div>
                 </CardContent>
               </Card>
             ))}
         </TabsContent>
+
+        <TabsContent value="budget">
+          <BudgetTab trip={trip} entries={entries} onTripUpdated={setTrip} readOnly={!canEdit} />
+        </TabsContent>
+
+        <TabsContent value="balances">
+          <BalancesTab trip={trip} />
+        </TabsContent>
       </Tabs>
 
-      {/* Create Entry Dialog */}
+      {/* Create / Edit Entry Dialog */}
       {trip && (
         <CreateEntryDialog 
           open={showCreateEntry} 
           onOpenChange={setShowCreateEntry}
           tripId={trip.id}
-          onEntryCreated={loadTripDetails}
+          defaultTimeZone={tripTimeZone}
+          legs={trip.legs}
+          travellers={trip.travellers}
+          entry={editingEntry}
+          onEntrySaved={loadTripDetails}
         />
       )}
+
+      {trip && (
+        <TravellersDialog
+          open={showTravellers}
+          onOpenChange={setShowTravellers}
+          trip={trip}
+          onTravellersSaved={setTrip}
+        />
+      )}
+
+      <FillGapDialog
+        gap={gapToFill}
+        onClose={() => setGapToFill(null)}
+        trip={trip}
+        existingEntries={entries}
+        onEntriesAdded={(added) => setEntries(prev => [
+          ...prev,
+          ...added.filter(entry => !prev.some(e => e.id === entry.id))
+        ])}
+      />
+
+      <OutOfRangeMoveDialog request={outOfRange} onConfirm={confirmOutOfRange} onCancel={cancelOutOfRange} />
+
+      {trip && role && (
+        <ShareTripDialog
+          open={showShare}
+          onOpenChange={setShowShare}
+          trip={trip}
+          role={role}
+          onLeft={() => navigate('/dashboard')}
+        />
+      )}
+
+      {/* Merge pasted confirmations into this trip */}
+      <TextParserDialog
+        open={showTextParser}
+        onOpenChange={setShowTextParser}
+        targetTrip={trip}
+        existingEntries={entries}
+        onEntriesMerged={loadTripDetails}
+      />
+
+      <AlertDialog open={!!entryToDelete} onOpenChange={(open) => !open && setEntryToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {entryToDelete?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This entry will be removed from your itinerary.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => entryToDelete && deleteEntry(entryToDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Entry
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
\ No newline at end of file
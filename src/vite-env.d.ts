@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'blink' | 'local' | 'memory'; when unset the Blink backend is probed
+  readonly VITE_STORAGE_BACKEND?: string
+  // URL of the deployed shared-itinerary function (functions/shared-itinerary)
+  readonly VITE_SHARE_ENDPOINT?: string
+}